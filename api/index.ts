@@ -1,7 +1,18 @@
+import { IncomingMessage, ServerResponse } from 'http';
 import app from '../app.js';
 import DatabaseService from '../services/database.service.js';
 
-// Initialize DB connection once
-DatabaseService.connect();
+// Vercel's edge proxy sets X-Forwarded-For; rate limits need the client IP behind it
+app.set('trust proxy', 1);
 
-export default app;
+// Initialize DB connection once per instance
+const connection = DatabaseService.connect();
+
+/**
+ * Requests wait for the connection: authentication reads the API key from
+ * Mongo before any route runs
+ */
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  await connection;
+  return app(req, res);
+}
@@ -7,7 +7,7 @@ dotenv.config();
 const app = express();
 
 // Middleware
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Session-Id', 'Retry-After', 'X-Cache'] }));
 app.use(express.json());
 
 // Routes
@@ -17,8 +17,37 @@ app.get('/', (req, res) => {
 
 import configRoutes from './routes/configRoutes.js';
 import codeRoutes from './routes/codeRoutes.js';
+import componentRoutes from './routes/componentRoutes.js';
+import historyRoutes from './routes/historyRoutes.js';
+import sessionRoutes from './routes/sessionRoutes.js';
+import themeRoutes from './routes/themeRoutes.js';
+import exampleRoutes from './routes/exampleRoutes.js';
+import generationRoutes from './routes/generationRoutes.js';
+import adminRoutes from './routes/adminRoutes.js';
+import { getOpenApiDocument } from './controllers/openApiController.js';
+import { notFoundHandler, errorHandler } from './middleware/errorHandler.js';
+import { requireApiKey } from './middleware/apiKeyAuth.js';
+
+// GET /api/openapi.json (generated from contracts/, no key needed)
+app.get('/api/openapi.json', getOpenApiDocument);
+
+// Key management, behind the admin key
+app.use('/api/admin', adminRoutes);
+
+// Everything else works in the workspace of the request's API key
+app.use('/api', requireApiKey);
 
 app.use('/api/config', configRoutes);
 app.use('/api/code', codeRoutes);
+app.use('/api/components', componentRoutes);
+app.use('/api/history', historyRoutes);
+app.use('/api/sessions', sessionRoutes);
+app.use('/api/themes', themeRoutes);
+app.use('/api/examples', exampleRoutes);
+app.use('/api/generations', generationRoutes);
+
+// Every error, including unknown routes and malformed JSON, uses the error envelope
+app.use('/api', notFoundHandler);
+app.use(errorHandler);
 
 export default app;
@@ -0,0 +1,334 @@
+import { z } from 'zod';
+import { ButtonConfigSchema } from '../validators/buttonConfigValidator.js';
+import { IconButtonConfigSchema, iconButtonConfigRules } from '../validators/iconButtonConfigValidator.js';
+import { AccordionConfigSchema } from '../validators/accordionConfigValidator.js';
+import { InputConfigSchema } from '../validators/inputConfigValidator.js';
+import { SelectConfigSchema, selectConfigRules } from '../validators/selectConfigValidator.js';
+import { RadioConfigSchema, radioConfigRules } from '../validators/radioConfigValidator.js';
+import { CardConfigSchema } from '../validators/cardConfigValidator.js';
+import { ModalConfigSchema } from '../validators/modalConfigValidator.js';
+import { TabsConfigSchema, tabsConfigRules } from '../validators/tabsConfigValidator.js';
+import { ProgressConfigSchema, progressConfigRules } from '../validators/progressConfigValidator.js';
+import { createLayoutConfigSchema, layoutConfigRules, LayoutConfig } from '../validators/layoutConfigValidator.js';
+import { validateConfig, ValidationResult } from '../validators/configValidator.js';
+import type { CoreThemeToken } from '../validators/themeValidator.js';
+import { describeSchema, toJSONSchema } from '../utils/schemaDescriber.js';
+import type { ContrastPair } from '../utils/contrast.js';
+
+export interface ComponentRegistryEntry<T extends z.ZodType = z.ZodType> {
+  id: string;
+  name: string;
+  description: string;
+  aliases: string[];
+  schema: T;
+  defaultConfig: z.infer<T>;
+  rules?: string; // Hand-written guidance appended to the generated schema description
+  themeRoles?: Record<string, CoreThemeToken>; // Config path -> theme token applied when re-skinning
+  contrastPairs?: ContrastPair[]; // Colors drawn on top of each other, checked by the accessibility audit
+}
+
+/**
+ * Keeps defaultConfig type-checked against the entry's schema
+ */
+function defineComponent<T extends z.ZodType>(entry: ComponentRegistryEntry<T>): ComponentRegistryEntry<T> {
+  return entry;
+}
+
+// Components that render on their own; a layout arranges these
+const leafComponents: Record<string, ComponentRegistryEntry> = {
+  button: defineComponent({
+    id: 'button',
+    name: 'Button',
+    description: 'Text button with contained and outlined variants',
+    aliases: ['btn'],
+    schema: ButtonConfigSchema,
+    defaultConfig: {
+      label: 'Button',
+      variant: 'contained',
+      size: 'medium',
+      styles: { borderRadius: 6, backgroundColor: '#1976D2', fontColor: '#FFFFFF' }
+    },
+    contrastPairs: [
+      { foreground: 'styles.fontColor', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.backgroundColor': 'primary',
+      'styles.fontColor': 'onPrimary',
+      'styles.borderColor': 'primary',
+      'styles.borderRadius': 'radiusMd',
+      'styles.padding.px': 'spacingLg',
+      'styles.padding.py': 'spacingSm'
+    }
+  }),
+  'icon-button': defineComponent({
+    id: 'icon-button',
+    name: 'Icon Button',
+    description: 'Button with an icon and an optional text label',
+    aliases: ['iconButton', 'icon_button'],
+    schema: IconButtonConfigSchema,
+    defaultConfig: {
+      label: 'Add',
+      showLabel: true,
+      variant: 'contained',
+      size: 'medium',
+      styles: { borderRadius: 6, backgroundColor: '#1976D2', fontColor: '#FFFFFF' }
+    },
+    rules: iconButtonConfigRules,
+    contrastPairs: [
+      { foreground: 'styles.fontColor', background: 'styles.backgroundColor', kind: 'graphic' }
+    ],
+    themeRoles: {
+      'styles.backgroundColor': 'primary',
+      'styles.fontColor': 'onPrimary',
+      'styles.borderColor': 'primary',
+      'styles.borderRadius': 'radiusMd',
+      'styles.padding.px': 'spacingMd',
+      'styles.padding.py': 'spacingSm'
+    }
+  }),
+  accordion: defineComponent({
+    id: 'accordion',
+    name: 'Accordion',
+    description: 'Collapsible section with a title and content',
+    aliases: ['collapse', 'disclosure'],
+    schema: AccordionConfigSchema,
+    defaultConfig: {
+      title: 'What is CompareUI?',
+      content: 'A playground for comparing the same component across UI libraries.',
+      size: 'medium'
+    },
+    contrastPairs: [
+      { foreground: 'styles.titleColor', background: 'styles.backgroundColor', kind: 'text' },
+      { foreground: 'styles.answerColor', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.backgroundColor': 'surface',
+      'styles.borderColor': 'border',
+      'styles.titleColor': 'onSurface',
+      'styles.answerColor': 'onSurface',
+      'styles.borderRadius': 'radiusMd'
+    }
+  }),
+  input: defineComponent({
+    id: 'input',
+    name: 'Input',
+    description: 'Single-line text field with a label and placeholder',
+    aliases: ['textfield', 'text-input', 'textbox'],
+    schema: InputConfigSchema,
+    defaultConfig: {
+      label: 'Email',
+      placeholder: 'you@example.com',
+      variant: 'outlined',
+      size: 'medium'
+    },
+    contrastPairs: [
+      { foreground: 'styles.fontColor', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.backgroundColor': 'surface',
+      'styles.fontColor': 'onSurface',
+      'styles.borderColor': 'border',
+      'styles.focusColor': 'primary',
+      'styles.borderRadius': 'radiusSm',
+      'styles.padding.px': 'spacingMd',
+      'styles.padding.py': 'spacingSm'
+    }
+  }),
+  select: defineComponent({
+    id: 'select',
+    name: 'Select',
+    description: 'Dropdown for picking one option from a list',
+    aliases: ['dropdown'],
+    schema: SelectConfigSchema,
+    defaultConfig: {
+      options: ['Option 1', 'Option 2', 'Option 3'],
+      value: 'Option 1',
+      label: 'Choose an option',
+      size: 'medium'
+    },
+    rules: selectConfigRules,
+    contrastPairs: [
+      { foreground: 'styles.color', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.color': 'onSurface',
+      'styles.backgroundColor': 'surface',
+      'styles.borderColor': 'border',
+      'styles.borderRadius': 'radiusSm'
+    }
+  }),
+  radio: defineComponent({
+    id: 'radio',
+    name: 'Radio Group',
+    description: 'Group of mutually exclusive radio options',
+    aliases: ['radio-group', 'radiogroup'],
+    schema: RadioConfigSchema,
+    defaultConfig: {
+      options: ['Small', 'Medium', 'Large'],
+      selectedValue: 'Medium',
+      size: 'medium'
+    },
+    rules: radioConfigRules,
+    contrastPairs: [
+      { foreground: 'styles.color', background: 'styles.backgroundColor', kind: 'graphic' }
+    ],
+    themeRoles: {
+      'styles.color': 'primary',
+      'styles.backgroundColor': 'surface',
+      'styles.borderColor': 'border'
+    }
+  }),
+  card: defineComponent({
+    id: 'card',
+    name: 'Card',
+    description: 'Content card with a title, body text and optional image',
+    aliases: [],
+    schema: CardConfigSchema,
+    defaultConfig: {
+      title: 'Card title',
+      description: 'Cards group related content and actions.',
+      image: true,
+      styles: { borderRadius: 8, shadow: 'md' }
+    },
+    contrastPairs: [
+      { foreground: 'styles.titleColor', background: 'styles.backgroundColor', kind: 'text' },
+      { foreground: 'styles.fontColor', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.backgroundColor': 'surface',
+      'styles.borderColor': 'border',
+      'styles.titleColor': 'onSurface',
+      'styles.fontColor': 'onSurface',
+      'styles.borderRadius': 'radiusLg',
+      'styles.padding.px': 'spacingLg',
+      'styles.padding.py': 'spacingLg',
+      'styles.shadow': 'shadow'
+    }
+  }),
+  modal: defineComponent({
+    id: 'modal',
+    name: 'Modal',
+    description: 'Dialog overlay with a title and body content',
+    aliases: ['dialog'],
+    schema: ModalConfigSchema,
+    defaultConfig: {
+      title: 'Confirm action',
+      content: 'Are you sure you want to continue?'
+    },
+    contrastPairs: [
+      { foreground: 'styles.titleColor', background: 'styles.backgroundColor', kind: 'text' },
+      { foreground: 'styles.textColor', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.backgroundColor': 'surface',
+      'styles.titleColor': 'onSurface',
+      'styles.textColor': 'onSurface',
+      'styles.borderRadius': 'radiusLg'
+    }
+  }),
+  tabs: defineComponent({
+    id: 'tabs',
+    name: 'Tabs',
+    description: 'Tabbed navigation between content panels',
+    aliases: ['tab'],
+    schema: TabsConfigSchema,
+    defaultConfig: {
+      tabs: [
+        { label: 'Overview', value: 'overview', content: 'Overview content' },
+        { label: 'Details', value: 'details', content: 'Details content' }
+      ],
+      defaultValue: 'overview',
+      orientation: 'horizontal'
+    },
+    rules: tabsConfigRules,
+    contrastPairs: [
+      { foreground: 'styles.activeColor', background: 'styles.backgroundColor', kind: 'text' },
+      { foreground: 'styles.inactiveColor', background: 'styles.backgroundColor', kind: 'text' }
+    ],
+    themeRoles: {
+      'styles.activeColor': 'primary',
+      'styles.inactiveColor': 'secondary',
+      'styles.backgroundColor': 'surface',
+      'styles.borderRadius': 'radiusMd',
+      'styles.padding': 'spacingMd'
+    }
+  }),
+  progress: defineComponent({
+    id: 'progress',
+    name: 'Progress',
+    description: 'Linear progress bar',
+    aliases: ['progress-bar', 'progressbar'],
+    schema: ProgressConfigSchema,
+    defaultConfig: {
+      value: 40,
+      max: 100,
+      size: 'medium'
+    },
+    rules: progressConfigRules,
+    contrastPairs: [
+      { foreground: 'styles.indicatorColor', background: 'styles.trackColor', kind: 'graphic' }
+    ],
+    themeRoles: {
+      'styles.indicatorColor': 'primary',
+      'styles.trackColor': 'border',
+      'styles.borderRadius': 'radiusSm'
+    }
+  })
+};
+
+export const componentRegistry: Record<string, ComponentRegistryEntry> = {
+  ...leafComponents,
+  layout: defineComponent({
+    id: 'layout',
+    name: 'Layout',
+    description: 'Composite screen: stack and grid containers arranging other components',
+    aliases: ['screen', 'composite'],
+    schema: createLayoutConfigSchema(
+      Object.fromEntries(Object.values(leafComponents).map(entry => [entry.id, entry.schema]))
+    ),
+    defaultConfig: {
+      title: 'Sign in',
+      root: {
+        type: 'stack',
+        direction: 'vertical',
+        gap: 16,
+        children: [
+          { type: 'input', config: { label: 'Email', placeholder: 'you@example.com', variant: 'outlined', size: 'medium' } },
+          { type: 'button', config: { label: 'Sign in', variant: 'contained', size: 'medium' } }
+        ]
+      }
+    } satisfies LayoutConfig,
+    rules: layoutConfigRules
+  })
+};
+
+function normalizeComponentName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Look up a component by id or alias ("icon-button", "iconButton", "icon_button")
+ */
+export function resolveComponent(name: string): ComponentRegistryEntry | undefined {
+  const normalized = normalizeComponentName(name);
+  return Object.values(componentRegistry).find(entry =>
+    normalizeComponentName(entry.id) === normalized ||
+    entry.aliases.some(alias => normalizeComponentName(alias) === normalized)
+  );
+}
+
+export function validateComponentConfig(entry: ComponentRegistryEntry, config: unknown): ValidationResult {
+  return validateConfig(entry.schema, config);
+}
+
+/**
+ * Prompt-ready schema description derived from the entry's Zod schema
+ */
+export function getComponentSchemaDescription(entry: ComponentRegistryEntry): string {
+  const description = describeSchema(entry.schema, `${entry.name} Configuration Schema`);
+  return entry.rules ? `${description}\n\nRULES:${entry.rules}` : description;
+}
+
+export function getComponentJSONSchema(entry: ComponentRegistryEntry): Record<string, any> {
+  return toJSONSchema(entry.schema);
+}
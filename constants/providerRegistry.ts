@@ -1,28 +1,327 @@
-export interface ProviderRegistryEntry {
+/**
+ * What generated code for one version of a UI library may look like: where it
+ * imports from, which components it may use, and the guidance and few-shot
+ * examples the playground prompt gives the model for it.
+ */
+export interface ProviderProfile {
   id: string;
+  version: string;
+  label: string; // e.g. "Chakra UI v2", used in prompts
   importPath: string;
+  allowSubpathImports?: boolean; // e.g. '@/components/ui/button' for shadcn; otherwise root-level named imports only
+  modules?: Record<string, string[]>; // Sub-path module -> components it exports, for sub-path providers
+  extraImportSources?: string[]; // Packages besides importPath the code may import, e.g. 'motion/react'
   allowedComponents: string[];
+  guidelines: string[];
+  examples: string[];
+}
+
+export type ProviderVersionProfile = Omit<ProviderProfile, 'id' | 'version'>;
+
+/**
+ * Per-request options for one provider, e.g. { version: 3, darkMode: true }
+ */
+export interface ProviderSettings {
+  version?: string | number; // Defaults to the provider's default version
+  darkMode?: boolean;
+}
+
+export interface ProviderRegistryEntry {
+  id: string;
+  name: string;
+  defaultVersion: string;
+  versions: Record<string, ProviderVersionProfile>; // Keyed by major version, e.g. "2"
+}
+
+/**
+ * Allowed components of a sub-path provider: everything its modules export
+ */
+function moduleComponents(modules: Record<string, string[]>): string[] {
+  return Object.values(modules).flat();
 }
 
+const MUI_IMPORT_GUIDELINES = [
+  "NEVER use sub-path imports like import Box from '@mui/material/Box'; ALWAYS use root-level named imports: import { Box, Button, Card } from '@mui/material'",
+  'Style with the sx prop; theme-scale numbers such as p: 2 are fine, use strings like "12px" for exact sizes'
+];
+
+const MUI_COMPONENTS = ['Box', 'Typography', 'Button', 'Stack', 'Paper', 'Grid', 'Card', 'CardContent', 'CircularProgress', 'IconButton', 'TextField', 'Switch', 'Checkbox', 'Select', 'MenuItem', 'Slider', 'Alert', 'Avatar', 'Tooltip'];
+
+const SHADCN_MODULES: Record<string, string[]> = {
+  card: ['Card', 'CardHeader', 'CardTitle', 'CardContent'],
+  button: ['Button'],
+  input: ['Input'],
+  slider: ['Slider'],
+  accordion: ['Accordion', 'AccordionItem', 'AccordionTrigger', 'AccordionContent'],
+  tabs: ['Tabs', 'TabsList', 'TabsTrigger', 'TabsContent'],
+  dialog: ['Dialog', 'DialogContent', 'DialogHeader', 'DialogTitle', 'DialogTrigger'],
+  select: ['Select', 'SelectTrigger', 'SelectValue', 'SelectContent', 'SelectItem'],
+  'radio-group': ['RadioGroup', 'RadioGroupItem'],
+  switch: ['Switch'],
+  checkbox: ['Checkbox'],
+  avatar: ['Avatar', 'AvatarImage', 'AvatarFallback'],
+  tooltip: ['Tooltip', 'TooltipProvider', 'TooltipTrigger', 'TooltipContent'],
+  alert: ['Alert', 'AlertTitle', 'AlertDescription'],
+  label: ['Label'],
+  separator: ['Separator'],
+  badge: ['Badge']
+};
+
+const ACETERNITY_MODULES: Record<string, string[]> = {
+  '3d-card': ['CardContainer', 'CardBody', 'CardItem'],
+  'animated-modal': ['Modal', 'ModalTrigger', 'ModalBody', 'ModalContent', 'ModalFooter'],
+  tabs: ['Tabs'],
+  input: ['Input'],
+  label: ['Label'],
+  'hover-border-gradient': ['HoverBorderGradient'],
+  'background-gradient': ['BackgroundGradient'],
+  'background-beams': ['BackgroundBeams'],
+  'bento-grid': ['BentoGrid', 'BentoGridItem'],
+  'card-hover-effect': ['HoverEffect'],
+  meteors: ['Meteors'],
+  sparkles: ['SparklesCore'],
+  spotlight: ['Spotlight'],
+  'text-generate-effect': ['TextGenerateEffect'],
+  'typewriter-effect': ['TypewriterEffect']
+};
+
 export const providerRegistry: Record<string, ProviderRegistryEntry> = {
   mui: {
     id: 'mui',
-    importPath: '@mui/material',
-    allowedComponents: ['Box', 'Typography', 'Button', 'Stack', 'Paper', 'Grid', 'Card', 'CardContent', 'CircularProgress', 'IconButton', 'TextField', 'Switch', 'Checkbox', 'Select', 'MenuItem', 'Slider', 'Alert', 'Avatar', 'Tooltip']
+    name: 'Material UI',
+    defaultVersion: '5',
+    versions: {
+      '5': {
+        label: 'Material UI v5',
+        importPath: '@mui/material',
+        allowedComponents: MUI_COMPONENTS,
+        guidelines: [
+          ...MUI_IMPORT_GUIDELINES,
+          'Customize inner elements with InputProps / inputProps (v5 API)'
+        ],
+        examples: [`import React from 'react';
+import { Card, CardContent, Typography, Button } from '@mui/material';
+
+export default () => (
+  <Card sx={{ maxWidth: 360 }}>
+    <CardContent>
+      <Typography variant="h6">Title</Typography>
+      <Button variant="contained" sx={{ mt: 2 }}>Action</Button>
+    </CardContent>
+  </Card>
+);`]
+      },
+      '6': {
+        label: 'Material UI v6',
+        importPath: '@mui/material',
+        allowedComponents: [...MUI_COMPONENTS, 'Grid2'],
+        guidelines: [
+          ...MUI_IMPORT_GUIDELINES,
+          'Customize inner elements with slotProps (e.g. slotProps={{ input: { startAdornment } }}); InputProps and inputProps are deprecated in v6',
+          'For responsive layouts use Grid2 with the size prop: <Grid2 size={{ xs: 12, md: 6 }}>'
+        ],
+        examples: [`import React from 'react';
+import { Grid2, TextField, Button } from '@mui/material';
+
+export default () => (
+  <Grid2 container spacing={2}>
+    <Grid2 size={{ xs: 12, md: 8 }}>
+      <TextField label="Email" fullWidth slotProps={{ htmlInput: { maxLength: 80 } }} />
+    </Grid2>
+    <Grid2 size={{ xs: 12, md: 4 }}>
+      <Button variant="contained" fullWidth>Subscribe</Button>
+    </Grid2>
+  </Grid2>
+);`]
+      }
+    }
   },
   chakra: {
     id: 'chakra',
-    importPath: '@chakra-ui/react',
-    allowedComponents: ['Box', 'Text', 'Button', 'Stack', 'VStack', 'HStack', 'Heading', 'Card', 'CardHeader', 'CardBody', 'CardFooter', 'CircularProgress', 'IconButton', 'Input', 'Switch', 'Checkbox', 'Select', 'Slider', 'Alert', 'AlertIcon', 'AlertTitle', 'AlertDescription', 'Avatar', 'Tooltip', 'Tabs', 'TabList', 'TabPanels', 'Tab', 'TabPanel', 'Modal', 'ModalOverlay', 'ModalContent', 'ModalHeader', 'ModalFooter', 'ModalBody', 'ModalCloseButton']
+    name: 'Chakra UI',
+    defaultVersion: '2',
+    versions: {
+      '2': {
+        label: 'Chakra UI v2',
+        importPath: '@chakra-ui/react',
+        allowedComponents: ['Box', 'Text', 'Button', 'Stack', 'VStack', 'HStack', 'Heading', 'Card', 'CardHeader', 'CardBody', 'CardFooter', 'CircularProgress', 'IconButton', 'Input', 'Switch', 'Checkbox', 'Select', 'Slider', 'Alert', 'AlertIcon', 'AlertTitle', 'AlertDescription', 'Avatar', 'Tooltip', 'Tabs', 'TabList', 'TabPanels', 'Tab', 'TabPanel', 'Modal', 'ModalOverlay', 'ModalContent', 'ModalHeader', 'ModalFooter', 'ModalBody', 'ModalCloseButton'],
+        guidelines: [
+          'Use the v2 component API: flat components such as TabList/TabPanel and ModalContent, no namespaced parts like Tabs.Root',
+          'Boolean state props use the is* prefix: isDisabled, isOpen, isChecked'
+        ],
+        examples: [`import React from 'react';
+import { Tabs, TabList, TabPanels, Tab, TabPanel } from '@chakra-ui/react';
+
+export default () => (
+  <Tabs>
+    <TabList>
+      <Tab>Tab 1</Tab>
+    </TabList>
+    <TabPanels>
+      <TabPanel>Content 1</TabPanel>
+    </TabPanels>
+  </Tabs>
+);`]
+      },
+      '3': {
+        label: 'Chakra UI v3',
+        importPath: '@chakra-ui/react',
+        allowedComponents: ['Box', 'Text', 'Button', 'Stack', 'VStack', 'HStack', 'Heading', 'Card', 'Spinner', 'IconButton', 'Input', 'Field', 'Switch', 'Checkbox', 'NativeSelect', 'Slider', 'Alert', 'Avatar', 'Tabs', 'Dialog', 'Portal', 'CloseButton', 'Accordion', 'RadioGroup', 'Progress'],
+        guidelines: [
+          'Use the v3 compound component API: Tabs.Root, Tabs.List, Tabs.Trigger, Tabs.Content; Dialog.Root, Dialog.Content; Card.Root, Card.Body',
+          'Boolean state props drop the is* prefix: disabled, open, checked',
+          'There is no Modal, Select or TabList in v3; use Dialog, NativeSelect and Tabs.List'
+        ],
+        examples: [`import React from 'react';
+import { Tabs, Card } from '@chakra-ui/react';
+
+export default () => (
+  <Card.Root>
+    <Card.Body>
+      <Tabs.Root defaultValue="one">
+        <Tabs.List>
+          <Tabs.Trigger value="one">Tab 1</Tabs.Trigger>
+        </Tabs.List>
+        <Tabs.Content value="one">Content 1</Tabs.Content>
+      </Tabs.Root>
+    </Card.Body>
+  </Card.Root>
+);`]
+      }
+    }
   },
   antd: {
     id: 'antd',
-    importPath: 'antd',
-    allowedComponents: ['Button', 'Divider', 'Typography', 'Space', 'Card', 'Progress', 'Flex', 'Input', 'Switch', 'Checkbox', 'Select', 'Slider', 'Alert', 'Avatar', 'Tooltip', 'Tabs', 'Modal']
+    name: 'Ant Design',
+    defaultVersion: '5',
+    versions: {
+      '5': {
+        label: 'Ant Design v5',
+        importPath: 'antd',
+        allowedComponents: ['Button', 'Divider', 'Typography', 'Space', 'Card', 'Progress', 'Flex', 'Input', 'Switch', 'Checkbox', 'Select', 'Slider', 'Alert', 'Avatar', 'Tooltip', 'Tabs', 'Modal'],
+        guidelines: [
+          'Pass Tabs and Select content through the items / options props rather than child components',
+          'Use open (not visible) for Modal and Tooltip'
+        ],
+        examples: [`import React from 'react';
+import { Card, Tabs, Typography } from 'antd';
+
+export default () => (
+  <Card title="Settings">
+    <Tabs items={[{ key: 'general', label: 'General', children: <Typography.Text>General settings</Typography.Text> }]} />
+  </Card>
+);`]
+      }
+    }
   },
   shadcn: {
     id: 'shadcn',
-    importPath: '@/components/ui',
-    allowedComponents: ['Card', 'CardHeader', 'CardTitle', 'CardContent', 'Button', 'Input', 'Slider', 'Accordion', 'AccordionItem', 'AccordionTrigger', 'AccordionContent', 'Tabs', 'TabsList', 'TabsTrigger', 'TabsContent', 'Dialog', 'DialogContent', 'DialogHeader', 'DialogTitle', 'DialogTrigger', 'Select', 'SelectTrigger', 'SelectValue', 'SelectContent', 'SelectItem', 'RadioGroup', 'RadioGroupItem', 'Switch', 'Checkbox', 'Avatar', 'AvatarImage', 'AvatarFallback', 'Tooltip', 'TooltipProvider', 'TooltipTrigger', 'TooltipContent', 'Alert', 'AlertTitle', 'AlertDescription', 'Label', 'Separator', 'Badge']
+    name: 'shadcn/ui',
+    defaultVersion: 'latest',
+    versions: {
+      latest: {
+        label: 'shadcn/ui',
+        importPath: '@/components/ui',
+        allowSubpathImports: true,
+        modules: SHADCN_MODULES,
+        allowedComponents: moduleComponents(SHADCN_MODULES),
+        guidelines: [
+          "Import each component from its own module, e.g. import { Card, CardContent } from '@/components/ui/card'",
+          'Style with Tailwind utility classes'
+        ],
+        examples: [`import React from 'react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+export default () => (
+  <Card className="max-w-sm">
+    <CardHeader>
+      <CardTitle>Title</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <Button>Action</Button>
+    </CardContent>
+  </Card>
+);`]
+      }
+    }
+  },
+  aceternity: {
+    id: 'aceternity',
+    name: 'Aceternity UI',
+    defaultVersion: 'latest',
+    versions: {
+      latest: {
+        label: 'Aceternity UI',
+        importPath: '@/components/ui',
+        allowSubpathImports: true,
+        modules: ACETERNITY_MODULES,
+        extraImportSources: ['motion/react'],
+        allowedComponents: moduleComponents(ACETERNITY_MODULES),
+        guidelines: [
+          "Import each component from its own module, e.g. import { CardContainer, CardBody, CardItem } from '@/components/ui/3d-card'",
+          'Style with Tailwind utility classes; plain elements are fine for anything the allowed components do not cover',
+          "For custom animation use motion from 'motion/react'"
+        ],
+        examples: [`import React from 'react';
+import { CardContainer, CardBody, CardItem } from '@/components/ui/3d-card';
+
+export default () => (
+  <CardContainer>
+    <CardBody className="rounded-xl border bg-white p-6">
+      <CardItem translateZ={50} className="text-xl font-bold">Title</CardItem>
+      <CardItem translateZ={60} as="p" className="mt-2 text-sm text-neutral-500">Description</CardItem>
+    </CardBody>
+  </CardContainer>
+);`]
+      }
+    }
   }
 };
+
+
+// Providers the playground generates for when the request does not choose
+export const DEFAULT_PLAYGROUND_PROVIDERS = ['mui', 'chakra', 'antd', 'shadcn', 'aceternity'];
+
+/**
+ * A provider's profile for a version (default: the provider's default version),
+ * or undefined when either is unknown. "v3" and 3 both select version "3".
+ */
+export function resolveProviderProfile(id: string, version?: string | number): ProviderProfile | undefined {
+  if (!isKnownProvider(id)) return undefined;
+  const entry = providerRegistry[id];
+
+  const key = version === undefined ? entry.defaultVersion : String(version).replace(/^v/i, '');
+  if (!Object.prototype.hasOwnProperty.call(entry.versions, key)) return undefined;
+  return { ...entry.versions[key], id, version: key };
+}
+
+export function isKnownProvider(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(providerRegistry, id);
+}
+
+/**
+ * Provider ids that are not in the registry
+ */
+export function findUnknownProviders(ids: string[]): string[] {
+  return ids.filter(id => !isKnownProvider(id));
+}
+
+/**
+ * Check requested provider ids and their versions against the registry.
+ * Returns an error message, or null when every provider (and version) is known.
+ */
+export function checkProviderSelection(ids: string[], settings: Record<string, ProviderSettings> = {}): string | null {
+  const unknown = findUnknownProviders(ids);
+  if (unknown.length > 0) {
+    return `Unknown providers: ${unknown.join(', ')}. Supported: ${Object.keys(providerRegistry).join(', ')}`;
+  }
+
+  for (const id of ids) {
+    const version = settings[id]?.version;
+    if (version !== undefined && !resolveProviderProfile(id, version)) {
+      return `Unknown ${id} version "${version}". Supported: ${Object.keys(providerRegistry[id].versions).join(', ')}`;
+    }
+  }
+  return null;
+}
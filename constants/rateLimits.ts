@@ -0,0 +1,72 @@
+import type { LLMUsage } from '../services/llmEngine.js';
+
+/**
+ * Rate limits and quotas of the generation endpoints
+ *
+ * Per deployment:
+ *   RATE_LIMIT_STORE              memory | mongo (default: memory; use mongo when several instances share limits)
+ *   RATE_LIMIT_CONFIG_PER_MINUTE  config generations per minute and IP, also the burst size (default: 10)
+ *   RATE_LIMIT_CODE_PER_MINUTE    playground code generations per minute and IP (default: 4)
+ *   RATE_LIMIT_KEY_MULTIPLIER     how many times the IP budget an API key gets (default: 5)
+ *   RATE_LIMIT_DAILY_TOKENS       model tokens per client and UTC day (default: 0, no quota)
+ *   RATE_LIMIT_DAILY_COST_USD     estimated model cost per client and UTC day (default: 0, no quota)
+ *
+ * A client is its IP and, when the request authenticated with one, its API
+ * key; every identity of a request must be within its limits.
+ */
+
+// Generation endpoints with their own bucket: code generation costs several times a config
+export type RateLimitBudget = 'config' | 'code';
+
+export type RateLimitScope = 'ip' | 'key';
+
+export interface BucketPolicy {
+  capacity: number;        // Burst size
+  refillPerMinute: number;
+}
+
+export interface DailyQuota {
+  tokens: number;  // 0: unlimited
+  costUsd: number; // 0: unlimited
+}
+
+const DEFAULT_PER_MINUTE: Record<RateLimitBudget, number> = {
+  config: 10,
+  code: 4
+};
+
+const PER_MINUTE_ENV: Record<RateLimitBudget, string> = {
+  config: 'RATE_LIMIT_CONFIG_PER_MINUTE',
+  code: 'RATE_LIMIT_CODE_PER_MINUTE'
+};
+
+// USD per million tokens, input / output; unlisted engines (local models, fixtures) are free
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini:gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini:gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini:gemini-2.0-flash': { input: 0.1, output: 0.4 }
+};
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getBucketPolicy(budget: RateLimitBudget, scope: RateLimitScope): BucketPolicy {
+  const perMinute = readNumber(PER_MINUTE_ENV[budget], DEFAULT_PER_MINUTE[budget]);
+  const multiplier = scope === 'key' ? readNumber('RATE_LIMIT_KEY_MULTIPLIER', 5) : 1;
+  return { capacity: perMinute * multiplier, refillPerMinute: perMinute * multiplier };
+}
+
+export function getDailyQuota(): DailyQuota {
+  return {
+    tokens: readNumber('RATE_LIMIT_DAILY_TOKENS', 0),
+    costUsd: readNumber('RATE_LIMIT_DAILY_COST_USD', 0)
+  };
+}
+
+export function estimateCostUsd(engineId: string, usage: LLMUsage): number {
+  const price = MODEL_PRICES[engineId];
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
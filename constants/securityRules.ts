@@ -0,0 +1,131 @@
+/**
+ * Security rules applied to generated playground code before it is returned
+ * to the browser sandbox.
+ *
+ * Actions:
+ * - flag:  report the finding, return the code unchanged
+ * - strip: report the finding and neutralize it in the returned code
+ * - fail:  report the finding and fail validation so the model is asked for a safe version
+ * - off:   ignore the rule
+ *
+ * Configuration (env):
+ *   CODE_SECURITY_MODE           off | flag | strip | fail; overrides every rule's default action
+ *   CODE_SECURITY_RULES          JSON map of per-rule actions, e.g. {"storage":"fail","external-url":"flag"}
+ *   CODE_SECURITY_ALLOWED_HOSTS  comma-separated hosts external URLs may point to
+ */
+
+export type SecurityAction = 'off' | 'flag' | 'strip' | 'fail';
+
+export type SecurityRuleId =
+  | 'eval'
+  | 'function-constructor'
+  | 'dynamic-import'
+  | 'network'
+  | 'cookie'
+  | 'storage'
+  | 'location-write'
+  | 'dangerous-html'
+  | 'external-url'
+  | 'dynamic-global-access';
+
+export interface SecurityRule {
+  id: SecurityRuleId;
+  description: string;
+  defaultAction: SecurityAction;
+}
+
+export const securityRules: Record<SecurityRuleId, SecurityRule> = {
+  eval: {
+    id: 'eval',
+    description: 'eval, called or passed around, and string arguments to setTimeout / setInterval',
+    defaultAction: 'strip'
+  },
+  'function-constructor': {
+    id: 'function-constructor',
+    description: 'Function / new Function code construction, also reached through .constructor.constructor',
+    defaultAction: 'strip'
+  },
+  'dynamic-import': {
+    id: 'dynamic-import',
+    description: 'Dynamic import() of arbitrary modules',
+    defaultAction: 'strip'
+  },
+  network: {
+    id: 'network',
+    description: 'fetch, XMLHttpRequest, WebSocket, EventSource and navigator.sendBeacon, called or passed around',
+    defaultAction: 'strip'
+  },
+  cookie: {
+    id: 'cookie',
+    description: 'Reading or writing document.cookie, including by destructuring document',
+    defaultAction: 'strip'
+  },
+  storage: {
+    id: 'storage',
+    description: 'localStorage, sessionStorage and indexedDB',
+    defaultAction: 'flag'
+  },
+  'location-write': {
+    id: 'location-write',
+    description: 'Navigating the page: assigning window.location, location.assign/replace, window.open',
+    defaultAction: 'strip'
+  },
+  'dangerous-html': {
+    id: 'dangerous-html',
+    description: 'dangerouslySetInnerHTML, srcDoc, and javascript: URLs in src / href / action / formAction',
+    defaultAction: 'strip'
+  },
+  'external-url': {
+    id: 'external-url',
+    description: 'URLs pointing outside the allowed hosts, and javascript: URLs outside those props',
+    defaultAction: 'strip'
+  },
+  'dynamic-global-access': {
+    id: 'dynamic-global-access',
+    description: 'Computed access to window, document and the other global objects with a key that is not a literal',
+    defaultAction: 'strip'
+  }
+};
+
+// Placeholder image hosts the playground prompts commonly produce
+const DEFAULT_ALLOWED_HOSTS = ['picsum.photos', 'images.unsplash.com', 'placehold.co', 'via.placeholder.com'];
+
+const SECURITY_ACTIONS: SecurityAction[] = ['off', 'flag', 'strip', 'fail'];
+
+export interface SecurityConfig {
+  actions: Record<SecurityRuleId, SecurityAction>;
+  allowedHosts: string[];
+}
+
+function isSecurityAction(value: unknown): value is SecurityAction {
+  return typeof value === 'string' && (SECURITY_ACTIONS as string[]).includes(value);
+}
+
+/**
+ * Resolve the effective action for every rule from the environment
+ */
+export function getSecurityConfig(): SecurityConfig {
+  const mode = process.env.CODE_SECURITY_MODE;
+  let overrides: Record<string, unknown> = {};
+  if (process.env.CODE_SECURITY_RULES) {
+    try {
+      overrides = JSON.parse(process.env.CODE_SECURITY_RULES);
+    } catch {
+      console.warn('CODE_SECURITY_RULES is not valid JSON; using default rule actions');
+    }
+  }
+
+  const actions = {} as Record<SecurityRuleId, SecurityAction>;
+  for (const rule of Object.values(securityRules)) {
+    const override = overrides[rule.id];
+    actions[rule.id] = isSecurityAction(override)
+      ? override
+      : isSecurityAction(mode) ? mode : rule.defaultAction;
+  }
+
+  const allowedHosts = process.env.CODE_SECURITY_ALLOWED_HOSTS
+    ? process.env.CODE_SECURITY_ALLOWED_HOSTS.split(',').map(host => host.trim()).filter(Boolean)
+    : DEFAULT_ALLOWED_HOSTS;
+
+  return { actions, allowedHosts };
+}
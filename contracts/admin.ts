@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { WorkspaceIdSchema, defineRoute } from './common.js';
+
+export const ApiKeySummarySchema = z.object({
+  id: z.string(),
+  workspaceId: z.string(),
+  name: z.string(),
+  prefix: z.string().describe('First characters of the key, to tell keys apart'),
+  createdAt: z.string(),
+  lastUsedAt: z.string().nullable(),
+  revokedAt: z.string().nullable()
+});
+
+export const CreateApiKeyBodySchema = z.object({
+  workspaceId: WorkspaceIdSchema.describe('Workspace the key reads and writes; created implicitly'),
+  name: z.string().max(100, 'name must be at most 100 characters').optional().describe('e.g. "CI" or "staging frontend"')
+});
+
+export const ListApiKeysQuerySchema = z.object({
+  workspaceId: WorkspaceIdSchema.optional().describe('Default: keys of every workspace')
+});
+
+const ApiKeyIdParamsSchema = z.object({ id: z.string() });
+
+export type CreateApiKeyBody = z.infer<typeof CreateApiKeyBodySchema>;
+
+export const adminApi = {
+  createApiKey: defineRoute({
+    method: 'post',
+    path: '/api/admin/keys',
+    tag: 'admin',
+    summary: 'Issue an API key for a workspace. The key is only ever returned here; the server keeps its hash.',
+    body: CreateApiKeyBodySchema,
+    response: z.object({
+      success: z.literal(true),
+      key: z.string().describe('Send as X-API-Key'),
+      apiKey: ApiKeySummarySchema
+    }),
+    status: 201,
+    errors: [400, 403],
+    auth: 'admin'
+  }),
+
+  listApiKeys: defineRoute({
+    method: 'get',
+    path: '/api/admin/keys',
+    tag: 'admin',
+    summary: 'API keys, newest first, including revoked ones',
+    query: ListApiKeysQuerySchema,
+    response: z.object({
+      success: z.literal(true),
+      apiKeys: z.array(ApiKeySummarySchema)
+    }),
+    errors: [400, 403],
+    auth: 'admin'
+  }),
+
+  revokeApiKey: defineRoute({
+    method: 'delete',
+    path: '/api/admin/keys/:id',
+    tag: 'admin',
+    summary: 'Revoke an API key; requests using it are rejected from then on',
+    params: ApiKeyIdParamsSchema,
+    response: z.object({
+      success: z.literal(true),
+      apiKey: ApiKeySummarySchema
+    }),
+    errors: [403, 404],
+    auth: 'admin'
+  })
+};
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import type { ApiError, ApiRoute } from './common.js';
+import { apiRoutes, ApiRoutes } from './routes.js';
+
+type Input<T> = T extends z.ZodType ? z.input<T> : never;
+
+/**
+ * What a call needs: path params, query and body, each only when the route has them
+ */
+export type RouteInput<R extends ApiRoute> =
+  (R['params'] extends z.ZodType ? { params: Input<R['params']> } : {}) &
+  (R['query'] extends z.ZodType ? { query: Input<R['query']> } : {}) &
+  (R['body'] extends z.ZodType ? { body: Input<R['body']> } : {});
+
+export type RouteResponse<R extends ApiRoute> = z.output<R['response']>;
+
+// Check `success` to tell the two apart
+export type ApiResult<R extends ApiRoute> = RouteResponse<R> | ApiError;
+
+export type ApiClient = {
+  [K in keyof ApiRoutes]: (
+    ...args: {} extends RouteInput<ApiRoutes[K]>
+      ? [input?: RouteInput<ApiRoutes[K]>, init?: RequestInit]
+      : [input: RouteInput<ApiRoutes[K]>, init?: RequestInit]
+  ) => Promise<ApiRoutes[K] extends { stream: true } ? Response : ApiResult<ApiRoutes[K]>>;
+};
+
+export interface ApiClientOptions {
+  baseUrl: string;                  // e.g. "http://localhost:5001"
+  apiKey?: string;                  // Sent as X-API-Key
+  headers?: Record<string, string>; // e.g. { "X-Session-Id": "..." }
+  fetch?: typeof fetch;
+}
+
+function buildUrl(baseUrl: string, route: ApiRoute, params?: Record<string, unknown>, query?: Record<string, unknown>): string {
+  const path = route.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(String(params?.[name] ?? '')));
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value !== undefined) search.set(key, String(value));
+  }
+  const queryString = search.toString();
+  return `${baseUrl.replace(/\/$/, '')}${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+/**
+ * Typed client with one method per operation, e.g.
+ * client.generateConfig({ body: { componentName: 'button', prompt: 'make it blue' } }).
+ * JSON routes resolve to the response body (check `success`); streaming
+ * routes resolve to the raw Response (a JSON error envelope when not ok).
+ */
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const fetchImpl = options.fetch ?? fetch;
+
+  const call = async (route: ApiRoute, input: { params?: any; query?: any; body?: any } = {}, init: RequestInit = {}) => {
+    const response = await fetchImpl(buildUrl(options.baseUrl, route, input.params, input.query), {
+      ...init,
+      method: route.method.toUpperCase(),
+      headers: {
+        ...(input.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(options.apiKey ? { 'X-API-Key': options.apiKey } : {}),
+        ...options.headers,
+        ...(init.headers as Record<string, string> | undefined)
+      },
+      body: input.body !== undefined ? JSON.stringify(input.body) : undefined
+    });
+
+    if (route.stream) return response;
+    if (!response.headers.get('content-type')?.includes('application/json')) {
+      const error: ApiError = { success: false, error: `Unexpected ${response.status} response`, code: 'INTERNAL_ERROR' };
+      return error;
+    }
+    return response.json();
+  };
+
+  return Object.fromEntries(
+    Object.entries(apiRoutes).map(([operation, route]) => [
+      operation,
+      (input?: Parameters<typeof call>[1], init?: RequestInit) => call(route, input, init)
+    ])
+  ) as ApiClient;
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import {
+  CodeDiagnosticSchema,
+  JsonObjectSchema,
+  ModelSpecSchema,
+  ParsePathSchema,
+  SessionIdSchema,
+  defineRoute,
+  requiredString
+} from './common.js';
+
+export const ProviderSettingsSchema = z.strictObject({
+  version: z.union([z.string(), z.number()]).optional().describe("Library version, e.g. 3 or \"v3\"; defaults to the provider's default"),
+  darkMode: z.boolean().optional()
+});
+
+export const GenerateCodeBodySchema = z.object({
+  prompt: requiredString('Prompt'),
+  prevCode: z.union([z.string(), JsonObjectSchema]).optional().describe('Code to iterate on, as a string or per provider'),
+  model: ModelSpecSchema.optional(),
+  sessionId: SessionIdSchema.optional(),
+  providers: z.union([
+    z.array(z.string()).min(1, 'providers must be a non-empty array of provider ids'),
+    z.record(z.string(), z.union([z.literal(true), ProviderSettingsSchema]))
+      .refine(providers => Object.keys(providers).length > 0, 'providers must name at least one provider')
+  ], { error: 'providers must be an array of provider ids or an object of provider settings' })
+    .optional()
+    .describe('Provider ids, or provider id -> settings (true for the defaults); default: all playground providers')
+});
+
+export const SecurityFindingSchema = z.object({
+  rule: z.string(),
+  action: z.string().describe('"strip" or "flag"'),
+  message: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional()
+});
+
+export const AccessibilityFindingSchema = z.object({
+  rule: z.enum(['icon-button-label', 'input-label', 'click-non-interactive']),
+  message: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional()
+});
+
+export const ProviderCodeStatusSchema = z.object({
+  status: z.enum(['valid', 'failed']),
+  attempts: z.number().describe('How many times code was generated for this provider'),
+  errors: z.array(z.string()).describe('Errors from the latest attempt (empty when valid)'),
+  diagnostics: z.array(CodeDiagnosticSchema).optional(),
+  securityFindings: z.array(SecurityFindingSchema).optional(),
+  accessibility: z.array(AccessibilityFindingSchema).optional().describe('Accessibility audit of the returned code')
+});
+
+export const GenerateCodeResponseSchema = z.object({
+  success: z.literal(true),
+  partial: z.boolean().optional().describe('Some providers are missing from config because they never validated'),
+  config: z.record(z.string(), z.string()).describe('Validated code per provider'),
+  attempts: z.number().optional(),
+  model: z.string().optional(),
+  parsePath: ParsePathSchema.optional(),
+  promptTemplate: z.string().optional().describe('Prompt template that was rendered: "config", "patch" or "playground"'),
+  promptVersion: z.string().optional().describe('Its version, assigned per session by the PROMPT_SPLIT_* settings'),
+  providers: z.record(z.string(), ProviderCodeStatusSchema).optional(),
+  sessionId: z.string(),
+  generationId: z.string().nullable()
+});
+
+export type ProviderSettingsInput = z.infer<typeof ProviderSettingsSchema>;
+export type GenerateCodeBody = z.infer<typeof GenerateCodeBodySchema>;
+
+export const codeApi = {
+  generateCode: defineRoute({
+    method: 'post',
+    path: '/api/code/generate',
+    tag: 'code',
+    summary: 'Generate React component code for several UI libraries (Playground)',
+    body: GenerateCodeBodySchema,
+    response: GenerateCodeResponseSchema,
+    errors: [400, 422, 429, 500, 502]
+  }),
+
+  streamCode: defineRoute({
+    method: 'post',
+    path: '/api/code/generate/stream',
+    tag: 'code',
+    summary: 'Stream playground code generation as Server-Sent Events: attempt, token, validation, retry, result, error. The result event carries the /api/code/generate response plus its status and cache ("HIT" or "MISS"); a cached result comes without progress events.',
+    body: GenerateCodeBodySchema,
+    response: GenerateCodeResponseSchema,
+    errors: [400, 429],
+    stream: true
+  })
+};
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+/**
+ * Building blocks shared by the route contracts. The contracts only depend on
+ * zod and the zod validators, so API clients can import the same schemas as
+ * the server.
+ */
+
+export const SESSION_ID_PATTERN = /^[\w-]{1,128}$/;
+
+export const INVALID_SESSION_ID_ERROR = 'sessionId must be 1-128 letters, digits, "_" or "-"';
+
+export const WORKSPACE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// Machine-readable reason carried by every error response
+export const API_ERROR_CODES = [
+  'VALIDATION_ERROR',      // Request params, query or body do not match the route's schema
+  'INVALID_JSON',          // Request body is not valid JSON
+  'BAD_REQUEST',
+  'UNAUTHORIZED',          // Missing, unknown or revoked API key
+  'FORBIDDEN',             // Admin routes without the admin key
+  'INVALID_SESSION',
+  'UNKNOWN_COMPONENT',
+  'UNKNOWN_PROVIDER',
+  'UNKNOWN_MODEL',
+  'INVALID_CONFIG',        // A component config or theme fails its schema
+  'NOT_FOUND',
+  'CONFLICT',
+  'GENERATION_FAILED',     // The model did not produce valid output within the retries
+  'ENGINE_ERROR',          // The engine call itself failed: provider error, timeout or missing fixture
+  'CLIENT_CLOSED_REQUEST',
+  'RATE_LIMITED',          // Too many generation requests; retry after the Retry-After header
+  'QUOTA_EXCEEDED',        // Daily token / cost quota used up
+  'INTERNAL_ERROR'
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+/**
+ * Error envelope of every route. Generation failures keep their extra fields
+ * (attempts, model, providers), so unknown keys are allowed.
+ */
+export const ApiErrorSchema = z.looseObject({
+  success: z.literal(false),
+  error: z.string(),
+  code: z.enum(API_ERROR_CODES),
+  details: z.array(z.string()).optional()
+});
+
+export type ApiError = z.infer<typeof ApiErrorSchema>;
+
+export const SessionIdSchema = z.string().regex(SESSION_ID_PATTERN, INVALID_SESSION_ID_ERROR);
+
+export const WorkspaceIdSchema = z.string()
+  .regex(WORKSPACE_ID_PATTERN, 'workspaceId must be 1-64 letters, digits, "_" or "-"');
+
+export const JsonObjectSchema = z.record(z.string(), z.unknown());
+
+export const MODEL_SPEC_MAX_LENGTH = 100;
+
+// Engine a request asks for; the deployment only serves the specs it allows (LLM_ALLOWED_MODELS)
+export const ModelSpecSchema = z.string()
+  .max(MODEL_SPEC_MAX_LENGTH, `model must be at most ${MODEL_SPEC_MAX_LENGTH} characters`)
+  .describe('Engine/model, e.g. "gemini:gemini-2.5-pro" or "openai:llama3.1"; default: the deployment\'s engine');
+
+export const ParsePathSchema = z.enum(['structured', 'json', 'fenced', 'extracted', 'repaired', 'text']);
+
+export const CodeDiagnosticSchema = z.object({
+  rule: z.string(),
+  message: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional()
+});
+
+/**
+ * Required, non-empty string field, with the message the API has always used
+ */
+export function requiredString(name: string) {
+  return z.string({ error: `${name} is required and must be a string` })
+    .min(1, `${name} is required and must be a string`);
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+// Credential a route requires: a workspace API key (X-API-Key), the admin key (X-Admin-Key) or none
+export type RouteAuth = 'apiKey' | 'admin' | 'none';
+
+/**
+ * One HTTP route: where it lives, what it accepts and what it returns on success
+ */
+export interface ApiRoute {
+  method: HttpMethod;
+  path: string;          // Express path, e.g. "/api/themes/:id"
+  summary: string;
+  tag: string;
+  params?: z.ZodType;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  response: z.ZodType;   // Success body; errors use ApiErrorSchema
+  status?: number;       // Success status, default 200
+  errors?: number[];     // Documented error statuses
+  stream?: boolean;      // Responds with Server-Sent Events instead of JSON
+  auth?: RouteAuth;      // Default "apiKey"
+}
+
+/**
+ * Keeps a route's literal types so clients can infer its inputs and output
+ */
+export function defineRoute<const R extends ApiRoute>(route: R): R {
+  return route;
+}
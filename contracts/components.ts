@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { JsonObjectSchema, defineRoute } from './common.js';
+
+export const ComponentSummarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  aliases: z.array(z.string()),
+  defaultConfig: z.unknown()
+});
+
+export const ComponentDetailSchema = ComponentSummarySchema.extend({
+  schemaDescription: z.string().describe('Schema description given to the model'),
+  jsonSchema: JsonObjectSchema
+});
+
+export const componentApi = {
+  listComponents: defineRoute({
+    method: 'get',
+    path: '/api/components',
+    tag: 'components',
+    summary: 'List every registered component',
+    response: z.object({
+      success: z.literal(true),
+      components: z.array(ComponentSummarySchema)
+    })
+  }),
+
+  getComponent: defineRoute({
+    method: 'get',
+    path: '/api/components/:id',
+    tag: 'components',
+    summary: 'A single component by id or alias, including its schema description and JSON Schema',
+    params: z.object({ id: z.string() }),
+    response: z.object({
+      success: z.literal(true),
+      component: ComponentDetailSchema
+    }),
+    errors: [404]
+  })
+};
@@ -0,0 +1,108 @@
+import { z } from 'zod';
+import {
+  CodeDiagnosticSchema,
+  JsonObjectSchema,
+  ModelSpecSchema,
+  ParsePathSchema,
+  SessionIdSchema,
+  defineRoute,
+  requiredString
+} from './common.js';
+
+export const CONFIG_OUTPUT_MODES = ['full', 'patch'] as const;
+export const CHANGE_GUARD_MODES = ['off', 'flag', 'revert'] as const;
+export const ACCESSIBILITY_MODES = ['off', 'report', 'retry'] as const;
+
+export const GenerateConfigBodySchema = z.object({
+  componentName: requiredString('componentName').describe('Registry id or alias, e.g. "button", "iconButton", "layout"'),
+  prompt: requiredString('prompt').describe('e.g. "make it blue with rounded corners"'),
+  currentConfig: JsonObjectSchema.optional().describe("Configuration to modify; defaults to the parent iteration's config"),
+  model: ModelSpecSchema.optional(),
+  sessionId: SessionIdSchema.optional().describe('History session; also read from the X-Session-Id header, generated when absent'),
+  parentId: z.string().nullable().optional().describe('Iteration to build on; defaults to the session head, null starts a new root'),
+  outputMode: z.enum(CONFIG_OUTPUT_MODES).optional().describe('"patch": the model returns a JSON Patch / merge patch against currentConfig'),
+  changeGuard: z.enum(CHANGE_GUARD_MODES).optional().describe('Changes to properties the prompt never mentioned (default "flag")'),
+  accessibility: z.enum(ACCESSIBILITY_MODES).optional()
+    .describe('Contrast audit (default "report"); "retry" regenerates while a color pair fails WCAG AA')
+});
+
+export const ContrastCheckSchema = z.object({
+  node: z.string().optional().describe('Layout node, e.g. "root.children[1]"'),
+  component: z.string(),
+  foreground: z.string().describe('Config path, e.g. "styles.fontColor"'),
+  background: z.string(),
+  foregroundColor: z.string(),
+  backgroundColor: z.string(),
+  ratio: z.number(),
+  minimum: z.number().describe('4.5 for text, 3 for icons and indicators'),
+  passes: z.boolean()
+});
+
+export const ConfigAccessibilityReportSchema = z.object({
+  passes: z.boolean(),
+  contrast: z.array(ContrastCheckSchema).describe('Color pairs where both colors are set')
+});
+
+export const ConfigIterationSchema = z.object({
+  success: z.literal(true),
+  config: z.unknown().describe('Generated configuration'),
+  attempts: z.number().optional(),
+  model: z.string().optional().describe('Engine id that produced the result'),
+  parsePath: ParsePathSchema.optional().describe('How the model output was parsed'),
+  diff: z.array(z.string()).optional().describe('e.g. "styles.backgroundColor: #FFFFFF → #1E40AF"'),
+  unrelatedChanges: z.array(z.string()).optional().describe('Flagged changes the prompt did not ask for'),
+  revertedChanges: z.array(z.string()).optional().describe('Unrelated changes that were undone'),
+  accessibility: ConfigAccessibilityReportSchema.optional(),
+  promptTemplate: z.string().optional().describe('Prompt template that was rendered: "config", "patch" or "playground"'),
+  promptVersion: z.string().optional().describe('Its version, assigned per session by the PROMPT_SPLIT_* settings'),
+  examples: z.array(z.string()).optional().describe('Ids of the starred examples the prompt showed the model'),
+  sessionId: z.string().optional().describe('Session the generation was recorded in (also sent as X-Session-Id)'),
+  generationId: z.string().nullable().optional().describe('History entry id, null if it could not be saved'),
+  parentId: z.string().nullable().optional().describe('Iteration this one was built on')
+});
+
+export const ExportCodeBodySchema = z.object({
+  componentName: requiredString('componentName').describe('Any registered component, including "layout"'),
+  config: JsonObjectSchema.describe('Validated against the component schema'),
+  providers: z.array(z.string()).min(1, 'providers must be a non-empty array of provider ids').optional()
+    .describe('Defaults to every provider with export templates'),
+  themeId: z.string().optional().describe('Resolves "$token" references; required when the config has any')
+});
+
+export const ExportedProviderCodeSchema = z.object({
+  status: z.enum(['valid', 'failed']),
+  errors: z.array(z.string()),
+  diagnostics: z.array(CodeDiagnosticSchema).optional()
+});
+
+export const ExportCodeResponseSchema = z.object({
+  success: z.literal(true),
+  componentName: z.string().describe('Registry id'),
+  code: z.record(z.string(), z.string()).describe('TSX module with a default-exported component, per provider'),
+  providers: z.record(z.string(), ExportedProviderCodeSchema)
+});
+
+export type GenerateConfigBody = z.infer<typeof GenerateConfigBodySchema>;
+export type ExportCodeBody = z.infer<typeof ExportCodeBodySchema>;
+
+export const configApi = {
+  generateConfig: defineRoute({
+    method: 'post',
+    path: '/api/config/generate',
+    tag: 'config',
+    summary: "Generate a component configuration from a prompt and record it in the session's iteration tree",
+    body: GenerateConfigBodySchema,
+    response: ConfigIterationSchema,
+    errors: [400, 404, 422, 429, 500, 502]
+  }),
+
+  exportCode: defineRoute({
+    method: 'post',
+    path: '/api/config/export',
+    tag: 'config',
+    summary: 'Deterministic config-to-code export: per-provider templates, no LLM',
+    body: ExportCodeBodySchema,
+    response: ExportCodeResponseSchema,
+    errors: [400, 404, 500]
+  })
+};
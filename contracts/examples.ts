@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { defineRoute, requiredString } from './common.js';
+
+export const ExampleSchema = z.object({
+  _id: z.string(),
+  workspaceId: z.string(),
+  generationId: z.string().describe('Config generation the example was starred from'),
+  componentName: z.string().describe('Registry id'),
+  prompt: z.string(),
+  config: z.unknown().describe('Validated config the prompt produced'),
+  note: z.string().optional(),
+  model: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const StarGenerationBodySchema = z.object({
+  generationId: requiredString('generationId').describe('A successful config generation from the history'),
+  note: z.string().max(500, 'note must be at most 500 characters').optional().describe('Why it is a good example')
+});
+
+export const ExampleQuerySchema = z.object({
+  componentName: z.string().optional().describe('Registry id or alias; default: every component')
+});
+
+export const examplesApi = {
+  listExamples: defineRoute({
+    method: 'get',
+    path: '/api/examples',
+    tag: 'examples',
+    summary: 'Starred generations of the workspace, newest first',
+    query: ExampleQuerySchema,
+    response: z.object({
+      success: z.literal(true),
+      examples: z.array(ExampleSchema)
+    })
+  }),
+
+  starGeneration: defineRoute({
+    method: 'post',
+    path: '/api/examples',
+    tag: 'examples',
+    summary: 'Star a config generation: its prompt and config become a few-shot example for similar requests on that component. Starring it again is a 409 that carries the existing example',
+    body: StarGenerationBodySchema,
+    response: z.object({
+      success: z.literal(true),
+      example: ExampleSchema
+    }),
+    status: 201,
+    errors: [400, 404, 409]
+  }),
+
+  deleteExample: defineRoute({
+    method: 'delete',
+    path: '/api/examples/:id',
+    tag: 'examples',
+    summary: 'Unstar an example; the generation stays in the history',
+    params: z.object({ id: z.string() }),
+    response: z.object({ success: z.literal(true) }),
+    errors: [404]
+  })
+};
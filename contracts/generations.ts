@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { JsonObjectSchema, defineRoute } from './common.js';
+
+export const FEEDBACK_REASONS = [
+  'wrong-color',
+  'unrelated-change',
+  'did-not-compile',
+  'inconsistent-across-libraries',
+  'other'
+] as const;
+
+export const FeedbackBodySchema = z.object({
+  rating: z.enum(['up', 'down'], { error: 'rating must be "up" or "down"' }),
+  reason: z.enum(FEEDBACK_REASONS, { error: `reason must be one of: ${FEEDBACK_REASONS.join(', ')}` })
+    .optional()
+    .describe('Why the result was bad; only with a thumbs down'),
+  provider: z.string().min(1).optional().describe('Code generations: the provider the feedback is about; default: every provider'),
+  comment: z.string().max(1000, 'comment must be at most 1000 characters').optional(),
+  correctedConfig: JsonObjectSchema.optional().describe('Config generations: what the config should have been; validated against the component')
+}).refine(body => !body.reason || body.rating === 'down', { message: 'reason is only accepted with rating "down"', path: ['reason'] });
+
+export const FeedbackSchema = z.object({
+  _id: z.string(),
+  workspaceId: z.string(),
+  generationId: z.string(),
+  rating: z.enum(['up', 'down']),
+  reason: z.enum(FEEDBACK_REASONS).optional(),
+  comment: z.string().optional(),
+  correctedConfig: z.unknown().optional(),
+  kind: z.enum(['config', 'code']),
+  componentName: z.string().describe('Registry id, or "playground" for code generation'),
+  providers: z.array(z.string()),
+  model: z.string().optional(),
+  promptTemplate: z.string().optional(),
+  promptVersion: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const FeedbackQuerySchema = z.object({
+  since: z.string()
+    .refine(value => !Number.isNaN(new Date(value).getTime()), 'since must be an ISO date')
+    .optional()
+    .describe('Only feedback given at or after this date'),
+  model: z.string().optional().describe('Only feedback on generations of this engine id'),
+  promptVersion: z.string().optional().describe('Only feedback on generations of this prompt template version')
+});
+
+const FeedbackCountsSchema = {
+  total: z.number(),
+  up: z.number(),
+  down: z.number(),
+  upRate: z.number().describe('0 to 1'),
+  reasons: z.partialRecord(z.enum(FEEDBACK_REASONS), z.number()).describe('Thumbs-down reasons'),
+  corrections: z.number().describe('Feedback that came with a corrected config')
+};
+
+export const ComponentFeedbackSchema = z.object({ componentName: z.string(), ...FeedbackCountsSchema });
+export const ProviderFeedbackSchema = z.object({ provider: z.string(), ...FeedbackCountsSchema });
+
+export const generationsApi = {
+  submitFeedback: defineRoute({
+    method: 'post',
+    path: '/api/generations/:id/feedback',
+    tag: 'generations',
+    summary: 'Rate a generation from the history: thumbs up/down, a reason and optionally the config it should have produced',
+    params: z.object({ id: z.string() }),
+    body: FeedbackBodySchema,
+    response: z.object({
+      success: z.literal(true),
+      feedback: FeedbackSchema
+    }),
+    status: 201,
+    errors: [400, 404]
+  }),
+
+  feedbackByComponent: defineRoute({
+    method: 'get',
+    path: '/api/generations/feedback/by-component',
+    tag: 'generations',
+    summary: 'Feedback of the workspace per component, most rated first',
+    query: FeedbackQuerySchema,
+    response: z.object({
+      success: z.literal(true),
+      components: z.array(ComponentFeedbackSchema)
+    }),
+    errors: [400]
+  }),
+
+  feedbackByProvider: defineRoute({
+    method: 'get',
+    path: '/api/generations/feedback/by-provider',
+    tag: 'generations',
+    summary: 'Feedback of the workspace per provider, most rated first; config generations have no provider and are left out',
+    query: FeedbackQuerySchema,
+    response: z.object({
+      success: z.literal(true),
+      providers: z.array(ProviderFeedbackSchema)
+    }),
+    errors: [400]
+  })
+};
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { SessionIdSchema, defineRoute } from './common.js';
+
+export const PROMPT_TEMPLATE_NAMES = ['config', 'patch', 'playground'] as const;
+
+export const GenerationSummarySchema = z.object({
+  _id: z.string(),
+  sessionId: z.string(),
+  kind: z.enum(['config', 'code']),
+  componentName: z.string().describe('Registry id, or "playground" for code generation'),
+  prompt: z.string(),
+  providers: z.array(z.string()),
+  success: z.boolean(),
+  attempts: z.number(),
+  latencyMs: z.number(),
+  cached: z.boolean().optional().describe('Served from the generation cache; left out of the prompt variant stats'),
+  model: z.string().optional(),
+  promptTemplate: z.enum(PROMPT_TEMPLATE_NAMES).optional().describe('Absent on generations recorded before prompt templates were versioned'),
+  promptVersion: z.string().optional(),
+  createdAt: z.string()
+});
+
+export const GenerationSchema = GenerationSummarySchema.extend({
+  workspaceId: z.string().optional(),
+  parentId: z.string().nullable().optional(),
+  currentConfig: z.unknown().optional(),
+  config: z.unknown().optional(),
+  code: z.record(z.string(), z.string()).optional(),
+  validationErrors: z.array(z.string()),
+  updatedAt: z.string()
+});
+
+export const HistoryQuerySchema = z.object({
+  sessionId: SessionIdSchema,
+  limit: z.coerce.number<string | number>({ error: 'limit must be an integer' }).int('limit must be an integer').optional().describe('Default 20, at most 100'),
+  before: z.string()
+    .refine(value => !Number.isNaN(new Date(value).getTime()), 'before must be an ISO date')
+    .optional()
+    .describe('Only generations created before this date, for paging')
+});
+
+export const PromptVariantQuerySchema = z.object({
+  template: z.enum(PROMPT_TEMPLATE_NAMES).optional().describe('Defaults to every template'),
+  since: z.string()
+    .refine(value => !Number.isNaN(new Date(value).getTime()), 'since must be an ISO date')
+    .optional()
+    .describe('Only generations created at or after this date, e.g. when the experiment started')
+});
+
+export const PromptVariantStatsSchema = z.object({
+  template: z.enum(PROMPT_TEMPLATE_NAMES),
+  version: z.string(),
+  share: z.number().describe("Current share of the template's traffic (PROMPT_SPLIT_*); 0 once the version left the split"),
+  generations: z.number(),
+  successes: z.number(),
+  successRate: z.number().describe('0 to 1'),
+  avgAttempts: z.number(),
+  avgLatencyMs: z.number(),
+  firstAt: z.string(),
+  lastAt: z.string()
+});
+
+export type HistoryQueryInput = z.infer<typeof HistoryQuerySchema>;
+
+export const historyApi = {
+  listHistory: defineRoute({
+    method: 'get',
+    path: '/api/history',
+    tag: 'history',
+    summary: "A session's generations, newest first",
+    query: HistoryQuerySchema,
+    response: z.object({
+      success: z.literal(true),
+      sessionId: z.string(),
+      generations: z.array(GenerationSummarySchema)
+    }),
+    errors: [400]
+  }),
+
+  getPromptVariants: defineRoute({
+    method: 'get',
+    path: '/api/history/prompt-variants',
+    tag: 'history',
+    summary: "Success rate, attempts and latency of each prompt template version in the workspace; cache hits are not counted",
+    query: PromptVariantQuerySchema,
+    response: z.object({
+      success: z.literal(true),
+      variants: z.array(PromptVariantStatsSchema)
+    }),
+    errors: [400]
+  }),
+
+  getHistoryEntry: defineRoute({
+    method: 'get',
+    path: '/api/history/:id',
+    tag: 'history',
+    summary: 'A single generation with its configs and code, to reopen or resume it',
+    params: z.object({ id: z.string() }),
+    response: z.object({
+      success: z.literal(true),
+      generation: GenerationSchema
+    }),
+    errors: [404]
+  })
+};
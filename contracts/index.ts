@@ -0,0 +1,17 @@
+/**
+ * Public surface of the API contracts: request/response schemas, the route
+ * table, the typed client and the OpenAPI document builder
+ */
+export * from './common.js';
+export * from './config.js';
+export * from './code.js';
+export * from './components.js';
+export * from './history.js';
+export * from './sessions.js';
+export * from './themes.js';
+export * from './examples.js';
+export * from './generations.js';
+export * from './admin.js';
+export * from './routes.js';
+export * from './client.js';
+export * from './openapi.js';
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { ApiErrorSchema, ApiRoute } from './common.js';
+import { apiRoutes } from './routes.js';
+
+type JSONSchema = Record<string, any>;
+
+export const API_VERSION = '1.0.0';
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  400: 'Invalid request',
+  401: 'Missing, unknown or revoked API key',
+  403: 'Admin key required',
+  404: 'Not found',
+  409: 'Conflict',
+  422: 'Generation failed',
+  429: 'Rate limit or daily quota exceeded',
+  500: 'Server error'
+};
+
+const ERROR_RESPONSE = { $ref: '#/components/schemas/ApiError' };
+
+// Extra response headers of error statuses
+const ERROR_HEADERS: Record<number, Record<string, unknown>> = {
+  429: { 'Retry-After': { description: 'Seconds until the request may be retried', schema: { type: 'integer' } } }
+};
+
+const SECURITY_SCHEMES = {
+  ApiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Workspace API key, also accepted as "Authorization: Bearer <key>"' },
+  AdminKey: { type: 'apiKey', in: 'header', name: 'X-Admin-Key', description: 'ADMIN_API_KEY of the deployment' }
+};
+
+function toSchema(schema: z.ZodType, io: 'input' | 'output'): JSONSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JSONSchema;
+  return jsonSchema;
+}
+
+/**
+ * "/api/themes/:id" -> "/api/themes/{id}"
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * One OpenAPI parameter per property of a params or query object schema
+ */
+function toParameters(schema: z.ZodType | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+  const { properties = {}, required = [] } = toSchema(schema, 'input');
+
+  return Object.entries(properties as Record<string, JSONSchema>).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || required.includes(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema
+    };
+  });
+}
+
+function toOperation(operationId: string, route: ApiRoute) {
+  const status = route.status ?? 200;
+  const success = route.stream
+    ? {
+        description: 'Server-Sent Events; the result event carries the JSON below plus its status',
+        content: { 'text/event-stream': { schema: toSchema(route.response, 'output') } }
+      }
+    : {
+        description: STATUS_DESCRIPTIONS[status] ?? 'OK',
+        content: { 'application/json': { schema: toSchema(route.response, 'output') } }
+      };
+
+  // Every API key route can answer 401, so contracts do not list it
+  const auth = route.auth ?? 'apiKey';
+  const errorStatuses = auth === 'apiKey' ? [401, ...(route.errors ?? [])] : route.errors ?? [];
+
+  const errors = Object.fromEntries(errorStatuses.map(errorStatus => [
+    String(errorStatus),
+    {
+      description: STATUS_DESCRIPTIONS[errorStatus] ?? 'Error',
+      ...(ERROR_HEADERS[errorStatus] ? { headers: ERROR_HEADERS[errorStatus] } : {}),
+      content: { 'application/json': { schema: ERROR_RESPONSE } }
+    }
+  ]));
+
+  return {
+    operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    ...(auth === 'apiKey' ? {} : { security: auth === 'admin' ? [{ AdminKey: [] }] : [] }),
+    parameters: [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')],
+    ...(route.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: toSchema(route.body, 'input') } } } }
+      : {}),
+    responses: { [String(status)]: success, ...errors }
+  };
+}
+
+/**
+ * OpenAPI 3.1 document generated from the route contracts
+ */
+export function buildOpenApiDocument(routes: Record<string, ApiRoute> = apiRoutes) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [operationId, route] of Object.entries(routes)) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: toOperation(operationId, route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'CompareUI API',
+      version: API_VERSION,
+      description: 'Every error response uses the ApiError envelope: { success: false, error, code, details? }'
+    },
+    tags: [...new Set(Object.values(routes).map(route => route.tag))].map(name => ({ name })),
+    security: [{ ApiKey: [] }],
+    paths,
+    components: {
+      schemas: { ApiError: toSchema(ApiErrorSchema, 'output') },
+      securitySchemes: SECURITY_SCHEMES
+    }
+  };
+}
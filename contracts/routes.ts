@@ -0,0 +1,38 @@
+import { JsonObjectSchema, defineRoute } from './common.js';
+import { configApi } from './config.js';
+import { codeApi } from './code.js';
+import { componentApi } from './components.js';
+import { historyApi } from './history.js';
+import { sessionApi } from './sessions.js';
+import { themeApi } from './themes.js';
+import { examplesApi } from './examples.js';
+import { generationsApi } from './generations.js';
+import { adminApi } from './admin.js';
+
+export const metaApi = {
+  getOpenApiDocument: defineRoute({
+    method: 'get',
+    path: '/api/openapi.json',
+    tag: 'meta',
+    summary: 'OpenAPI 3.1 description of this API',
+    response: JsonObjectSchema,
+    auth: 'none'
+  })
+};
+
+// Every route of the API, keyed by operation id
+export const apiRoutes = {
+  ...configApi,
+  ...codeApi,
+  ...componentApi,
+  ...historyApi,
+  ...sessionApi,
+  ...themeApi,
+  ...examplesApi,
+  ...generationsApi,
+  ...adminApi,
+  ...metaApi
+};
+
+export type ApiRoutes = typeof apiRoutes;
+export type ApiOperation = keyof ApiRoutes;
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { ModelSpecSchema, SessionIdSchema, defineRoute, requiredString } from './common.js';
+import { ConfigIterationSchema } from './config.js';
+
+export const IterationParamsSchema = z.object({
+  sessionId: SessionIdSchema,
+  componentName: z.string()
+});
+
+export const IterationNodeSchema = z.object({
+  id: z.string(),
+  parentId: z.string().nullable(),
+  prompt: z.string(),
+  success: z.boolean(),
+  attempts: z.number(),
+  model: z.string().optional(),
+  createdAt: z.string()
+});
+
+export const IterationTreeSchema = z.object({
+  success: z.literal(true),
+  sessionId: z.string(),
+  componentName: z.string().describe('Registry id'),
+  headId: z.string().nullable(),
+  nodes: z.array(IterationNodeSchema).describe('Oldest first; failed generations are leaves')
+});
+
+// The node the head moved to, with the config the client should display
+export const HeadResponseSchema = z.object({
+  success: z.literal(true),
+  headId: z.string(),
+  parentId: z.string().nullable(),
+  prompt: z.string(),
+  config: z.unknown()
+});
+
+export const RevertBodySchema = z.object({
+  generationId: requiredString('generationId')
+});
+
+export const BranchBodySchema = z.object({
+  generationId: requiredString('generationId'),
+  prompt: requiredString('prompt'),
+  model: ModelSpecSchema.optional()
+});
+
+const ITERATION_PATH = '/api/sessions/:sessionId/components/:componentName';
+
+export const sessionApi = {
+  getTree: defineRoute({
+    method: 'get',
+    path: `${ITERATION_PATH}/tree`,
+    tag: 'sessions',
+    summary: 'All config iterations of the component with their parent links and the current head',
+    params: IterationParamsSchema,
+    response: IterationTreeSchema,
+    errors: [400]
+  }),
+
+  revertIteration: defineRoute({
+    method: 'post',
+    path: `${ITERATION_PATH}/revert`,
+    tag: 'sessions',
+    summary: 'Move the head to any successful iteration',
+    params: IterationParamsSchema,
+    body: RevertBodySchema,
+    response: HeadResponseSchema,
+    errors: [400, 404]
+  }),
+
+  undoIteration: defineRoute({
+    method: 'post',
+    path: `${ITERATION_PATH}/undo`,
+    tag: 'sessions',
+    summary: 'Move the head to its parent',
+    params: IterationParamsSchema,
+    response: HeadResponseSchema,
+    errors: [400, 409]
+  }),
+
+  redoIteration: defineRoute({
+    method: 'post',
+    path: `${ITERATION_PATH}/redo`,
+    tag: 'sessions',
+    summary: 'Follow the most recent branch from the head',
+    params: IterationParamsSchema,
+    response: HeadResponseSchema,
+    errors: [400, 409]
+  }),
+
+  branchIteration: defineRoute({
+    method: 'post',
+    path: `${ITERATION_PATH}/branch`,
+    tag: 'sessions',
+    summary: "Generate from an earlier iteration's config; the result becomes the new head",
+    params: IterationParamsSchema,
+    body: BranchBodySchema,
+    response: ConfigIterationSchema,
+    errors: [400, 404, 422, 429, 500, 502]
+  })
+};
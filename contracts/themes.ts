@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import { JsonObjectSchema, ModelSpecSchema, defineRoute, requiredString } from './common.js';
+import { ThemeSchema, ThemeUpdateSchema } from '../validators/themeValidator.js';
+
+export const ThemeDocumentSchema = ThemeSchema.extend({
+  _id: z.string(),
+  workspaceId: z.string().optional(),
+  prompt: z.string().optional().describe('Text the theme was generated from, if any'),
+  model: z.string().optional().describe('Engine id that generated it'),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+export const ThemedConfigSchema = z.object({
+  success: z.boolean(),
+  config: z.unknown().optional().describe('Config with "$token" references, to keep following the theme'),
+  resolvedConfig: z.unknown().optional().describe('Same config with every token replaced by its value'),
+  error: z.string().optional(),
+  details: z.array(z.string()).optional()
+});
+
+// componentName -> config
+const ConfigMapSchema = z.record(z.string(), z.unknown(), { error: 'configs must be an object of component configs' });
+
+export const GenerateThemeBodySchema = z.object({
+  prompt: requiredString('prompt'),
+  name: z.string().optional(),
+  model: ModelSpecSchema.optional(),
+  configs: ConfigMapSchema.optional().describe("Configs to re-skin; default: every component's default config")
+});
+
+export const ApplyThemeBodySchema = z.object({
+  configs: ConfigMapSchema.optional()
+});
+
+export const ResolveThemeBodySchema = z.object({
+  componentName: requiredString('componentName'),
+  config: JsonObjectSchema
+});
+
+const ThemeIdParamsSchema = z.object({ id: z.string() });
+
+const ThemeResponseSchema = z.object({
+  success: z.literal(true),
+  theme: ThemeDocumentSchema
+});
+
+export const themeApi = {
+  listThemes: defineRoute({
+    method: 'get',
+    path: '/api/themes',
+    tag: 'themes',
+    summary: 'Every saved theme, most recently updated first',
+    response: z.object({
+      success: z.literal(true),
+      themes: z.array(ThemeDocumentSchema)
+    })
+  }),
+
+  createTheme: defineRoute({
+    method: 'post',
+    path: '/api/themes',
+    tag: 'themes',
+    summary: 'Save a theme',
+    body: ThemeSchema,
+    response: ThemeResponseSchema,
+    status: 201,
+    errors: [400]
+  }),
+
+  generateTheme: defineRoute({
+    method: 'post',
+    path: '/api/themes/generate',
+    tag: 'themes',
+    summary: 'Generate a palette from text, save it, and re-skin the given configs with it',
+    body: GenerateThemeBodySchema,
+    response: z.object({
+      success: z.literal(true),
+      theme: ThemeDocumentSchema,
+      configs: z.record(z.string(), ThemedConfigSchema),
+      attempts: z.number(),
+      model: z.string()
+    }),
+    status: 201,
+    errors: [400, 422, 429]
+  }),
+
+  getTheme: defineRoute({
+    method: 'get',
+    path: '/api/themes/:id',
+    tag: 'themes',
+    summary: 'A single theme',
+    params: ThemeIdParamsSchema,
+    response: ThemeResponseSchema,
+    errors: [404]
+  }),
+
+  updateTheme: defineRoute({
+    method: 'put',
+    path: '/api/themes/:id',
+    tag: 'themes',
+    summary: 'Update any of name, description and tokens; tokens are replaced as a whole',
+    params: ThemeIdParamsSchema,
+    body: ThemeUpdateSchema,
+    response: ThemeResponseSchema,
+    errors: [400, 404]
+  }),
+
+  deleteTheme: defineRoute({
+    method: 'delete',
+    path: '/api/themes/:id',
+    tag: 'themes',
+    summary: 'Delete a theme',
+    params: ThemeIdParamsSchema,
+    response: z.object({ success: z.literal(true) }),
+    errors: [404]
+  }),
+
+  applyTheme: defineRoute({
+    method: 'post',
+    path: '/api/themes/:id/apply',
+    tag: 'themes',
+    summary: "Re-skin configs (default: every component's default config) with a saved theme",
+    params: ThemeIdParamsSchema,
+    body: ApplyThemeBodySchema,
+    response: z.object({
+      success: z.literal(true),
+      configs: z.record(z.string(), ThemedConfigSchema)
+    }),
+    errors: [400, 404]
+  }),
+
+  resolveTheme: defineRoute({
+    method: 'post',
+    path: '/api/themes/:id/resolve',
+    tag: 'themes',
+    summary: 'Replace a config\'s "$token" references with the theme\'s values',
+    params: ThemeIdParamsSchema,
+    body: ResolveThemeBodySchema,
+    response: ThemedConfigSchema.extend({ success: z.literal(true) }),
+    errors: [400, 404]
+  })
+};
@@ -0,0 +1,51 @@
+import { Response } from 'express';
+import { createApiKey, listApiKeys, revokeApiKey } from '../services/apiKeyService.js';
+import { adminApi } from '../contracts/admin.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError } from '../utils/apiResponse.js';
+
+/**
+ * POST /api/admin/keys
+ * Body: { workspaceId, name? }
+ * The plain key is in this response only
+ */
+export async function createApiKeyHandler(req: ValidatedRequest<typeof adminApi.createApiKey>, res: Response) {
+  try {
+    const { workspaceId, name } = req.body;
+
+    const { key, apiKey } = await createApiKey(workspaceId, name);
+    return res.status(201).json({ success: true, key, apiKey });
+  } catch (error) {
+    console.error('Error in createApiKey:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/admin/keys?workspaceId=...
+ */
+export async function listApiKeysHandler(req: ValidatedRequest<typeof adminApi.listApiKeys>, res: Response) {
+  try {
+    const apiKeys = await listApiKeys(req.query.workspaceId);
+    return res.status(200).json({ success: true, apiKeys });
+  } catch (error) {
+    console.error('Error in listApiKeys:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * DELETE /api/admin/keys/:id
+ */
+export async function revokeApiKeyHandler(req: ValidatedRequest<typeof adminApi.revokeApiKey>, res: Response) {
+  try {
+    const apiKey = await revokeApiKey(req.params.id);
+    if (!apiKey) {
+      return sendError(res, 404, `API key "${req.params.id}" not found`);
+    }
+    return res.status(200).json({ success: true, apiKey });
+  } catch (error) {
+    console.error('Error in revokeApiKey:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
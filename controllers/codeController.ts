@@ -1,85 +1,154 @@
-import { Request, Response } from 'express';
-import { generateConfig } from '../services/aiService.js';
-import { validateCode } from '../utils/codeValidator.js';
+import { Response } from 'express';
+import { generatePlaygroundCode, PlaygroundCodeOutcome } from '../services/codeGenerationService.js';
+import { recordGeneration } from '../services/historyService.js';
+import { DEFAULT_PLAYGROUND_PROVIDERS, ProviderSettings, checkProviderSelection } from '../constants/providerRegistry.js';
+import { codeApi, GenerateCodeBody } from '../contracts/code.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError, sendOutcome, withErrorCode } from '../utils/apiResponse.js';
+import { openEventStream } from '../utils/sse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+import { isCacheBypassed, setCacheHeader } from '../utils/cacheControl.js';
+import { resolveSessionId, SESSION_HEADER, INVALID_SESSION_ID_ERROR } from '../utils/session.js';
+
+interface ProviderSelection {
+  providers?: string[];
+  providerSettings?: Record<string, ProviderSettings>;
+}
+
+/**
+ * Normalize the `providers` field shared by both code generation endpoints: a
+ * list of provider ids, or an object of provider id -> settings (or true for
+ * the defaults), e.g. { mui: { darkMode: true }, chakra: { version: 2 } }.
+ * Returns an error message when it names unknown providers or versions.
+ */
+function readProviderSelection(providers: GenerateCodeBody['providers']): ProviderSelection | string {
+  if (providers === undefined) return {};
+
+  const selection: ProviderSelection = Array.isArray(providers)
+    ? { providers: [...new Set(providers)] }
+    : {
+        providers: Object.keys(providers),
+        providerSettings: Object.fromEntries(
+          Object.entries(providers).map(([id, settings]) => [id, settings === true ? {} : settings])
+        )
+      };
+
+  return checkProviderSelection(selection.providers!, selection.providerSettings) ?? selection;
+}
+
+/**
+ * Save a finished playground generation to the session's history
+ */
+function recordCodeGeneration(workspaceId: string, sessionId: string, prompt: string, requested: string[] | undefined, outcome: PlaygroundCodeOutcome, startedAt: number) {
+  const { body } = outcome;
+  const providers = body.providers ? Object.keys(body.providers) : requested ?? DEFAULT_PLAYGROUND_PROVIDERS;
+  const validationErrors = body.providers
+    ? Object.entries(body.providers).flatMap(([provider, status]) => status.errors.map(error => `${provider}: ${error}`))
+    : [body.error].filter((error): error is string => Boolean(error));
+
+  return recordGeneration({
+    workspaceId,
+    sessionId,
+    kind: 'code',
+    componentName: 'playground',
+    prompt,
+    providers,
+    code: body.success ? body.config : undefined,
+    success: body.success,
+    attempts: body.attempts || 0,
+    validationErrors,
+    latencyMs: Date.now() - startedAt,
+    cached: outcome.cache === 'HIT',
+    model: body.model,
+    promptTemplate: body.promptTemplate,
+    promptVersion: body.promptVersion
+  });
+}
 
 /**
  * Generate full React component code (Playground)
  * POST /api/code/generate
  */
-export async function generateComponentCode(req: Request, res: Response) {
+export async function generateComponentCode(req: ValidatedRequest<typeof codeApi.generateCode>, res: Response) {
   try {
-    const { prompt, prevCode } = req.body;
-    
-    // Validate request body
-    if (!prompt || typeof prompt !== 'string') {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Prompt is required and must be a string' 
-      });
+    const { prompt, prevCode, model } = req.body;
+
+    const selection = readProviderSelection(req.body.providers);
+    if (typeof selection === 'string') {
+      return sendError(res, 400, selection, { code: 'UNKNOWN_PROVIDER' });
     }
 
-    let lastError = '';
-    let currentCode = prevCode;
-    const MAX_CODE_RETRIES = 3;
-
-    for (let i = 0; i < MAX_CODE_RETRIES; i++) {
-        // Call AI service with componentName='playground'
-        console.log('Generating code for component: playground attempt', i + 1);
-        const result = await generateConfig({
-          prompt: i === 0 ? prompt : `The previous code generated had compilation errors. Please fix them. Error: ${lastError}`,
-          prevCode: currentCode,
-          componentName: 'playground'
-        } as any);
-        
-        if (!result.success) {
-          return res.status(500).json(result);
-        }
-        
-        const generatedConfig = result.config; // Reverted: use raw config
-        let allValid = true;
-        let validationError = '';
-
-        if (typeof generatedConfig === 'object') {
-            for (const provider in generatedConfig) {
-                const validation = validateCode(generatedConfig[provider], provider);
-                if (!validation.success) {
-                    console.warn(`Validation failed for ${provider}:`, validation.error);
-                    allValid = false;
-                    validationError = `Provider ${provider}: ${validation.error}`;
-                    break;
-                }
-            }
-        } else if (typeof generatedConfig === 'string') {
-            const validation = validateCode(generatedConfig);
-            if (!validation.success) {
-                allValid = false;
-                validationError = validation.error || 'Unknown compilation error';
-            }
-        }
-
-        if (allValid) {
-            return res.status(200).json({
-                success: true,
-                config: generatedConfig,
-                attempts: i + 1
-            });
-        }
-
-        lastError = validationError;
-        currentCode = generatedConfig;
+    const sessionId = resolveSessionId(req);
+    if (!sessionId) {
+      return sendError(res, 400, INVALID_SESSION_ID_ERROR, { code: 'INVALID_SESSION' });
     }
-    
-    return res.status(422).json({
-      success: false,
-      error: 'Failed to generate valid code after 5 attempts',
-      lastError
-    });
-    
+
+    const startedAt = Date.now();
+    const outcome = await generatePlaygroundCode({ prompt, prevCode, model, ...selection, noCache: isCacheBypassed(req), variantKey: sessionId });
+    const generationId = await recordCodeGeneration(getWorkspaceId(req), sessionId, prompt, selection.providers, outcome, startedAt);
+
+    res.setHeader(SESSION_HEADER, sessionId);
+    setCacheHeader(res, outcome.cache);
+    return sendOutcome(res, outcome, { sessionId, generationId });
+
   } catch (error) {
     console.error('Code generation controller error:', error);
-    return res.status(500).json({
+    return sendError(res, 500, 'Internal server error during code generation');
+  }
+}
+
+/**
+ * Stream playground code generation as Server-Sent Events
+ * POST /api/code/generate/stream
+ *
+ * Events: attempt, token, validation, retry, result, error. A cached result
+ * is sent without the progress events.
+ */
+export async function streamComponentCode(req: ValidatedRequest<typeof codeApi.streamCode>, res: Response) {
+  const { prompt, prevCode, model } = req.body;
+
+  const selection = readProviderSelection(req.body.providers);
+  if (typeof selection === 'string') {
+    return sendError(res, 400, selection, { code: 'UNKNOWN_PROVIDER' });
+  }
+
+  const sessionId = resolveSessionId(req);
+  if (!sessionId) {
+    return sendError(res, 400, INVALID_SESSION_ID_ERROR, { code: 'INVALID_SESSION' });
+  }
+
+  res.setHeader(SESSION_HEADER, sessionId);
+  const stream = openEventStream(res);
+  const abort = new AbortController();
+  res.on('close', () => abort.abort());
+
+  try {
+    const startedAt = Date.now();
+    const outcome = await generatePlaygroundCode(
+      { prompt, prevCode, model, ...selection, noCache: isCacheBypassed(req), variantKey: sessionId },
+      ({ type, ...data }) => stream.send(type, data),
+      abort.signal
+    );
+    // Nobody is listening to an aborted request, so it is not worth keeping
+    const generationId = outcome.status === 499
+      ? null
+      : await recordCodeGeneration(getWorkspaceId(req), sessionId, prompt, selection.providers, outcome, startedAt);
+    // Headers are long sent, so the cache status travels with the result
+    stream.send('result', {
+      status: outcome.status,
+      cache: outcome.cache,
+      ...withErrorCode(outcome.status, outcome.body),
+      sessionId,
+      generationId
+    });
+  } catch (error) {
+    console.error('Code generation stream error:', error);
+    stream.send('error', {
       success: false,
-      error: 'Internal server error during code generation'
+      error: 'Internal server error during code generation',
+      code: 'INTERNAL_ERROR'
     });
+  } finally {
+    stream.close();
   }
 }
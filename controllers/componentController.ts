@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import {
+  componentRegistry,
+  resolveComponent,
+  getComponentSchemaDescription,
+  getComponentJSONSchema,
+  ComponentRegistryEntry
+} from '../constants/componentRegistry.js';
+import { componentApi } from '../contracts/components.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError } from '../utils/apiResponse.js';
+
+function toComponentSummary(entry: ComponentRegistryEntry) {
+  return {
+    id: entry.id,
+    name: entry.name,
+    description: entry.description,
+    aliases: entry.aliases,
+    defaultConfig: entry.defaultConfig
+  };
+}
+
+/**
+ * GET /api/components
+ * List every registered component
+ */
+export function listComponents(req: Request, res: Response) {
+  return res.status(200).json({
+    success: true,
+    components: Object.values(componentRegistry).map(toComponentSummary)
+  });
+}
+
+/**
+ * GET /api/components/:id
+ * Get a single component by id or alias, including its schema description and JSON Schema
+ */
+export function getComponent(req: ValidatedRequest<typeof componentApi.getComponent>, res: Response) {
+  const entry = resolveComponent(req.params.id);
+  if (!entry) {
+    return sendError(res, 404, `Component "${req.params.id}" is not registered`, { code: 'UNKNOWN_COMPONENT' });
+  }
+
+  return res.status(200).json({
+    success: true,
+    component: {
+      ...toComponentSummary(entry),
+      schemaDescription: getComponentSchemaDescription(entry),
+      jsonSchema: getComponentJSONSchema(entry)
+    }
+  });
+}
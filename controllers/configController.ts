@@ -1,62 +1,68 @@
-import { Request, Response } from 'express';
-import { generateConfig } from '../services/aiService.js';
-import Prompt from '../models/prompt.model.js';
+import { Response } from 'express';
+import { generateConfigIteration } from '../services/iterationService.js';
+import { exportConfigCode } from '../services/codeExportService.js';
+import { configApi } from '../contracts/config.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError, sendOutcome } from '../utils/apiResponse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+import { isCacheBypassed, setCacheHeader } from '../utils/cacheControl.js';
+import { resolveSessionId, SESSION_HEADER, INVALID_SESSION_ID_ERROR } from '../utils/session.js';
+
 /**
  * POST /api/config/generate
- * Generate custom component configuration using AI
+ * Generate custom component configuration using AI. Every generation, failed
+ * or not, is recorded in the session's history as a child of `parentId`
+ * (default: the session's current head for the component).
  */
-export async function generateComponentConfig(req: Request, res: Response) {
+export async function generateComponentConfig(req: ValidatedRequest<typeof configApi.generateConfig>, res: Response) {
   try {
-    const { componentName, prompt, currentConfig } = req.body;
-    
-    // Validate request body
-    if (!componentName || typeof componentName !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'componentName is required and must be a string'
-      });
-    }
-    
-    if (!prompt || typeof prompt !== 'string') {
-      return res.status(400).json({
-        success: false,
-        error: 'prompt is required and must be a string'
-      });
-    }
-    
-    if (!currentConfig || typeof currentConfig !== 'object') {
-      return res.status(400).json({
-        success: false,
-        error: 'currentConfig is required and must be an object'
-      });
+    const { componentName, prompt, currentConfig, model, parentId, outputMode, changeGuard, accessibility } = req.body;
+
+    const sessionId = resolveSessionId(req);
+    if (!sessionId) {
+      return sendError(res, 400, INVALID_SESSION_ID_ERROR, { code: 'INVALID_SESSION' });
     }
     
     // Generate configuration using AI service
-    const result = await generateConfig({
+    const outcome = await generateConfigIteration({
+      workspaceId: getWorkspaceId(req),
+      sessionId,
       componentName,
       prompt,
-      currentConfig
+      currentConfig,
+      model,
+      parentId,
+      outputMode,
+      changeGuard,
+      accessibility,
+      noCache: isCacheBypassed(req)
     });
-    
+
     // Return result
-    if (result.success) {
-      const newPrompt = new Prompt({
-        prompt,
-        responseConfig: JSON.stringify(result.config),
-        currentConfig: JSON.stringify(currentConfig)
-      });
-      await newPrompt.save();
-      return res.status(200).json(result);
-    } else {
-      return res.status(400).json(result);
-    }
+    res.setHeader(SESSION_HEADER, sessionId);
+    setCacheHeader(res, outcome.cache);
+    return sendOutcome(res, outcome);
     
   } catch (error) {
     console.error('Error in generateComponentConfig:', error);
-    return res.status(500).json({
-      success: false,
-      error: 'Internal server error',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/config/export
+ * Turn a validated component config into TSX for each UI library, using
+ * per-provider templates rather than the model
+ */
+export async function exportComponentCode(req: ValidatedRequest<typeof configApi.exportCode>, res: Response) {
+  try {
+    const { componentName, config, providers, themeId } = req.body;
+
+    const outcome = await exportConfigCode({ workspaceId: getWorkspaceId(req), componentName, config, providers, themeId });
+    return sendOutcome(res, outcome);
+
+  } catch (error) {
+    console.error('Error in exportComponentCode:', error);
+    return sendError(res, 500, 'Internal server error');
   }
 }
@@ -0,0 +1,50 @@
+import { Response } from 'express';
+import { listExamples, starGeneration, deleteExample } from '../services/exampleService.js';
+import { examplesApi } from '../contracts/examples.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError, sendOutcome } from '../utils/apiResponse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+
+/**
+ * GET /api/examples?componentName=button
+ */
+export async function listExamplesHandler(req: ValidatedRequest<typeof examplesApi.listExamples>, res: Response) {
+  try {
+    const examples = await listExamples(getWorkspaceId(req), req.query.componentName);
+    return res.status(200).json({ success: true, examples });
+  } catch (error) {
+    console.error('Error in listExamples:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/examples
+ * Body: { generationId, note? }
+ * Star a successful config generation as a few-shot example
+ */
+export async function starGenerationHandler(req: ValidatedRequest<typeof examplesApi.starGeneration>, res: Response) {
+  try {
+    const { generationId, note } = req.body;
+
+    const outcome = await starGeneration(getWorkspaceId(req), generationId, note);
+    return sendOutcome(res, outcome);
+  } catch (error) {
+    console.error('Error in starGeneration:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * DELETE /api/examples/:id
+ */
+export async function deleteExampleHandler(req: ValidatedRequest<typeof examplesApi.deleteExample>, res: Response) {
+  try {
+    const deleted = await deleteExample(getWorkspaceId(req), req.params.id);
+    if (!deleted) return sendError(res, 404, `Example "${req.params.id}" not found`);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error in deleteExample:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
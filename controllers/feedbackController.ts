@@ -0,0 +1,52 @@
+import { Response } from 'express';
+import { submitFeedback, getFeedbackByComponent, getFeedbackByProvider } from '../services/feedbackService.js';
+import { generationsApi } from '../contracts/generations.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError, sendOutcome } from '../utils/apiResponse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+
+/**
+ * POST /api/generations/:id/feedback
+ * Body: { rating, reason?, provider?, comment?, correctedConfig? }
+ */
+export async function submitFeedbackHandler(req: ValidatedRequest<typeof generationsApi.submitFeedback>, res: Response) {
+  try {
+    const outcome = await submitFeedback(getWorkspaceId(req), req.params.id, req.body);
+    return sendOutcome(res, outcome);
+  } catch (error) {
+    console.error('Error in submitFeedback:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/generations/feedback/by-component?since=...&model=...&promptVersion=...
+ */
+export async function feedbackByComponentHandler(req: ValidatedRequest<typeof generationsApi.feedbackByComponent>, res: Response) {
+  try {
+    const { since, model, promptVersion } = req.query;
+
+    const breakdowns = await getFeedbackByComponent(getWorkspaceId(req), { since: since ? new Date(since) : undefined, model, promptVersion });
+    const components = breakdowns.map(({ key, ...counts }) => ({ componentName: key, ...counts }));
+    return res.status(200).json({ success: true, components });
+  } catch (error) {
+    console.error('Error in feedbackByComponent:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/generations/feedback/by-provider?since=...&model=...&promptVersion=...
+ */
+export async function feedbackByProviderHandler(req: ValidatedRequest<typeof generationsApi.feedbackByProvider>, res: Response) {
+  try {
+    const { since, model, promptVersion } = req.query;
+
+    const breakdowns = await getFeedbackByProvider(getWorkspaceId(req), { since: since ? new Date(since) : undefined, model, promptVersion });
+    const providers = breakdowns.map(({ key, ...counts }) => ({ provider: key, ...counts }));
+    return res.status(200).json({ success: true, providers });
+  } catch (error) {
+    console.error('Error in feedbackByProvider:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
@@ -0,0 +1,59 @@
+import { Response } from 'express';
+import { listGenerations, getGeneration, getPromptVariantStats } from '../services/historyService.js';
+import { historyApi } from '../contracts/history.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError } from '../utils/apiResponse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+
+/**
+ * GET /api/history?sessionId=...&limit=20&before=<ISO date>
+ * List a session's generations, newest first
+ */
+export async function listHistory(req: ValidatedRequest<typeof historyApi.listHistory>, res: Response) {
+  try {
+    const { sessionId, limit, before } = req.query;
+
+    const generations = await listGenerations(getWorkspaceId(req), sessionId, { limit, before: before ? new Date(before) : undefined });
+    return res.status(200).json({ success: true, sessionId, generations });
+
+  } catch (error) {
+    console.error('Error in listHistory:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/history/prompt-variants?template=config&since=<ISO date>
+ * Compare prompt template versions: outcome of every version with generations
+ */
+export async function getPromptVariants(req: ValidatedRequest<typeof historyApi.getPromptVariants>, res: Response) {
+  try {
+    const { template, since } = req.query;
+
+    const variants = await getPromptVariantStats(getWorkspaceId(req), { template, since: since ? new Date(since) : undefined });
+    return res.status(200).json({ success: true, variants });
+
+  } catch (error) {
+    console.error('Error in getPromptVariants:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/history/:id
+ * A single generation with its configs and code, to reopen or resume it
+ */
+export async function getHistoryEntry(req: ValidatedRequest<typeof historyApi.getHistoryEntry>, res: Response) {
+  try {
+    const generation = await getGeneration(getWorkspaceId(req), req.params.id);
+    if (!generation) {
+      return sendError(res, 404, `Generation "${req.params.id}" not found`);
+    }
+
+    return res.status(200).json({ success: true, generation });
+
+  } catch (error) {
+    console.error('Error in getHistoryEntry:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
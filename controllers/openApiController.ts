@@ -0,0 +1,14 @@
+import { Request, Response } from 'express';
+import { buildOpenApiDocument } from '../contracts/openapi.js';
+
+// The contracts are static, so the document is built once
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+/**
+ * GET /api/openapi.json
+ * OpenAPI 3.1 document generated from the route contracts
+ */
+export function getOpenApiDocument(req: Request, res: Response) {
+  document ??= buildOpenApiDocument();
+  return res.status(200).json(document);
+}
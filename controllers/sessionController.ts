@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import {
+  generateConfigIteration,
+  getIterationTree,
+  revertTo,
+  undo,
+  redo
+} from '../services/iterationService.js';
+import { sessionApi } from '../contracts/sessions.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError, sendOutcome } from '../utils/apiResponse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+import { isCacheBypassed, setCacheHeader } from '../utils/cacheControl.js';
+
+type IterationNodeDocument = NonNullable<Awaited<ReturnType<typeof revertTo>>>;
+
+/**
+ * The node the head moved to, with the config the client should display
+ */
+function toHeadResponse(node: IterationNodeDocument) {
+  return {
+    success: true,
+    headId: String(node._id),
+    parentId: node.parentId ? String(node.parentId) : null,
+    prompt: node.prompt,
+    config: node.config
+  };
+}
+
+/**
+ * GET /api/sessions/:sessionId/components/:componentName/tree
+ * All config iterations of the component with their parent links and the current head
+ */
+export async function getTree(req: ValidatedRequest<typeof sessionApi.getTree>, res: Response) {
+  try {
+    const { sessionId, componentName } = req.params;
+
+    const tree = await getIterationTree(getWorkspaceId(req), sessionId, componentName);
+    return res.status(200).json({ success: true, sessionId, ...tree });
+
+  } catch (error) {
+    console.error('Error in getTree:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/sessions/:sessionId/components/:componentName/revert
+ * Body: { generationId: string }
+ */
+export async function revertIteration(req: ValidatedRequest<typeof sessionApi.revertIteration>, res: Response) {
+  try {
+    const { sessionId, componentName } = req.params;
+    const { generationId } = req.body;
+
+    const node = await revertTo(getWorkspaceId(req), sessionId, componentName, generationId);
+    if (!node) {
+      return sendError(res, 404, `Generation "${generationId}" is not a successful iteration of this session's ${componentName}`);
+    }
+    return res.status(200).json(toHeadResponse(node));
+
+  } catch (error) {
+    console.error('Error in revertIteration:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/sessions/:sessionId/components/:componentName/undo
+ */
+export async function undoIteration(req: ValidatedRequest<typeof sessionApi.undoIteration>, res: Response) {
+  try {
+    const { sessionId, componentName } = req.params;
+
+    const node = await undo(getWorkspaceId(req), sessionId, componentName);
+    if (!node) {
+      return sendError(res, 409, 'Nothing to undo');
+    }
+    return res.status(200).json(toHeadResponse(node));
+
+  } catch (error) {
+    console.error('Error in undoIteration:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/sessions/:sessionId/components/:componentName/redo
+ * Follows the most recent branch from the head
+ */
+export async function redoIteration(req: ValidatedRequest<typeof sessionApi.redoIteration>, res: Response) {
+  try {
+    const { sessionId, componentName } = req.params;
+
+    const node = await redo(getWorkspaceId(req), sessionId, componentName);
+    if (!node) {
+      return sendError(res, 409, 'Nothing to redo');
+    }
+    return res.status(200).json(toHeadResponse(node));
+
+  } catch (error) {
+    console.error('Error in redoIteration:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/sessions/:sessionId/components/:componentName/branch
+ * Body: { generationId: string, prompt: string, model?: string }
+ * Generate from an earlier iteration's config; the result becomes the new head
+ */
+export async function branchIteration(req: ValidatedRequest<typeof sessionApi.branchIteration>, res: Response) {
+  try {
+    const { sessionId, componentName } = req.params;
+    const { generationId, prompt, model } = req.body;
+
+    const outcome = await generateConfigIteration({
+      workspaceId: getWorkspaceId(req),
+      sessionId,
+      componentName,
+      prompt,
+      model,
+      parentId: generationId,
+      noCache: isCacheBypassed(req)
+    });
+    setCacheHeader(res, outcome.cache);
+    return sendOutcome(res, outcome);
+
+  } catch (error) {
+    console.error('Error in branchIteration:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
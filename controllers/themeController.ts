@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import {
+  listThemes,
+  getTheme,
+  createTheme,
+  updateTheme,
+  deleteTheme,
+  generateTheme,
+  reskinConfigs,
+  resolveThemedConfig
+} from '../services/themeService.js';
+import { themeApi } from '../contracts/themes.js';
+import { ValidatedRequest } from '../middleware/validateRequest.js';
+import { sendError, sendOutcome } from '../utils/apiResponse.js';
+import { getWorkspaceId } from '../utils/workspace.js';
+
+function themeNotFound(res: Response, id: string) {
+  return sendError(res, 404, `Theme "${id}" not found`);
+}
+
+/**
+ * GET /api/themes
+ */
+export async function listThemesHandler(req: Request, res: Response) {
+  try {
+    const themes = await listThemes(getWorkspaceId(req));
+    return res.status(200).json({ success: true, themes });
+  } catch (error) {
+    console.error('Error in listThemes:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * GET /api/themes/:id
+ */
+export async function getThemeHandler(req: ValidatedRequest<typeof themeApi.getTheme>, res: Response) {
+  try {
+    const theme = await getTheme(getWorkspaceId(req), req.params.id);
+    if (!theme) return themeNotFound(res, req.params.id);
+    return res.status(200).json({ success: true, theme });
+  } catch (error) {
+    console.error('Error in getTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/themes
+ * Body: { name, description?, tokens: { colors, radii, spacing, shadows } }
+ */
+export async function createThemeHandler(req: ValidatedRequest<typeof themeApi.createTheme>, res: Response) {
+  try {
+    const theme = await createTheme(getWorkspaceId(req), req.body);
+    return res.status(201).json({ success: true, theme });
+  } catch (error) {
+    console.error('Error in createTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * PUT /api/themes/:id
+ * Body: any of { name, description, tokens }; tokens are replaced as a whole
+ */
+export async function updateThemeHandler(req: ValidatedRequest<typeof themeApi.updateTheme>, res: Response) {
+  try {
+    const theme = await updateTheme(getWorkspaceId(req), req.params.id, req.body);
+    if (!theme) return themeNotFound(res, req.params.id);
+    return res.status(200).json({ success: true, theme });
+  } catch (error) {
+    console.error('Error in updateTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * DELETE /api/themes/:id
+ */
+export async function deleteThemeHandler(req: ValidatedRequest<typeof themeApi.deleteTheme>, res: Response) {
+  try {
+    const deleted = await deleteTheme(getWorkspaceId(req), req.params.id);
+    if (!deleted) return themeNotFound(res, req.params.id);
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error in deleteTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/themes/generate
+ * Body: { prompt, name?, model?, configs?: { [componentName]: config } }
+ * Generate a palette from text, save it, and re-skin the given configs
+ * (or every component's default config) with it
+ */
+export async function generateThemeHandler(req: ValidatedRequest<typeof themeApi.generateTheme>, res: Response) {
+  try {
+    const { prompt, name, model, configs } = req.body;
+
+    const outcome = await generateTheme({ workspaceId: getWorkspaceId(req), prompt, name, model, configs });
+    return sendOutcome(res, outcome);
+  } catch (error) {
+    console.error('Error in generateTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/themes/:id/apply
+ * Body: { configs?: { [componentName]: config } }
+ * Re-skin configs with a saved theme
+ */
+export async function applyThemeHandler(req: ValidatedRequest<typeof themeApi.applyTheme>, res: Response) {
+  try {
+    const { configs } = req.body;
+
+    const theme = await getTheme(getWorkspaceId(req), req.params.id);
+    if (!theme) return themeNotFound(res, req.params.id);
+
+    return res.status(200).json({ success: true, configs: reskinConfigs(theme.tokens, configs) });
+  } catch (error) {
+    console.error('Error in applyTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
+
+/**
+ * POST /api/themes/:id/resolve
+ * Body: { componentName, config }
+ * Replace a config's "$token" references with the theme's values
+ */
+export async function resolveThemeHandler(req: ValidatedRequest<typeof themeApi.resolveTheme>, res: Response) {
+  try {
+    const { componentName, config } = req.body;
+
+    const theme = await getTheme(getWorkspaceId(req), req.params.id);
+    if (!theme) return themeNotFound(res, req.params.id);
+
+    const result = resolveThemedConfig(componentName, config, theme.tokens);
+    return sendOutcome(res, { status: result.success ? 200 : 400, body: result });
+  } catch (error) {
+    console.error('Error in resolveTheme:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+}
@@ -0,0 +1,62 @@
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { JsonObjectSchema } from '../contracts/common.js';
+import { parseExpectation, Expectation } from './expectations.js';
+
+export const EvalCaseSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'id may only contain letters, digits, ".", "_" and "-"'),
+  componentName: z.string().min(1).describe('Registry id or alias, or "playground" for code generation'),
+  prompt: z.string().min(1),
+  currentConfig: JsonObjectSchema.optional().describe("Config cases: defaults to the component's default config"),
+  providers: z.array(z.string()).min(1).optional().describe('Playground cases: defaults to the default providers'),
+  expectations: z.array(z.string()).default([])
+});
+
+export const EvalDatasetSchema = z.object({
+  name: z.string().min(1),
+  cases: z.array(EvalCaseSchema).min(1, 'a dataset needs at least one case')
+});
+
+export type EvalCaseInput = z.infer<typeof EvalCaseSchema>;
+
+export interface EvalCase extends Omit<EvalCaseInput, 'expectations'> {
+  expectations: Expectation[];
+}
+
+export interface EvalDataset {
+  name: string;
+  cases: EvalCase[];
+}
+
+/**
+ * Read and validate a dataset file. Every problem is reported at once, with
+ * the case it belongs to.
+ */
+export async function loadDataset(file: string): Promise<EvalDataset> {
+  const parsed = EvalDatasetSchema.safeParse(JSON.parse(await readFile(file, 'utf8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid dataset ${file}:\n${parsed.error.issues.map(issue => `  ${issue.path.join('.')}: ${issue.message}`).join('\n')}`);
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const cases = parsed.data.cases.map(evalCase => {
+    if (ids.has(evalCase.id)) errors.push(`  ${evalCase.id}: duplicate case id`);
+    ids.add(evalCase.id);
+
+    const expectations = evalCase.expectations.flatMap(text => {
+      const expectation = parseExpectation(text);
+      if (typeof expectation === 'string') {
+        errors.push(`  ${evalCase.id}: ${expectation}`);
+        return [];
+      }
+      return [expectation];
+    });
+    return { ...evalCase, expectations };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dataset ${file}:\n${errors.join('\n')}`);
+  }
+  return { name: parsed.data.name, cases };
+}
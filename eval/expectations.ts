@@ -0,0 +1,159 @@
+import { isDeepStrictEqual } from 'util';
+import { HEX_COLOR_PATTERN } from '../validators/primitives.js';
+
+export type ColorFamily = 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink' | 'gray' | 'black' | 'white';
+
+/**
+ * A dataset expectation, written as one line:
+ *   styles.backgroundColor is bluish     hex color in a color family
+ *   label unchanged                      same value as in currentConfig
+ *   styles.borderRadius changed
+ *   variant = "outlined"                 JSON value
+ *   label matches /^sign in$/i
+ *   code includes aria-label             every provider's code (playground cases)
+ */
+export type Expectation = { text: string } & (
+  | { kind: 'unchanged' | 'changed'; path: string }
+  | { kind: 'equals'; path: string; value: unknown }
+  | { kind: 'matches'; path: string; pattern: RegExp }
+  | { kind: 'color'; path: string; family: ColorFamily }
+  | { kind: 'code-includes'; value: string }
+);
+
+export interface ExpectationResult {
+  expectation: string;
+  passed: boolean;
+  detail?: string; // What was found instead, for failed expectations
+}
+
+export interface ExpectationSubject {
+  before: unknown;                // currentConfig
+  after: unknown;                 // Generated config
+  code?: Record<string, string>;  // Code per provider
+}
+
+const COLOR_WORDS: Record<string, ColorFamily> = {
+  red: 'red', reddish: 'red',
+  orange: 'orange', orangish: 'orange',
+  yellow: 'yellow', yellowish: 'yellow',
+  green: 'green', greenish: 'green',
+  teal: 'teal', cyan: 'teal',
+  blue: 'blue', bluish: 'blue', blueish: 'blue',
+  purple: 'purple', purplish: 'purple', violet: 'purple',
+  pink: 'pink', pinkish: 'pink',
+  gray: 'gray', grey: 'gray', grayish: 'gray', greyish: 'gray',
+  black: 'black', white: 'white'
+};
+
+// Upper hue bound of each chromatic family, in degrees; red also wraps around from 345
+const HUE_FAMILIES: [number, ColorFamily][] = [
+  [15, 'red'], [45, 'orange'], [70, 'yellow'], [165, 'green'], [190, 'teal'],
+  [255, 'blue'], [290, 'purple'], [345, 'pink'], [360, 'red']
+];
+
+/**
+ * The structured form of an expectation line, or an error message
+ */
+export function parseExpectation(text: string): Expectation | string {
+  const line = text.trim();
+
+  const code = /^code includes (.+)$/.exec(line);
+  if (code) return { text: line, kind: 'code-includes', value: code[1] };
+
+  const keyword = /^(\S+) (unchanged|changed)$/.exec(line);
+  if (keyword) return { text: line, kind: keyword[2] as 'unchanged' | 'changed', path: keyword[1] };
+
+  const color = /^(\S+) is (\w+)$/.exec(line);
+  if (color) {
+    const family = COLOR_WORDS[color[2].toLowerCase()];
+    if (!family) return `"${line}": unknown color "${color[2]}" (expected one of ${[...new Set(Object.values(COLOR_WORDS))].join(', ')})`;
+    return { text: line, kind: 'color', path: color[1], family };
+  }
+
+  const equals = /^(\S+) = (.+)$/.exec(line);
+  if (equals) {
+    try {
+      return { text: line, kind: 'equals', path: equals[1], value: JSON.parse(equals[2]) };
+    } catch {
+      return `"${line}": the value must be JSON, e.g. "Save" with quotes`;
+    }
+  }
+
+  const matches = /^(\S+) matches \/(.+)\/([a-z]*)$/.exec(line);
+  if (matches) {
+    try {
+      return { text: line, kind: 'matches', path: matches[1], pattern: new RegExp(matches[2], matches[3]) };
+    } catch (error: any) {
+      return `"${line}": ${error.message}`;
+    }
+  }
+
+  return `"${line}": expected "<path> unchanged", "<path> changed", "<path> is <color>", "<path> = <json>", "<path> matches /regex/" or "code includes <text>"`;
+}
+
+/**
+ * "root.children[0].config.label" -> the value at that path, or undefined
+ */
+function readPath(value: unknown, path: string): unknown {
+  return path.replace(/\[(\d+)\]/g, '.$1').split('.').reduce<any>(
+    (current, segment) => (current && typeof current === 'object' ? current[segment] : undefined),
+    value
+  );
+}
+
+/**
+ * Color family of a #RRGGBB color by its HSL hue, with near-black, near-white
+ * and unsaturated colors as black, white and gray
+ */
+export function getColorFamily(hex: string): ColorFamily {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+
+  if (lightness < 0.12) return 'black';
+  if (lightness > 0.92) return 'white';
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+  if (saturation < 0.15) return 'gray';
+
+  const hue = max === r ? (((g - b) / delta) % 6 + 6) % 6 * 60
+    : max === g ? ((b - r) / delta + 2) * 60
+    : ((r - g) / delta + 4) * 60;
+  return HUE_FAMILIES.find(([bound]) => hue < bound)![1];
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+export function checkExpectation(expectation: Expectation, subject: ExpectationSubject): ExpectationResult {
+  const result = (passed: boolean, detail: string): ExpectationResult =>
+    passed ? { expectation: expectation.text, passed } : { expectation: expectation.text, passed, detail };
+
+  if (expectation.kind === 'code-includes') {
+    if (!subject.code || Object.keys(subject.code).length === 0) return result(false, 'no code was generated');
+    const missing = Object.entries(subject.code)
+      .filter(([, code]) => !code.includes(expectation.value))
+      .map(([provider]) => provider);
+    return result(missing.length === 0, `missing in ${missing.join(', ')}`);
+  }
+
+  const actual = readPath(subject.after, expectation.path);
+  switch (expectation.kind) {
+    case 'unchanged':
+    case 'changed': {
+      const same = isDeepStrictEqual(actual, readPath(subject.before, expectation.path));
+      return result(same === (expectation.kind === 'unchanged'), `${describe(readPath(subject.before, expectation.path))} -> ${describe(actual)}`);
+    }
+    case 'equals':
+      return result(isDeepStrictEqual(actual, expectation.value), `found ${describe(actual)}`);
+    case 'matches':
+      return result(typeof actual === 'string' && expectation.pattern.test(actual), `found ${describe(actual)}`);
+    case 'color': {
+      if (typeof actual !== 'string' || !HEX_COLOR_PATTERN.test(actual)) return result(false, `found ${describe(actual)}, not a hex color`);
+      const family = getColorFamily(actual);
+      return result(family === expectation.family, `${actual} is ${family}`);
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import type { CaseResult, EvalSummary } from './runner.js';
+
+export interface EvalReport {
+  dataset: string;
+  model: string;      // Engine spec the run was started with, "default" for LLM_ENGINE
+  startedAt: string;
+  durationMs: number;
+  summary: EvalSummary;
+  cases: CaseResult[];
+  baseline?: BaselineComparison;
+}
+
+export type SummaryMetric = Exclude<keyof EvalSummary, 'cases' | 'passed'>;
+
+export interface MetricComparison {
+  run: number | null;
+  baseline: number | null;
+  delta: number | null;
+}
+
+export interface BaselineComparison {
+  startedAt: string;
+  model: string;
+  metrics: Record<SummaryMetric, MetricComparison>;
+  regressions: string[]; // Cases that passed in the baseline and fail now
+  fixes: string[];       // Cases that failed in the baseline and pass now
+}
+
+const METRICS: { key: SummaryMetric; label: string; percent: boolean; lowerIsBetter?: boolean }[] = [
+  { key: 'schemaValidRate', label: 'Schema validity', percent: true },
+  { key: 'firstTryRate', label: 'First-try success', percent: true },
+  { key: 'preservationRate', label: 'Unrelated fields preserved', percent: true },
+  { key: 'compileRate', label: 'Babel compile rate', percent: true },
+  { key: 'expectationPassRate', label: 'Expectations met', percent: true },
+  { key: 'avgAttempts', label: 'Average attempts', percent: false, lowerIsBetter: true },
+  { key: 'avgLatencyMs', label: 'Average latency (ms)', percent: false, lowerIsBetter: true }
+];
+
+/**
+ * Metric deltas and per-case changes against an earlier report. Cases are
+ * matched by id; cases only one of the runs has are left out.
+ */
+export function compareWithBaseline(report: EvalReport, baseline: EvalReport): BaselineComparison {
+  const metrics = Object.fromEntries(METRICS.map(({ key }) => {
+    const run = report.summary[key];
+    const previous = baseline.summary[key];
+    const delta = run === null || previous === null ? null : Math.round((run - previous) * 1000) / 1000;
+    return [key, { run, baseline: previous, delta }];
+  })) as Record<SummaryMetric, MetricComparison>;
+
+  const previousCases = new Map(baseline.cases.map(result => [result.id, result]));
+  const regressions: string[] = [];
+  const fixes: string[] = [];
+  for (const result of report.cases) {
+    const previous = previousCases.get(result.id);
+    if (!previous || previous.passed === result.passed) continue;
+    (result.passed ? fixes : regressions).push(result.id);
+  }
+
+  return { startedAt: baseline.startedAt, model: baseline.model, metrics, regressions, fixes };
+}
+
+function formatValue(value: number | null, percent: boolean): string {
+  if (value === null) return 'n/a';
+  return percent ? `${(value * 100).toFixed(1)}%` : String(value);
+}
+
+function formatDelta(delta: number | null, percent: boolean, lowerIsBetter = false): string {
+  if (delta === null) return '';
+  if (delta === 0) return '0';
+  const better = lowerIsBetter ? delta < 0 : delta > 0;
+  const value = percent ? `${(Math.abs(delta) * 100).toFixed(1)} pts` : String(Math.abs(delta));
+  return `${delta > 0 ? '+' : '-'}${value} (${better ? 'better' : 'worse'})`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function describeCompile(result: CaseResult): string {
+  if (!result.compile) return '–';
+  const total = result.compile.valid.length + Object.keys(result.compile.failed).length;
+  return `${result.compile.valid.length}/${total}`;
+}
+
+/**
+ * Human-readable report: summary (with deltas when compared), regressions,
+ * one row per case, then why each failed case failed
+ */
+export function renderMarkdown(report: EvalReport): string {
+  const { summary, baseline } = report;
+  const lines = [
+    `# Generation eval: ${report.dataset}`,
+    '',
+    `Model \`${report.model}\` · ${report.startedAt} · ${summary.passed}/${summary.cases} cases passed · ${(report.durationMs / 1000).toFixed(1)}s`,
+    ''
+  ];
+
+  if (baseline) {
+    lines.push(
+      `Compared with the run of ${baseline.startedAt} (\`${baseline.model}\`).`,
+      '',
+      '| Metric | Run | Baseline | Change |',
+      '| --- | --- | --- | --- |',
+      ...METRICS.map(({ key, label, percent, lowerIsBetter }) => {
+        const metric = baseline.metrics[key];
+        return `| ${label} | ${formatValue(metric.run, percent)} | ${formatValue(metric.baseline, percent)} | ${formatDelta(metric.delta, percent, lowerIsBetter)} |`;
+      }),
+      ''
+    );
+    if (baseline.regressions.length > 0) {
+      lines.push('## Regressions', '', ...baseline.regressions.map(id => `- ${id}`), '');
+    }
+    if (baseline.fixes.length > 0) {
+      lines.push('## Fixed', '', ...baseline.fixes.map(id => `- ${id}`), '');
+    }
+  } else {
+    lines.push(
+      '| Metric | Run |',
+      '| --- | --- |',
+      ...METRICS.map(({ key, label, percent }) => `| ${label} | ${formatValue(summary[key], percent)} |`),
+      ''
+    );
+  }
+
+  lines.push(
+    '## Cases',
+    '',
+    '| Case | Result | Valid | Attempts | Preserved | Compiled | Expectations | Prompt |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...report.cases.map(result => {
+      const met = result.expectations.filter(expectation => expectation.passed).length;
+      const preserved = result.preserved === null ? '–' : result.preserved ? 'yes' : 'no';
+      const prompt = result.promptTemplate ? `${result.promptTemplate}@${result.promptVersion}` : '–';
+      return `| ${result.id} | ${result.passed ? 'pass' : 'FAIL'} | ${result.schemaValid ? 'yes' : 'no'} | ${result.attempts} | ${preserved} | ${describeCompile(result)} | ${met}/${result.expectations.length} | ${prompt} |`;
+    }),
+    ''
+  );
+
+  const failures = report.cases.filter(result => !result.passed);
+  if (failures.length > 0) {
+    lines.push('## Failures', '');
+    for (const result of failures) {
+      lines.push(`### ${result.id}`, '', `> ${escapeCell(result.prompt)}`, '');
+      if (result.error) lines.push(`- Error: ${escapeCell(result.error)}`);
+      for (const detail of result.details ?? []) lines.push(`- ${escapeCell(detail)}`);
+      for (const change of result.unrelatedChanges ?? []) lines.push(`- Unrelated change: ${escapeCell(change)}`);
+      for (const [provider, errors] of Object.entries(result.compile?.failed ?? {})) {
+        lines.push(`- ${provider} does not compile: ${escapeCell((errors[0] ?? '').split('\n')[0])}${errors.length > 1 ? ` (+${errors.length - 1} more)` : ''}`);
+      }
+      // Without output every expectation fails for the reason above
+      const checked = result.schemaValid || result.compile ? result.expectations : [];
+      for (const expectation of checked.filter(expectation => !expectation.passed)) {
+        lines.push(`- Expected \`${expectation.expectation}\`: ${escapeCell(expectation.detail ?? '')}`);
+      }
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,124 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { loadDataset } from './dataset.js';
+import { runCase, summarize, CaseResult } from './runner.js';
+import { compareWithBaseline, renderMarkdown, EvalReport } from './report.js';
+
+/**
+ * Offline evaluation of config and code generation
+ *
+ *   npm run eval -- --dataset eval/datasets/components.json [options]
+ *
+ *   --model <spec>       engine to evaluate, e.g. "gemini:gemini-2.5-pro" or
+ *                        "fixture:eval" (default: LLM_ENGINE / LLM_MODEL)
+ *   --fixtures <dir>     fixture root for fixture engines (sets LLM_FIXTURE_DIR)
+ *   --record <engine>    record missing fixtures with this live engine
+ *   --out <dir>          where the JSON and Markdown reports go (default: eval/reports)
+ *   --baseline <file>    JSON report of an earlier run to compare with
+ *   --case <id>          only run this case; repeatable
+ *
+ * Cases run one after another through generateConfig, with the generation
+ * cache off. Prompt template versions follow PROMPT_SPLIT_*, keyed by case
+ * id, so pin a version there to evaluate it.
+ *
+ * fixtures/eval holds hand-written answers for every case of
+ * eval/datasets/components.json, so "--model fixture:eval" runs offline. Its
+ * files are keyed by the exact prompt: after changing a case or a prompt
+ * template, record the affected cases again with --record.
+ *
+ * Exits with 1 when a baseline is given and a case that passed in it fails now.
+ */
+
+const USAGE = 'Usage: npm run eval -- --dataset <file> [--model <spec>] [--fixtures <dir>] [--record <engine>] [--out <dir>] [--baseline <report.json>] [--case <id>]';
+
+function timestamp(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+function describeResult(result: CaseResult): string {
+  const outcome = result.passed ? 'pass' : 'FAIL';
+  const attempts = `${result.attempts} attempt${result.attempts === 1 ? '' : 's'}`;
+  const reason = result.error ?? result.expectations.find(expectation => !expectation.passed)?.expectation;
+  return `${outcome}  ${result.id} (${attempts}, ${result.latencyMs}ms)${!result.passed && reason ? `: ${reason}` : ''}`;
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: 'string' },
+      model: { type: 'string' },
+      fixtures: { type: 'string' },
+      record: { type: 'string' },
+      out: { type: 'string', default: path.join('eval', 'reports') },
+      baseline: { type: 'string' },
+      case: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help || !values.dataset) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  dotenv.config();
+  // Every case must reach the engine, and cached answers would hide prompt changes
+  process.env.GENERATION_CACHE = 'off';
+  if (values.fixtures) process.env.LLM_FIXTURE_DIR = values.fixtures;
+  if (values.record) process.env.LLM_FIXTURE_RECORD = values.record;
+  // The engine under test is chosen here, not by an API client
+  process.env.LLM_FIXTURES = 'on';
+  if (values.model) {
+    process.env.LLM_ALLOWED_MODELS = [process.env.LLM_ALLOWED_MODELS, values.model].filter(Boolean).join(',');
+  }
+
+  const dataset = await loadDataset(values.dataset);
+  const cases = values.case?.length ? dataset.cases.filter(evalCase => values.case!.includes(evalCase.id)) : dataset.cases;
+  const unknown = (values.case ?? []).filter(id => !dataset.cases.some(evalCase => evalCase.id === id));
+  if (unknown.length > 0) {
+    console.error(`Unknown cases: ${unknown.join(', ')}`);
+    return 1;
+  }
+  const baseline = values.baseline ? JSON.parse(await readFile(values.baseline, 'utf8')) as EvalReport : undefined;
+
+  const startedAt = new Date();
+  console.log(`Evaluating ${cases.length} cases of ${dataset.name} with ${values.model ?? 'the default engine'}`);
+  const results: CaseResult[] = [];
+  for (const evalCase of cases) {
+    const result = await runCase(evalCase, values.model);
+    results.push(result);
+    console.log(describeResult(result));
+  }
+
+  const report: EvalReport = {
+    dataset: dataset.name,
+    model: values.model ?? 'default',
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    summary: summarize(results),
+    cases: results
+  };
+  if (baseline) report.baseline = compareWithBaseline(report, baseline);
+
+  await mkdir(values.out, { recursive: true });
+  const file = path.join(values.out, `${dataset.name}-${timestamp(startedAt)}`);
+  await writeFile(`${file}.json`, JSON.stringify(report, null, 2));
+  await writeFile(`${file}.md`, renderMarkdown(report));
+
+  const { summary } = report;
+  console.log(`\n${summary.passed}/${summary.cases} cases passed. Reports: ${file}.json, ${file}.md`);
+  if (report.baseline?.regressions.length) {
+    console.log(`Regressions against ${values.baseline}: ${report.baseline.regressions.join(', ')}`);
+    return 1;
+  }
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
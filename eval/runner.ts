@@ -0,0 +1,251 @@
+import { generateConfig, GenerateConfigResponse } from '../services/aiService.js';
+import { exportTemplates, getExportProviders, renderConfigCode } from '../services/codeExportService.js';
+import { resolveComponent } from '../constants/componentRegistry.js';
+import { DEFAULT_PLAYGROUND_PROVIDERS } from '../constants/providerRegistry.js';
+import { validateCode, formatDiagnostic } from '../utils/codeValidator.js';
+import { findTokenReferences } from '../utils/themeTokens.js';
+import { checkExpectation, ExpectationResult } from './expectations.js';
+import type { EvalCase } from './dataset.js';
+
+export interface CompileResult {
+  valid: string[];                  // Providers whose code compiled and validated
+  failed: Record<string, string[]>; // Provider -> errors
+}
+
+export interface CaseResult {
+  id: string;
+  kind: 'config' | 'code';
+  componentName: string;
+  prompt: string;
+  schemaValid: boolean;       // Config: validated within the retries. Code: every provider returned code
+  attempts: number;
+  firstTry: boolean;          // Config: valid on the first attempt. Code: every provider compiled from the first answer
+  preserved: boolean | null;  // No changes to properties the prompt did not mention; null for code or invalid configs
+  unrelatedChanges?: string[];
+  compile: CompileResult | null; // Config: the export templates' code for the config; null when it references theme tokens
+  expectations: ExpectationResult[];
+  passed: boolean;            // Valid, compiled and every expectation held
+  latencyMs: number;
+  model?: string;
+  promptTemplate?: string;
+  promptVersion?: string;
+  error?: string;
+  details?: string[];
+}
+
+export interface EvalSummary {
+  cases: number;
+  passed: number;
+  schemaValidRate: number;
+  firstTryRate: number;
+  preservationRate: number | null;   // Among valid config cases
+  compileRate: number | null;        // Among every provider of every case with code
+  expectationPassRate: number | null;
+  avgAttempts: number;
+  avgLatencyMs: number;
+}
+
+function ratio(count: number, total: number): number | null {
+  return total === 0 ? null : Math.round((count / total) * 1000) / 1000;
+}
+
+/**
+ * Babel compile and validate each provider's code; `versions` are the library
+ * versions the code targets, the registry defaults otherwise
+ */
+function compile(code: Record<string, string>, versions: Record<string, string | undefined> = {}): CompileResult {
+  const result: CompileResult = { valid: [], failed: {} };
+  for (const [provider, source] of Object.entries(code)) {
+    const validation = validateCode(source, provider, versions[provider]);
+    if (validation.success) {
+      result.valid.push(provider);
+    } else {
+      result.failed[provider] = validation.diagnostics?.length
+        ? validation.diagnostics.map(formatDiagnostic)
+        : [validation.error || 'Validation failed'];
+    }
+  }
+  return result;
+}
+
+/**
+ * Code per requested provider from a playground answer; a bare string only
+ * counts for a single provider
+ */
+function getProviderCode(config: unknown, providers: string[]): Record<string, string> {
+  if (typeof config === 'string' && providers.length === 1) return { [providers[0]]: config };
+  if (!config || typeof config !== 'object') return {};
+  return Object.fromEntries(
+    providers
+      .map(provider => [provider, (config as Record<string, unknown>)[provider]])
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].trim() !== '')
+  );
+}
+
+/**
+ * Expectations of a case without output: all unmet, for one reason
+ */
+function unmet(evalCase: EvalCase, detail: string): ExpectationResult[] {
+  return evalCase.expectations.map(expectation => ({ expectation: expectation.text, passed: false, detail }));
+}
+
+function failure(evalCase: EvalCase, kind: CaseResult['kind'], error: string): CaseResult {
+  return {
+    id: evalCase.id,
+    kind,
+    componentName: evalCase.componentName,
+    prompt: evalCase.prompt,
+    schemaValid: false,
+    attempts: 0,
+    firstTry: false,
+    preserved: null,
+    compile: null,
+    expectations: unmet(evalCase, error),
+    passed: false,
+    latencyMs: 0,
+    error
+  };
+}
+
+function describeOutcome(result: GenerateConfigResponse): Pick<CaseResult, 'model' | 'promptTemplate' | 'promptVersion' | 'error' | 'details'> {
+  return {
+    model: result.model,
+    promptTemplate: result.promptTemplate,
+    promptVersion: result.promptVersion,
+    ...(result.success ? {} : { error: result.error, details: result.details })
+  };
+}
+
+/**
+ * Config case: generate with the change guard flagging unrelated changes,
+ * then render the config with every export template and compile it
+ */
+async function runConfigCase(evalCase: EvalCase, model?: string): Promise<CaseResult> {
+  const component = resolveComponent(evalCase.componentName);
+  if (!component) return failure(evalCase, 'config', `Component "${evalCase.componentName}" is not supported`);
+
+  const currentConfig = evalCase.currentConfig ?? component.defaultConfig;
+  const startedAt = Date.now();
+  const result = await generateConfig({
+    componentName: component.id,
+    prompt: evalCase.prompt,
+    currentConfig,
+    model,
+    changeGuard: 'flag',
+    noCache: true,
+    variantKey: evalCase.id
+  });
+  const latencyMs = Date.now() - startedAt;
+
+  let code: Record<string, string> | null = null;
+  if (result.success && findTokenReferences(result.config).length === 0) {
+    code = Object.fromEntries(getExportProviders().map(provider => [provider, renderConfigCode(component, result.config, provider)]));
+  }
+  const compiled = code && compile(code, Object.fromEntries(Object.keys(code).map(provider => [provider, exportTemplates[provider].version])));
+  const expectations = result.success
+    ? evalCase.expectations.map(expectation =>
+        checkExpectation(expectation, { before: currentConfig, after: result.config, code: code ?? undefined }))
+    : unmet(evalCase, 'no valid config was generated');
+
+  return {
+    id: evalCase.id,
+    kind: 'config',
+    componentName: component.id,
+    prompt: evalCase.prompt,
+    schemaValid: result.success,
+    attempts: result.attempts ?? 0,
+    firstTry: result.success && result.attempts === 1,
+    preserved: result.success ? !result.unrelatedChanges?.length : null,
+    ...(result.unrelatedChanges?.length ? { unrelatedChanges: result.unrelatedChanges } : {}),
+    compile: compiled,
+    expectations,
+    passed: result.success &&
+      (!compiled || Object.keys(compiled.failed).length === 0) &&
+      expectations.every(expectation => expectation.passed),
+    latencyMs,
+    ...describeOutcome(result)
+  };
+}
+
+/**
+ * Playground case: a single generation without repair rounds, so the compile
+ * rate is the model's own
+ */
+async function runCodeCase(evalCase: EvalCase, model?: string): Promise<CaseResult> {
+  const providers = evalCase.providers ?? DEFAULT_PLAYGROUND_PROVIDERS;
+  const startedAt = Date.now();
+  const result = await generateConfig({
+    componentName: 'playground',
+    prompt: evalCase.prompt,
+    providers,
+    model,
+    noCache: true,
+    variantKey: evalCase.id
+  });
+  const latencyMs = Date.now() - startedAt;
+
+  const code = result.success ? getProviderCode(result.config, providers) : {};
+  const schemaValid = result.success && Object.keys(code).length === providers.length;
+  const compiled = result.success ? compile(code) : null;
+  const allCompiled = schemaValid && compiled !== null && compiled.valid.length === providers.length;
+  const expectations = result.success
+    ? evalCase.expectations.map(expectation => checkExpectation(expectation, { before: undefined, after: code, code }))
+    : unmet(evalCase, 'no code was generated');
+
+  return {
+    id: evalCase.id,
+    kind: 'code',
+    componentName: 'playground',
+    prompt: evalCase.prompt,
+    schemaValid,
+    attempts: result.success ? 1 : 0,
+    firstTry: allCompiled,
+    preserved: null,
+    compile: compiled && {
+      ...compiled,
+      failed: {
+        ...Object.fromEntries(providers.filter(provider => !(provider in code)).map(provider => [provider, [`No code was generated for ${provider}`]])),
+        ...compiled.failed
+      }
+    },
+    expectations,
+    passed: allCompiled && expectations.every(expectation => expectation.passed),
+    latencyMs,
+    ...describeOutcome(result)
+  };
+}
+
+/**
+ * Run one case; engine errors are reported as a failed case so a run always
+ * covers the whole dataset
+ */
+export async function runCase(evalCase: EvalCase, model?: string): Promise<CaseResult> {
+  const kind = evalCase.componentName === 'playground' ? 'code' : 'config';
+  try {
+    return kind === 'code' ? await runCodeCase(evalCase, model) : await runConfigCase(evalCase, model);
+  } catch (error: any) {
+    return failure(evalCase, kind, error.message);
+  }
+}
+
+export function summarize(results: CaseResult[]): EvalSummary {
+  const validConfigs = results.filter(result => result.kind === 'config' && result.schemaValid);
+  const compiled = results.flatMap(result => (result.compile ? [result.compile] : []));
+  const expectations = results.flatMap(result => result.expectations);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+  return {
+    cases: results.length,
+    passed: results.filter(result => result.passed).length,
+    schemaValidRate: ratio(results.filter(result => result.schemaValid).length, results.length) ?? 0,
+    firstTryRate: ratio(results.filter(result => result.firstTry).length, results.length) ?? 0,
+    preservationRate: ratio(validConfigs.filter(result => result.preserved).length, validConfigs.length),
+    compileRate: ratio(
+      sum(compiled.map(result => result.valid.length)),
+      sum(compiled.map(result => result.valid.length + Object.keys(result.failed).length))
+    ),
+    expectationPassRate: ratio(expectations.filter(expectation => expectation.passed).length, expectations.length),
+    avgAttempts: results.length ? Math.round((sum(results.map(result => result.attempts)) / results.length) * 100) / 100 : 0,
+    avgLatencyMs: results.length ? Math.round(sum(results.map(result => result.latencyMs)) / results.length) : 0
+  };
+}
@@ -0,0 +1,86 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, RequestHandler } from 'express';
+import { authenticateApiKey, hashApiKey } from '../services/apiKeyService.js';
+import { sendError } from '../utils/apiResponse.js';
+
+/**
+ * Authentication
+ *
+ * Per deployment:
+ *   API_AUTH       required | off (default: required). With "off" every
+ *                  request works in the "default" workspace, for local dev.
+ *   ADMIN_API_KEY  key of the /api/admin routes (sent as X-Admin-Key); the
+ *                  admin routes are disabled when unset
+ *
+ * Workspace keys are issued by POST /api/admin/keys and sent as X-API-Key or
+ * "Authorization: Bearer <key>".
+ */
+
+export interface RequestAuth {
+  workspaceId: string;
+  keyId: string | null; // null when API_AUTH is off
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: RequestAuth;
+    }
+  }
+}
+
+export function isAuthRequired(): boolean {
+  return (process.env.API_AUTH || 'required').toLowerCase() !== 'off';
+}
+
+/**
+ * The API key of a request, from X-API-Key or a bearer token
+ */
+export function readApiKey(req: Request): string | undefined {
+  const header = req.get('X-API-Key')?.trim();
+  if (header) return header;
+
+  const [scheme, token] = (req.get('Authorization') ?? '').trim().split(/\s+/);
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+}
+
+/**
+ * Resolve the request's workspace from its API key; 401 without an active key
+ */
+export const requireApiKey: RequestHandler = async (req, res, next) => {
+  if (!isAuthRequired()) return next();
+
+  const key = readApiKey(req);
+  if (!key) {
+    return sendError(res, 401, 'API key required: send it as X-API-Key or "Authorization: Bearer <key>"');
+  }
+
+  try {
+    const auth = await authenticateApiKey(key);
+    if (!auth) {
+      return sendError(res, 401, 'Unknown or revoked API key');
+    }
+    req.auth = auth;
+    return next();
+  } catch (error) {
+    console.error('Error authenticating API key:', error);
+    return sendError(res, 500, 'Internal server error');
+  }
+};
+
+/**
+ * Admin routes: X-Admin-Key must match ADMIN_API_KEY
+ */
+export const requireAdminKey: RequestHandler = (req, res, next) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return sendError(res, 403, 'Admin API is disabled: ADMIN_API_KEY is not set');
+  }
+
+  // Comparing hashes keeps the comparison constant-time whatever the lengths
+  const given = Buffer.from(hashApiKey(req.get('X-Admin-Key') ?? ''), 'hex');
+  if (!timingSafeEqual(given, Buffer.from(hashApiKey(adminKey), 'hex'))) {
+    return sendError(res, 403, 'Admin key required');
+  }
+  return next();
+};
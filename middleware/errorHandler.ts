@@ -0,0 +1,26 @@
+import { ErrorRequestHandler, RequestHandler } from 'express';
+import { sendError } from '../utils/apiResponse.js';
+
+/**
+ * Unknown /api routes get the error envelope instead of Express's HTML page
+ */
+export const notFoundHandler: RequestHandler = (req, res) => {
+  sendError(res, 404, `Route ${req.method} ${req.originalUrl} not found`);
+};
+
+/**
+ * Errors thrown outside the controllers' try/catch, e.g. a malformed JSON body
+ */
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+
+  if (error?.type === 'entity.parse.failed') {
+    return sendError(res, 400, 'Request body is not valid JSON', { code: 'INVALID_JSON' });
+  }
+  if (typeof error?.status === 'number' && error.status >= 400 && error.status < 500) {
+    return sendError(res, error.status, error.message || 'Bad request');
+  }
+
+  console.error('Unhandled error:', error);
+  return sendError(res, 500, 'Internal server error');
+};
@@ -0,0 +1,93 @@
+import { Request, RequestHandler } from 'express';
+import {
+  RateLimitBudget,
+  estimateCostUsd,
+  getBucketPolicy,
+  getDailyQuota
+} from '../constants/rateLimits.js';
+import { getRateLimitStore } from '../services/rateLimitStore.js';
+import { sendError } from '../utils/apiResponse.js';
+import { runWithUsageMeter } from '../utils/usageMeter.js';
+
+interface ClientIdentity {
+  scope: 'ip' | 'key';
+  id: string; // "ip:<address>" or "key:<api key id>"
+}
+
+/**
+ * The IP, plus the API key the request authenticated with (see apiKeyAuth)
+ */
+function getIdentities(req: Request): ClientIdentity[] {
+  const identities: ClientIdentity[] = [{ scope: 'ip', id: `ip:${req.ip ?? 'unknown'}` }];
+  if (req.auth?.keyId) {
+    identities.push({ scope: 'key', id: `key:${req.auth.keyId}` });
+  }
+  return identities;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+/**
+ * Token-bucket limit of a generation budget per IP and API key, plus the
+ * daily token / cost quota shared by every budget. Refused requests get 429
+ * with Retry-After in seconds. The model usage of an admitted request is
+ * metered while it runs and charged to each identity once it has ended.
+ *
+ * Limits fail open: a store error is logged and the request goes through.
+ */
+export function rateLimit(budget: RateLimitBudget): RequestHandler {
+  return async (req, res, next) => {
+    const store = getRateLimitStore();
+    const identities = getIdentities(req);
+    const now = Date.now();
+    const day = utcDay(now);
+
+    try {
+      const quota = getDailyQuota();
+      if (quota.tokens > 0 || quota.costUsd > 0) {
+        const usages = await Promise.all(identities.map(identity => store.getUsage(identity.id, day)));
+        const exceeded = usages.some(usage =>
+          (quota.tokens > 0 && usage.tokens >= quota.tokens) ||
+          (quota.costUsd > 0 && usage.costUsd >= quota.costUsd)
+        );
+        if (exceeded) {
+          res.set('Retry-After', String(secondsUntilUtcMidnight(now)));
+          return sendError(res, 429, 'Daily generation quota exceeded', { code: 'QUOTA_EXCEEDED' });
+        }
+      }
+
+      const results = await Promise.all(identities.map(identity =>
+        store.takeToken(`${budget}:${identity.id}`, getBucketPolicy(budget, identity.scope), now)
+      ));
+      const refused = results.filter(result => !result.allowed);
+      if (refused.length > 0) {
+        const retryAfterMs = Math.max(...refused.map(result => result.retryAfterMs));
+        res.set('Retry-After', String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+        return sendError(res, 429, `Too many ${budget} generation requests, slow down`, { code: 'RATE_LIMITED' });
+      }
+    } catch (error) {
+      console.error('Rate limit store error:', error);
+    }
+
+    let charged = false;
+    const usage = runWithUsageMeter(estimateCostUsd, () => next());
+
+    const charge = () => {
+      if (charged) return;
+      charged = true;
+      if (usage.tokens === 0 && usage.costUsd === 0) return;
+      Promise.all(identities.map(identity => store.addUsage(identity.id, day, usage)))
+        .catch(error => console.error('Failed to record generation usage:', error));
+    };
+    res.once('finish', charge);
+    res.once('close', charge);
+  };
+}
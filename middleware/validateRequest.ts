@@ -0,0 +1,78 @@
+import { Request, RequestHandler } from 'express';
+import { z } from 'zod';
+import type { ApiRoute } from '../contracts/common.js';
+import { sendError } from '../utils/apiResponse.js';
+
+type Output<T> = T extends z.ZodType ? z.output<T> : Record<string, never>;
+
+/**
+ * Request whose params, query and body have been parsed by the route's schemas
+ */
+export type ValidatedRequest<R extends ApiRoute> = Request<Output<R['params']>, unknown, Output<R['body']>, Output<R['query']>>;
+
+interface RequestIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+/**
+ * A type mismatch at the union member's root: the input was meant for another member
+ */
+function isOtherMember(branch: z.core.$ZodIssue[]): boolean {
+  return branch.every(issue => issue.path.length === 0 && (issue.code === 'invalid_type' || issue.code === 'invalid_value'));
+}
+
+/**
+ * Issues with full paths. A failed union reports the issues of the members
+ * the input was meant for (e.g. the object member for an object) rather than
+ * a bare "Invalid input".
+ */
+function flattenIssues(issues: z.core.$ZodIssue[], basePath: PropertyKey[] = []): RequestIssue[] {
+  return issues.flatMap(issue => {
+    const path = [...basePath, ...issue.path];
+    if (issue.code === 'invalid_union') {
+      const members = issue.errors.filter(branch => !isOtherMember(branch));
+      if (members.length > 0) return members.flatMap(branch => flattenIssues(branch, path));
+    }
+    return [{ path, message: issue.message }];
+  });
+}
+
+/**
+ * Parse a request against its route contract. The parsed values replace
+ * req.params, req.query and req.body; a mismatch is answered with a 400
+ * VALIDATION_ERROR listing every issue.
+ */
+export function validateRequest<R extends ApiRoute>(
+  route: R
+): RequestHandler<Output<R['params']>, unknown, Output<R['body']>, Output<R['query']>> {
+  return (req, res, next) => {
+    const details: string[] = [];
+    let firstMessage: string | undefined;
+
+    const parse = (part: 'params' | 'query' | 'body', schema: z.ZodType | undefined, value: unknown) => {
+      if (!schema) return value;
+      // An empty or missing body is validated as {} so required fields get named
+      const result = schema.safeParse(part === 'body' ? value ?? {} : value);
+      if (result.success) return result.data;
+      const issues = flattenIssues(result.error.issues);
+      firstMessage ??= issues[0]?.message;
+      details.push(...issues.map(issue => `${[part, ...issue.path.map(String)].join('.')}: ${issue.message}`));
+      return value;
+    };
+
+    const params = parse('params', route.params, req.params);
+    const query = parse('query', route.query, req.query);
+    const body = parse('body', route.body, req.body);
+
+    if (details.length > 0) {
+      return sendError(res, 400, firstMessage ?? 'Invalid request', { code: 'VALIDATION_ERROR', details });
+    }
+
+    req.params = params as Output<R['params']>;
+    // Express 5 exposes req.query through a getter, so shadow it on the request
+    Object.defineProperty(req, 'query', { value: query, writable: true, configurable: true, enumerable: true });
+    req.body = body as Output<R['body']>;
+    next();
+  };
+}
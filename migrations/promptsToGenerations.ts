@@ -0,0 +1,141 @@
+import mongoose from 'mongoose';
+import { parseArgs } from 'util';
+import DatabaseService from '../services/database.service.js';
+import Generation, { IGeneration } from '../models/generation.model.js';
+import { componentRegistry, validateComponentConfig } from '../constants/componentRegistry.js';
+
+/**
+ * Copy the `prompts` collection into the generation history
+ *
+ *   npm run migrate:prompts [-- --dry-run]
+ *
+ * Before the history API, each successful config generation was saved as a
+ * `Prompt` holding only the prompt and the stringified configs. Every Prompt
+ * becomes a config Generation with the same _id and timestamps, in the
+ * "default" workspace and a session of its own ("legacy-<id>"). Prompts did
+ * not record their component, so it is inferred from the config's shape, or
+ * "unknown" when that is ambiguous.
+ *
+ * Running it again skips Prompts that were already copied. The `prompts`
+ * collection is left in place; drop it once the copy is checked.
+ */
+
+const LEGACY_WORKSPACE_ID = 'default';
+const UNKNOWN_COMPONENT = 'unknown';
+const BATCH_SIZE = 500;
+
+interface LegacyPrompt {
+  _id: mongoose.Types.ObjectId;
+  prompt: string;
+  responseConfig: string;
+  currentConfig: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+function parseConfig(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function keyPaths(value: unknown, prefix = ''): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return prefix ? [prefix] : [];
+  return Object.entries(value).flatMap(([key, child]) => keyPaths(child, prefix ? `${prefix}.${key}` : key));
+}
+
+/**
+ * Component schemas accept unknown keys, so several may validate a config.
+ * Among those, the one whose default config shares most of its key paths
+ * (Jaccard similarity) wins; a tie leaves the component unknown.
+ */
+function inferComponent(config: unknown): string {
+  const paths = new Set(keyPaths(config));
+  const scored = Object.values(componentRegistry)
+    .filter(entry => validateComponentConfig(entry, config).success)
+    .map(entry => {
+      const defaults = new Set(keyPaths(entry.defaultConfig));
+      const shared = [...paths].filter(path => defaults.has(path)).length;
+      return { id: entry.id, score: shared / (paths.size + defaults.size - shared || 1) };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scored;
+  return best && best.score > 0 && best.score !== runnerUp?.score ? best.id : UNKNOWN_COMPONENT;
+}
+
+type MigratedGeneration = IGeneration & { _id: mongoose.Types.ObjectId };
+
+function toGeneration(prompt: LegacyPrompt): MigratedGeneration {
+  const config = parseConfig(prompt.responseConfig);
+  const currentConfig = parseConfig(prompt.currentConfig);
+  const createdAt = prompt.createdAt ?? prompt._id.getTimestamp();
+
+  return {
+    _id: prompt._id,
+    workspaceId: LEGACY_WORKSPACE_ID,
+    sessionId: `legacy-${prompt._id}`,
+    parentId: null,
+    kind: 'config',
+    componentName: inferComponent(config),
+    prompt: prompt.prompt,
+    providers: [],
+    currentConfig,
+    config,
+    // Prompts were only saved for validated results; attempts and latency were not kept
+    success: true,
+    attempts: 0,
+    validationErrors: [],
+    latencyMs: 0,
+    cached: false,
+    createdAt,
+    updatedAt: prompt.updatedAt ?? createdAt
+  };
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({ options: { 'dry-run': { type: 'boolean' } } });
+  const dryRun = Boolean(values['dry-run']);
+
+  await DatabaseService.connect();
+  const prompts = mongoose.connection.collection<LegacyPrompt>('prompts');
+
+  let copied = 0;
+  let skipped = 0;
+  let unknown = 0;
+  let batch: MigratedGeneration[] = [];
+
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const existing = await Generation.find({ _id: { $in: batch.map(generation => generation._id) } }).select('_id').lean();
+    const copiedIds = new Set(existing.map(generation => String(generation._id)));
+    const missing = batch.filter(generation => !copiedIds.has(String(generation._id)));
+    skipped += batch.length - missing.length;
+    // Raw inserts keep the original timestamps
+    if (!dryRun && missing.length > 0) await Generation.collection.insertMany(missing, { ordered: false });
+    copied += missing.length;
+    batch = [];
+  };
+
+  for await (const prompt of prompts.find().sort({ _id: 1 })) {
+    const generation = toGeneration(prompt);
+    if (generation.componentName === UNKNOWN_COMPONENT) unknown++;
+    batch.push(generation);
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  console.log(`${dryRun ? 'Would copy' : 'Copied'} ${copied} prompts into the generation history; ${skipped} were already there, ${unknown} with an unknown component`);
+  await DatabaseService.disconnect();
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
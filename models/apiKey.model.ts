@@ -0,0 +1,46 @@
+import mongoose from "mongoose";
+
+/**
+ * API key of a workspace. Only the SHA-256 hash of the key is stored.
+ */
+export interface IApiKey {
+    workspaceId: string;
+    name: string;
+    keyHash: string;
+    prefix: string;              // First characters of the key, shown in listings
+    lastUsedAt: Date | null;
+    revokedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ApiKeySchema = new mongoose.Schema<IApiKey>({
+    workspaceId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    name: {
+        type: String,
+        default: "",
+    },
+    keyHash: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    prefix: {
+        type: String,
+        required: true,
+    },
+    lastUsedAt: {
+        type: Date,
+        default: null,
+    },
+    revokedAt: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: true });
+
+export default mongoose.model<IApiKey>("ApiKey", ApiKeySchema);
@@ -0,0 +1,53 @@
+import mongoose from "mongoose";
+
+/**
+ * A starred config generation, shown to the model as a few-shot example.
+ * The prompt and config are copied so the example outlives its history entry.
+ */
+export interface IExample {
+    workspaceId: string;
+    generationId: mongoose.Types.ObjectId;
+    componentName: string;          // Registry id
+    prompt: string;
+    config: unknown;                // Validated config the prompt produced
+    note?: string;                  // Why it was starred
+    model?: string;                 // Engine id that generated it
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ExampleSchema = new mongoose.Schema<IExample>({
+    workspaceId: {
+        type: String,
+        required: true,
+    },
+    generationId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Generation",
+        required: true,
+    },
+    componentName: {
+        type: String,
+        required: true,
+    },
+    prompt: {
+        type: String,
+        required: true,
+    },
+    config: {
+        type: mongoose.Schema.Types.Mixed,
+        required: true,
+    },
+    note: {
+        type: String,
+    },
+    model: {
+        type: String,
+    },
+}, { timestamps: true, minimize: false });
+
+// A generation is starred once per workspace
+ExampleSchema.index({ workspaceId: 1, generationId: 1 }, { unique: true });
+ExampleSchema.index({ workspaceId: 1, componentName: 1, createdAt: -1 });
+
+export default mongoose.model<IExample>("Example", ExampleSchema);
@@ -0,0 +1,87 @@
+import mongoose from "mongoose";
+import type { GenerationKind } from "./generation.model.js";
+
+export type FeedbackRating = "up" | "down";
+
+export type FeedbackReason =
+    | "wrong-color"
+    | "unrelated-change"
+    | "did-not-compile"
+    | "inconsistent-across-libraries"
+    | "other";
+
+/**
+ * A user's verdict on a generation. What the generation was (component,
+ * providers, model, prompt template) is copied so feedback can be broken
+ * down without joining the history.
+ */
+export interface IFeedback {
+    workspaceId: string;
+    generationId: mongoose.Types.ObjectId;
+    rating: FeedbackRating;
+    reason?: FeedbackReason;        // Why a generation got thumbs down
+    comment?: string;
+    correctedConfig?: unknown;      // What the config should have been (config generations)
+    kind: GenerationKind;
+    componentName: string;
+    providers: string[];            // Providers the feedback is about: the one named, or every provider of the generation
+    model?: string;
+    promptTemplate?: string;
+    promptVersion?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const FeedbackSchema = new mongoose.Schema<IFeedback>({
+    workspaceId: {
+        type: String,
+        required: true,
+    },
+    generationId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Generation",
+        required: true,
+        index: true,
+    },
+    rating: {
+        type: String,
+        enum: ["up", "down"],
+        required: true,
+    },
+    reason: {
+        type: String,
+        enum: ["wrong-color", "unrelated-change", "did-not-compile", "inconsistent-across-libraries", "other"],
+    },
+    comment: {
+        type: String,
+    },
+    correctedConfig: {
+        type: mongoose.Schema.Types.Mixed,
+    },
+    kind: {
+        type: String,
+        enum: ["config", "code"],
+        required: true,
+    },
+    componentName: {
+        type: String,
+        required: true,
+    },
+    providers: {
+        type: [String],
+        default: [],
+    },
+    model: {
+        type: String,
+    },
+    promptTemplate: {
+        type: String,
+    },
+    promptVersion: {
+        type: String,
+    },
+}, { timestamps: true });
+
+FeedbackSchema.index({ workspaceId: 1, createdAt: -1 });
+
+export default mongoose.model<IFeedback>("Feedback", FeedbackSchema);
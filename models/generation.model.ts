@@ -0,0 +1,104 @@
+import mongoose from "mongoose";
+
+export type GenerationKind = "config" | "code";
+
+export interface IGeneration {
+    workspaceId: string;            // Workspace of the API key that made it; "default" without auth
+    sessionId: string;
+    parentId?: mongoose.Types.ObjectId | null; // Generation this one iterated on (config generation)
+    kind: GenerationKind;
+    componentName: string;          // Registry id, or "playground" for code generation
+    prompt: string;
+    providers: string[];            // Playground providers that were requested
+    currentConfig?: unknown;        // Config the user sent in (config generation)
+    config?: unknown;               // Validated structured config
+    code?: Record<string, string>;  // Validated code per provider
+    success: boolean;
+    attempts: number;
+    validationErrors: string[];
+    latencyMs: number;
+    cached?: boolean;               // Served from the generation cache; attempts are the original's, latency is the lookup
+    model?: string;                 // Engine id, e.g. "gemini:gemini-2.5-flash"
+    promptTemplate?: string;        // Prompt template that was rendered: "config", "patch" or "playground"
+    promptVersion?: string;         // Its version, e.g. "v1"
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const GenerationSchema = new mongoose.Schema<IGeneration>({
+    workspaceId: {
+        type: String,
+        required: true,
+    },
+    sessionId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    parentId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Generation",
+        default: null,
+        index: true,
+    },
+    kind: {
+        type: String,
+        enum: ["config", "code"],
+        required: true,
+    },
+    componentName: {
+        type: String,
+        required: true,
+    },
+    prompt: {
+        type: String,
+        required: true,
+    },
+    providers: {
+        type: [String],
+        default: [],
+    },
+    currentConfig: {
+        type: mongoose.Schema.Types.Mixed,
+    },
+    config: {
+        type: mongoose.Schema.Types.Mixed,
+    },
+    code: {
+        type: mongoose.Schema.Types.Mixed,
+    },
+    success: {
+        type: Boolean,
+        required: true,
+    },
+    attempts: {
+        type: Number,
+        default: 0,
+    },
+    validationErrors: {
+        type: [String],
+        default: [],
+    },
+    latencyMs: {
+        type: Number,
+        required: true,
+    },
+    cached: {
+        type: Boolean,
+        default: false,
+    },
+    model: {
+        type: String,
+    },
+    promptTemplate: {
+        type: String,
+    },
+    promptVersion: {
+        type: String,
+    },
+}, { timestamps: true });
+
+GenerationSchema.index({ workspaceId: 1, sessionId: 1, createdAt: -1 });
+GenerationSchema.index({ workspaceId: 1, promptTemplate: 1, createdAt: -1 });
+
+export default mongoose.model<IGeneration>("Generation", GenerationSchema);
@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+/**
+ * Validated generation result, keyed by the hash of the request that produced it
+ */
+export interface IGenerationCacheEntry {
+    key: string;        // SHA-256 of the normalized request, model id and prompt template version
+    kind: string;       // "config" or "code"
+    value: unknown;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const GenerationCacheEntrySchema = new mongoose.Schema<IGenerationCacheEntry>({
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    kind: {
+        type: String,
+        required: true,
+    },
+    value: {
+        type: mongoose.Schema.Types.Mixed,
+        required: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+}, { timestamps: true, minimize: false });
+
+GenerationCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IGenerationCacheEntry>("GenerationCacheEntry", GenerationCacheEntrySchema);
@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+
+/**
+ * Token bucket of one client identity and budget, shared by every server instance
+ */
+export interface IRateLimitBucket {
+    key: string;         // "<budget>:ip:<address>" or "<budget>:key:<api key id>"
+    tokens: number;      // Tokens left at refilledAt
+    refilledAt: Date;
+    allowed: boolean;    // Whether the last request got a token
+    expiresAt: Date;     // A full bucket is the same as no bucket, so idle ones are dropped
+}
+
+const RateLimitBucketSchema = new mongoose.Schema<IRateLimitBucket>({
+    key: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    tokens: {
+        type: Number,
+        required: true,
+    },
+    refilledAt: {
+        type: Date,
+        required: true,
+    },
+    allowed: {
+        type: Boolean,
+        default: true,
+    },
+    expiresAt: {
+        type: Date,
+        required: true,
+    },
+});
+
+RateLimitBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimitBucket>("RateLimitBucket", RateLimitBucketSchema);
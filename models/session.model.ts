@@ -0,0 +1,37 @@
+import mongoose from "mongoose";
+
+/**
+ * Current position in a session's iteration tree, one per component
+ */
+export interface ISession {
+    workspaceId: string;
+    sessionId: string;
+    componentName: string;
+    headId: mongoose.Types.ObjectId | null; // Generation the next prompt builds on
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SessionSchema = new mongoose.Schema<ISession>({
+    workspaceId: {
+        type: String,
+        required: true,
+    },
+    sessionId: {
+        type: String,
+        required: true,
+    },
+    componentName: {
+        type: String,
+        required: true,
+    },
+    headId: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Generation",
+        default: null,
+    },
+}, { timestamps: true });
+
+SessionSchema.index({ workspaceId: 1, sessionId: 1, componentName: 1 }, { unique: true });
+
+export default mongoose.model<ISession>("Session", SessionSchema);
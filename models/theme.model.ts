@@ -0,0 +1,40 @@
+import mongoose from "mongoose";
+import type { ThemeTokens } from "../validators/themeValidator.js";
+
+export interface ITheme {
+    workspaceId: string;
+    name: string;
+    description?: string;
+    tokens: ThemeTokens;
+    prompt?: string;    // Text the theme was generated from, if any
+    model?: string;     // Engine id that generated it
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ThemeSchema = new mongoose.Schema<ITheme>({
+    workspaceId: {
+        type: String,
+        required: true,
+        index: true,
+    },
+    name: {
+        type: String,
+        required: true,
+    },
+    description: {
+        type: String,
+    },
+    tokens: {
+        type: mongoose.Schema.Types.Mixed,
+        required: true,
+    },
+    prompt: {
+        type: String,
+    },
+    model: {
+        type: String,
+    },
+}, { timestamps: true, minimize: false });
+
+export default mongoose.model<ITheme>("Theme", ThemeSchema);
@@ -0,0 +1,38 @@
+import mongoose from "mongoose";
+
+/**
+ * Model usage of one client identity on one UTC day
+ */
+export interface IUsageQuota {
+    key: string;      // "ip:<address>" or "key:<api key id>"
+    day: string;      // YYYY-MM-DD (UTC)
+    tokens: number;
+    costUsd: number;  // Estimated, see constants/rateLimits
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const UsageQuotaSchema = new mongoose.Schema<IUsageQuota>({
+    key: {
+        type: String,
+        required: true,
+    },
+    day: {
+        type: String,
+        required: true,
+    },
+    tokens: {
+        type: Number,
+        default: 0,
+    },
+    costUsd: {
+        type: Number,
+        default: 0,
+    },
+}, { timestamps: true });
+
+UsageQuotaSchema.index({ key: 1, day: 1 }, { unique: true });
+// Only today's usage is ever read; keep a couple of days for inspection
+UsageQuotaSchema.index({ createdAt: 1 }, { expireAfterSeconds: 3 * 24 * 60 * 60 });
+
+export default mongoose.model<IUsageQuota>("UsageQuota", UsageQuotaSchema);
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { createApiKeyHandler, listApiKeysHandler, revokeApiKeyHandler } from '../controllers/adminController.js';
+import { adminApi } from '../contracts/admin.js';
+import { requireAdminKey } from '../middleware/apiKeyAuth.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+
+const router = Router();
+
+// Every admin route needs X-Admin-Key (ADMIN_API_KEY)
+router.use(requireAdminKey);
+
+// POST /api/admin/keys (issue a workspace API key)
+router.post('/keys', validateRequest(adminApi.createApiKey), createApiKeyHandler);
+
+// GET /api/admin/keys?workspaceId=...
+router.get('/keys', validateRequest(adminApi.listApiKeys), listApiKeysHandler);
+
+// DELETE /api/admin/keys/:id (revoke)
+router.delete('/keys/:id', validateRequest(adminApi.revokeApiKey), revokeApiKeyHandler);
+
+export default router;
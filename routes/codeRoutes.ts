@@ -1,9 +1,31 @@
 import { Router } from 'express';
-import { generateComponentCode } from '../controllers/codeController.js';
+import { generateComponentCode, streamComponentCode } from '../controllers/codeController.js';
+import { codeApi } from '../contracts/code.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+import { rateLimit } from '../middleware/rateLimit.js';
 
 const router = Router();
 
-// POST /api/code/generate
-router.post('/generate', generateComponentCode);
+/**
+ * POST /api/code/generate
+ *
+ * Request body:
+ * {
+ *   prompt: string,
+ *   prevCode?: string | object,
+ *   model?: string,
+ *   providers?: string[]    // Provider ids, default: all playground providers
+ *     | { [provider]: { version?: string | number, darkMode?: boolean } | true }
+ * }
+ *
+ * Unknown providers or versions are rejected with 400. Rate limited (code
+ * budget), see constants/rateLimits: 429 with Retry-After. Results where every
+ * provider validated are cached (X-Cache: HIT | MISS); send
+ * "Cache-Control: no-cache" to generate afresh.
+ */
+router.post('/generate', validateRequest(codeApi.generateCode), rateLimit('code'), generateComponentCode);
+
+// POST /api/code/generate/stream (Server-Sent Events, same body and limits as /generate)
+router.post('/generate/stream', validateRequest(codeApi.streamCode), rateLimit('code'), streamComponentCode);
 
 export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { listComponents, getComponent } from '../controllers/componentController.js';
+import { componentApi } from '../contracts/components.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+
+const router = Router();
+
+// GET /api/components
+router.get('/', listComponents);
+
+// GET /api/components/:id
+router.get('/:id', validateRequest(componentApi.getComponent), getComponent);
+
+export default router;
@@ -1,5 +1,8 @@
 import express from 'express';
-import { generateComponentConfig } from '../controllers/configController.js';
+import { generateComponentConfig, exportComponentCode } from '../controllers/configController.js';
+import { configApi } from '../contracts/config.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+import { rateLimit } from '../middleware/rateLimit.js';
 
 const router = express.Router();
 
@@ -9,9 +12,15 @@ const router = express.Router();
  * 
  * Request body:
  * {
- *   componentName: string,  // e.g., "button", "iconButton"
+ *   componentName: string,  // e.g., "button", "iconButton", "layout" (composite screen)
  *   prompt: string,         // e.g., "make it blue with rounded corners"
- *   currentConfig: object   // Current configuration to modify
+ *   currentConfig?: object, // Configuration to modify; defaults to the parent iteration's config
+ *   model?: string,         // Optional engine/model from LLM_ALLOWED_MODELS, e.g. "gemini:gemini-2.5-pro", "openai:llama3.1"
+ *   sessionId?: string,     // History session; also read from the X-Session-Id header, generated when absent
+ *   parentId?: string | null, // Iteration to build on; defaults to the session head, null starts a new root
+ *   outputMode?: "full" | "patch", // "patch": the model returns a JSON Patch / merge patch against currentConfig
+ *   changeGuard?: "off" | "flag" | "revert", // Changes to properties the prompt never mentioned (default "flag")
+ *   accessibility?: "off" | "report" | "retry" // Contrast audit (default "report"); "retry" regenerates while it fails
  * }
  * 
  * Response:
@@ -20,9 +29,54 @@ const router = express.Router();
  *   config?: object,        // Generated configuration
  *   attempts?: number,      // Number of attempts made
  *   error?: string,         // Error message if failed
- *   lastError?: string      // Last validation error if failed
+ *   code?: string,          // Error code if failed, see contracts/common API_ERROR_CODES
+ *   details?: string[],     // Validation errors of the last attempt if failed
+ *   model?: string,         // Engine id that produced the result
+ *   parsePath?: string,     // How the model output was parsed: structured | json | fenced | extracted | repaired
+ *   diff?: string[],        // e.g. "styles.backgroundColor: #FFFFFF → #1E40AF"
+ *   unrelatedChanges?: string[], // Flagged changes the prompt did not ask for
+ *   revertedChanges?: string[],  // Unrelated changes that were undone
+ *   accessibility?: {       // WCAG contrast of each foreground/background pair that is set
+ *     passes: boolean,
+ *     contrast: { node?, component, foreground, background, foregroundColor, backgroundColor, ratio, minimum, passes }[]
+ *   },
+ *   promptTemplate?: string, // "config" or "patch"
+ *   promptVersion?: string, // Template version, assigned per session (PROMPT_SPLIT_*)
+ *   examples?: string[],    // Starred examples shown to the model, see /api/examples
+ *   sessionId: string,      // Session the generation was recorded in (also sent as X-Session-Id)
+ *   generationId: string | null, // History entry id, null if it could not be saved
+ *   parentId: string | null // Iteration this one was built on
  * }
+ *
+ * Rate limited (config budget), see constants/rateLimits: 429 with Retry-After.
+ * Validated results are cached (X-Cache: HIT | MISS); send
+ * "Cache-Control: no-cache" to generate afresh.
  */
-router.post('/generate', generateComponentConfig);
+router.post('/generate', validateRequest(configApi.generateConfig), rateLimit('config'), generateComponentConfig);
+
+/**
+ * POST /api/config/export
+ * Deterministic config-to-code export: per-provider templates, no LLM
+ *
+ * Request body:
+ * {
+ *   componentName: string,  // Any registered component, including "layout"
+ *   config: object,         // Validated against the component schema
+ *   providers?: string[],   // Defaults to every provider with export templates
+ *   themeId?: string        // Resolves "$token" references; required when the config has any
+ * }
+ *
+ * Response:
+ * {
+ *   success: boolean,       // Every provider's code passed validateCode
+ *   componentName?: string, // Registry id
+ *   code?: { [provider]: string }, // TSX module with a default-exported component
+ *   providers?: { [provider]: { status: "valid" | "failed", errors: string[], diagnostics?: object[] } },
+ *   error?: string,
+ *   code?: string,          // Error code if failed
+ *   details?: string[]      // Config validation errors or unresolved token references
+ * }
+ */
+router.post('/export', validateRequest(configApi.exportCode), exportComponentCode);
 
 export default router;
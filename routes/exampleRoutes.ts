@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { listExamplesHandler, starGenerationHandler, deleteExampleHandler } from '../controllers/exampleController.js';
+import { examplesApi } from '../contracts/examples.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+
+const router = Router();
+
+// GET /api/examples?componentName=...
+router.get('/', validateRequest(examplesApi.listExamples), listExamplesHandler);
+
+// POST /api/examples (star a config generation)
+router.post('/', validateRequest(examplesApi.starGeneration), starGenerationHandler);
+
+// DELETE /api/examples/:id
+router.delete('/:id', validateRequest(examplesApi.deleteExample), deleteExampleHandler);
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { submitFeedbackHandler, feedbackByComponentHandler, feedbackByProviderHandler } from '../controllers/feedbackController.js';
+import { generationsApi } from '../contracts/generations.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+
+const router = Router();
+
+// GET /api/generations/feedback/by-component?since=...&model=...&promptVersion=...
+router.get('/feedback/by-component', validateRequest(generationsApi.feedbackByComponent), feedbackByComponentHandler);
+
+// GET /api/generations/feedback/by-provider?since=...&model=...&promptVersion=...
+router.get('/feedback/by-provider', validateRequest(generationsApi.feedbackByProvider), feedbackByProviderHandler);
+
+// POST /api/generations/:id/feedback (id from /api/history)
+router.post('/:id/feedback', validateRequest(generationsApi.submitFeedback), submitFeedbackHandler);
+
+export default router;
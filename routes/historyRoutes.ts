@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { listHistory, getPromptVariants, getHistoryEntry } from '../controllers/historyController.js';
+import { historyApi } from '../contracts/history.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+
+const router = Router();
+
+// GET /api/history?sessionId=...
+router.get('/', validateRequest(historyApi.listHistory), listHistory);
+
+// GET /api/history/prompt-variants (before /:id, which would match it)
+router.get('/prompt-variants', validateRequest(historyApi.getPromptVariants), getPromptVariants);
+
+// GET /api/history/:id
+router.get('/:id', validateRequest(historyApi.getHistoryEntry), getHistoryEntry);
+
+export default router;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import {
+  getTree,
+  revertIteration,
+  undoIteration,
+  redoIteration,
+  branchIteration
+} from '../controllers/sessionController.js';
+import { sessionApi } from '../contracts/sessions.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+
+const router = Router();
+
+// GET /api/sessions/:sessionId/components/:componentName/tree
+router.get('/:sessionId/components/:componentName/tree', validateRequest(sessionApi.getTree), getTree);
+
+// POST /api/sessions/:sessionId/components/:componentName/revert
+router.post('/:sessionId/components/:componentName/revert', validateRequest(sessionApi.revertIteration), revertIteration);
+
+// POST /api/sessions/:sessionId/components/:componentName/undo
+router.post('/:sessionId/components/:componentName/undo', validateRequest(sessionApi.undoIteration), undoIteration);
+
+// POST /api/sessions/:sessionId/components/:componentName/redo
+router.post('/:sessionId/components/:componentName/redo', validateRequest(sessionApi.redoIteration), redoIteration);
+
+// POST /api/sessions/:sessionId/components/:componentName/branch (config generation budget)
+router.post('/:sessionId/components/:componentName/branch', validateRequest(sessionApi.branchIteration), rateLimit('config'), branchIteration);
+
+export default router;
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import {
+  listThemesHandler,
+  getThemeHandler,
+  createThemeHandler,
+  updateThemeHandler,
+  deleteThemeHandler,
+  generateThemeHandler,
+  applyThemeHandler,
+  resolveThemeHandler
+} from '../controllers/themeController.js';
+import { themeApi } from '../contracts/themes.js';
+import { validateRequest } from '../middleware/validateRequest.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+
+const router = Router();
+
+// GET /api/themes
+router.get('/', listThemesHandler);
+
+// POST /api/themes
+router.post('/', validateRequest(themeApi.createTheme), createThemeHandler);
+
+// POST /api/themes/generate (theme prompt: palette from text + re-skinned configs)
+router.post('/generate', validateRequest(themeApi.generateTheme), rateLimit('config'), generateThemeHandler);
+
+// GET /api/themes/:id
+router.get('/:id', validateRequest(themeApi.getTheme), getThemeHandler);
+
+// PUT /api/themes/:id
+router.put('/:id', validateRequest(themeApi.updateTheme), updateThemeHandler);
+
+// DELETE /api/themes/:id
+router.delete('/:id', validateRequest(themeApi.deleteTheme), deleteThemeHandler);
+
+// POST /api/themes/:id/apply
+router.post('/:id/apply', validateRequest(themeApi.applyTheme), applyThemeHandler);
+
+// POST /api/themes/:id/resolve
+router.post('/:id/resolve', validateRequest(themeApi.resolveTheme), resolveThemeHandler);
+
+export default router;
@@ -1,59 +1,172 @@
-import { callGemini, extractJSON } from "./geminiEngine.js";
-import { promptBuilder } from "./promptBuilder.js";
-import { validateButtonConfig } from "../validators/buttonConfigValidator.js";
-import { validateIconButtonConfig } from "../validators/iconButtonConfigValidator.js";
-import { validateAccordionConfig } from "../validators/accordionConfigValidator.js";
-import { validateInputConfig } from "../validators/inputConfigValidator.js";
-import { validateSelectConfig } from "../validators/selectConfigValidator.js";
-import { validateRadioConfig } from "../validators/radioConfigValidator.js";
-import { validateCardConfig } from "../validators/cardConfigValidator.js";
-import { validateModalConfig } from "../validators/modalConfigValidator.js";
-import { validateTabsConfig } from "../validators/tabsConfigValidator.js";
-import { validateProgressConfig } from "../validators/progressConfigValidator.js";
-
-interface GenerateConfigRequest {
+import { resolveEngine, type LLMEngine, type LLMResult } from "./llmEngine.js";
+import { assignPromptVersion, getPromptTemplate, promptBuilder } from "./promptBuilder.js";
+import type { PromptExample } from "./promptTemplates/shared.js";
+import { CacheStatus, generationCacheKey, normalizePrompt, withGenerationCache } from "./generationCache.js";
+import {
+  ComponentRegistryEntry,
+  resolveComponent,
+  validateComponentConfig,
+  getComponentJSONSchema
+} from "../constants/componentRegistry.js";
+import { DEFAULT_PLAYGROUND_PROVIDERS, ProviderSettings, checkProviderSelection, resolveProviderProfile } from "../constants/providerRegistry.js";
+import { parseModelJSON, ParsePath } from "../utils/jsonRepair.js";
+import { applyJsonPatch, applyMergePatch, JSON_PATCH_SCHEMA } from "../utils/jsonPatch.js";
+import { diffConfigs, findUnrelatedChanges, formatChange, revertChanges } from "../utils/configDiff.js";
+import { auditConfigAccessibility, describeContrastFailures, ConfigAccessibilityReport } from "../utils/configAccessibility.js";
+import type { ApiErrorCode } from "../contracts/common.js";
+
+export type ConfigOutputMode = 'full' | 'patch';
+
+// What to do with changes to properties the prompt never mentioned
+export type ChangeGuardMode = 'off' | 'flag' | 'revert';
+
+// Accessibility audit of generated configs: 'retry' regenerates while the contrast fails
+export type AccessibilityMode = 'off' | 'report' | 'retry';
+
+export interface GenerateConfigRequest {
   componentName?: string;
   prompt: string;
   currentConfig?: any;
   prevCode?: any;
   providers?: string[]; // Optional for playground
+  providerSettings?: Record<string, ProviderSettings>; // Playground: per-provider options, e.g. { chakra: { version: 3 } }
+  model?: string; // Optional engine/model override, e.g. "openai:llama3.1"
+  onToken?: (delta: string) => void; // Stream the raw model output (playground only)
+  signal?: AbortSignal; // Cancels the engine call, e.g. when the client disconnects
+  outputMode?: ConfigOutputMode; // 'patch': the model returns a JSON Patch or merge patch against currentConfig
+  changeGuard?: ChangeGuardMode; // Default 'flag'
+  accessibility?: AccessibilityMode; // Default 'report'
+  noCache?: boolean; // Generate even when a cached result exists (Cache-Control: no-cache)
+  variantKey?: string; // Keeps the prompt template version sticky, see assignPromptVersion
+  examples?: PromptExample[]; // Starred examples for few-shot template versions, see exampleService
 }
 
-interface GenerateConfigResponse {
+export interface GenerateConfigResponse {
   success: boolean;
   config?: any;
   attempts?: number;
   error?: string;
-  lastError?: string;
+  code?: ApiErrorCode;  // Why generation failed, see contracts/common
+  details?: string[];   // Validation errors of the last attempt
+  model?: string;
+  parsePath?: ParsePath; // How the model output was parsed, see utils/jsonRepair
+  diff?: string[];       // Human-readable changes from currentConfig, e.g. "styles.backgroundColor: #FFFFFF → #1E40AF"
+  unrelatedChanges?: string[]; // Changes to properties the prompt did not mention
+  revertedChanges?: string[];  // Unrelated changes that were undone (changeGuard 'revert')
+  accessibility?: ConfigAccessibilityReport; // WCAG contrast of the config's color pairs
+  cache?: CacheStatus;   // Config generation: whether the result came from the generation cache
+  promptTemplate?: string; // Template that was rendered: "config", "patch" or "playground"
+  promptVersion?: string;  // Its version, e.g. "v1"
+  examples?: string[];     // Ids of the starred examples the prompt showed
 }
 
 const MAX_RETRIES = 3;
 
+/**
+ * Patch-mode output: an RFC 6902 operation array (bare or as { patch: [...] }),
+ * otherwise an RFC 7386 merge patch
+ */
+function applyModelPatch(currentConfig: any, output: any): unknown {
+  if (Array.isArray(output)) return applyJsonPatch(currentConfig, output);
+  if (output && typeof output === 'object' && Array.isArray(output.patch)) {
+    return applyJsonPatch(currentConfig, output.patch);
+  }
+  return applyMergePatch(currentConfig, output);
+}
+
+/**
+ * Diff a validated config against the one the user sent and apply the change guard
+ */
+function reviewChanges(
+  component: ComponentRegistryEntry,
+  request: GenerateConfigRequest,
+  config: unknown
+): Pick<GenerateConfigResponse, 'config' | 'diff' | 'unrelatedChanges' | 'revertedChanges'> {
+  const { currentConfig, prompt, changeGuard = 'flag' } = request;
+  const changes = diffConfigs(currentConfig, config);
+  const unrelated = changeGuard === 'off' ? [] : findUnrelatedChanges(changes, prompt);
+  if (unrelated.length === 0) {
+    return { config, diff: changes.map(formatChange) };
+  }
+
+  const unrelatedChanges = unrelated.map(formatChange);
+  if (changeGuard === 'revert') {
+    const reverted = validateComponentConfig(component, revertChanges(config, unrelated));
+    if (reverted.success) {
+      return {
+        config: reverted.data,
+        diff: diffConfigs(currentConfig, reverted.data).map(formatChange),
+        revertedChanges: unrelatedChanges
+      };
+    }
+    console.warn('Reverting unrelated changes produced an invalid config, keeping them:', reverted.details);
+  }
+
+  return { config, diff: changes.map(formatChange), unrelatedChanges };
+}
+
 /**
  * Generic generator with validation
  */
 async function generateWithValidation(
   request: GenerateConfigRequest,
-  validator: (config: any) => any
+  engine: LLMEngine,
+  component: ComponentRegistryEntry,
+  promptVersion: string,
+  examples: PromptExample[]
 ): Promise<GenerateConfigResponse> {
-  const { componentName, prompt, currentConfig } = request;
+  const { prompt, currentConfig, accessibility = 'report' } = request;
+  const patchMode = request.outputMode === 'patch';
+  const variant = {
+    promptTemplate: patchMode ? 'patch' : 'config',
+    promptVersion,
+    ...(examples.length > 0 ? { examples: examples.map(example => example.id) } : {})
+  };
+  const responseSchema = patchMode ? JSON_PATCH_SCHEMA : getComponentJSONSchema(component);
   let lastValidationError = "";
   let attempts = 0;
+  // Valid config whose contrast failed, returned if no later attempt does better
+  let lowContrastResult: GenerateConfigResponse | undefined;
 
   for (let i = 0; i < MAX_RETRIES; i++) {
     attempts++;
     try {
-      let systemPrompt = promptBuilder.getSystemPrompt(componentName || 'unknown', currentConfig, prompt);
+      let systemPrompt = patchMode
+        ? promptBuilder.getPatchPrompt(component, currentConfig, prompt, promptVersion, examples)
+        : promptBuilder.getSystemPrompt(component, currentConfig, prompt, promptVersion, examples);
       if (i > 0 && lastValidationError) {
         systemPrompt += `\n\nPREVIOUS ATTEMPT FAILED WITH ERRORS:\n${lastValidationError}\n\nPlease fix these errors and try again.`;
       }
 
-      const text = await callGemini(systemPrompt);
-      const generatedConfig = extractJSON(text);
-      const validation = validator(generatedConfig);
+      let response: LLMResult;
+      try {
+        response = await engine.generate(systemPrompt, { responseSchema, signal: request.signal });
+      } catch (error: any) {
+        // The model never answered, so there is nothing to correct: retrying with its "errors" would only hide this
+        return { success: false, error: `Engine error: ${error.message}`, code: "ENGINE_ERROR", attempts, model: engine.id, ...variant };
+      }
+      const { text, structured } = response;
+      const { value, parsePath } = parseModelJSON(text, { structured });
+      const generatedConfig = patchMode ? applyModelPatch(currentConfig, value) : value;
+      const validation = validateComponentConfig(component, generatedConfig);
 
       if (validation.success) {
-        return { success: true, config: validation.data, attempts };
+        const result: GenerateConfigResponse = {
+          success: true,
+          ...reviewChanges(component, request, validation.data),
+          attempts,
+          model: engine.id,
+          parsePath,
+          ...variant
+        };
+        if (accessibility === 'off') return result;
+
+        result.accessibility = auditConfigAccessibility(component, result.config);
+        if (result.accessibility.passes || accessibility === 'report' || i === MAX_RETRIES - 1) return result;
+
+        lowContrastResult = result;
+        lastValidationError = describeContrastFailures(result.accessibility).join("\n");
+        continue;
       }
       lastValidationError = validation.details?.join("\n") || validation.error || "Validation failed";
     } catch (error: any) {
@@ -61,36 +174,87 @@ async function generateWithValidation(
     }
   }
 
-  return { success: false, error: "Retries exhausted", lastError: lastValidationError, attempts };
+  if (lowContrastResult) {
+    return { ...lowContrastResult, attempts };
+  }
+
+  return {
+    success: false,
+    error: "Retries exhausted",
+    code: "GENERATION_FAILED",
+    details: lastValidationError.split("\n").filter(Boolean),
+    attempts,
+    model: engine.id,
+    ...variant
+  };
+}
+
+/**
+ * Playground output: one code string per provider
+ */
+function getPlaygroundResponseSchema(providers: string[]) {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(providers.map(p => [p, { type: 'string', description: `Component code for ${p}` }])),
+    required: providers
+  };
 }
 
 export async function generateConfig(request: GenerateConfigRequest): Promise<GenerateConfigResponse> {
-  const { componentName, prompt, currentConfig, prevCode, providers } = request;
+  const { componentName, prompt, currentConfig, prevCode, providers, providerSettings, model, onToken } = request;
   const isPlayground = componentName === 'playground' || !componentName;
 
+  let engine: LLMEngine;
+  try {
+    engine = resolveEngine(model);
+  } catch (err: any) {
+    return { success: false, error: err.message, code: "UNKNOWN_MODEL" };
+  }
+
   if (isPlayground) {
+    const variant = { promptTemplate: 'playground', promptVersion: assignPromptVersion('playground', request.variantKey) };
     try {
-      const pPrompt = promptBuilder.getPlaygroundPrompt(prompt, prevCode || currentConfig, providers || ['mui', 'chakra', 'antd', 'shadcn', 'aceternity']);
-      const text = await callGemini(pPrompt);
-      const generated = extractJSON(text);
-      return { success: true, config: generated };
+      const selectedProviders = providers || DEFAULT_PLAYGROUND_PROVIDERS;
+      const providerError = checkProviderSelection(selectedProviders, providerSettings);
+      if (providerError) {
+        return { success: false, error: providerError, code: "UNKNOWN_PROVIDER", model: engine.id };
+      }
+      const profiles = selectedProviders.map(p => resolveProviderProfile(p, providerSettings?.[p]?.version)!);
+      const pPrompt = promptBuilder.getPlaygroundPrompt(prompt, prevCode || currentConfig, profiles, providerSettings, variant.promptVersion);
+      const { text, structured } = await engine.generate(pPrompt, {
+        responseSchema: getPlaygroundResponseSchema(selectedProviders),
+        onToken,
+        signal: request.signal
+      });
+      const { value: generated, parsePath } = parseModelJSON(text, { structured, allowText: true });
+      return { success: true, config: generated, model: engine.id, parsePath, ...variant };
     } catch (err: any) {
-      return { success: false, error: err.message };
+      return { success: false, error: `Engine error: ${err.message}`, code: "ENGINE_ERROR", model: engine.id, ...variant };
     }
   }
 
-  switch (componentName) {
-    case "button": return generateWithValidation(request, validateButtonConfig);
-    case 'icon-button': return generateWithValidation(request, validateIconButtonConfig);
-    case 'accordion': return generateWithValidation(request, validateAccordionConfig);
-    case 'input': return generateWithValidation(request, validateInputConfig);
-    case 'select': return generateWithValidation(request, validateSelectConfig);
-    case 'radio': return generateWithValidation(request, validateRadioConfig);
-    case 'card': return generateWithValidation(request, validateCardConfig);
-    case 'modal': return generateWithValidation(request, validateModalConfig);
-    case 'tabs': return generateWithValidation(request, validateTabsConfig);
-    case 'progress': return generateWithValidation(request, validateProgressConfig);
-    default:
-      return { success: false, error: `Component "${componentName}" is not supported` };
+  const component = resolveComponent(componentName);
+  if (!component) {
+    return { success: false, error: `Component "${componentName}" is not supported`, code: "UNKNOWN_COMPONENT" };
   }
+
+  const promptTemplate = request.outputMode === 'patch' ? 'patch' : 'config';
+  const promptVersion = assignPromptVersion(promptTemplate, request.variantKey);
+  const examples = getPromptTemplate(promptTemplate, promptVersion).fewShot ? request.examples ?? [] : [];
+  const cacheKey = generationCacheKey('config', engine.id, `${promptTemplate}@${promptVersion}`, {
+    componentName: component.id,
+    prompt: normalizePrompt(prompt),
+    currentConfig,
+    outputMode: request.outputMode ?? 'full',
+    changeGuard: request.changeGuard ?? 'flag',
+    accessibility: request.accessibility ?? 'report',
+    examples: examples.map(example => example.id)
+  });
+  const { value, cache } = await withGenerationCache(
+    'config',
+    cacheKey,
+    { bypass: request.noCache, isCacheable: result => result.success },
+    () => generateWithValidation(request, engine, component, promptVersion, examples)
+  );
+  return { ...value, cache };
 }
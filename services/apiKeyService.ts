@@ -0,0 +1,79 @@
+import { createHash, randomBytes } from "crypto";
+import mongoose from "mongoose";
+import ApiKey, { IApiKey } from "../models/apiKey.model.js";
+
+const KEY_PREFIX = "cui_";
+const PREFIX_LENGTH = 12; // "cui_" plus 8 characters of the secret
+
+export interface ApiKeySummary {
+  id: string;
+  workspaceId: string;
+  name: string;
+  prefix: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface AuthenticatedKey {
+  keyId: string;
+  workspaceId: string;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toSummary(apiKey: IApiKey & { _id: unknown }): ApiKeySummary {
+  return {
+    id: String(apiKey._id),
+    workspaceId: apiKey.workspaceId,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt ?? null,
+    revokedAt: apiKey.revokedAt ?? null
+  };
+}
+
+/**
+ * Issue a key for a workspace. The plain key is returned once and never stored.
+ */
+export async function createApiKey(workspaceId: string, name = ""): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+  const apiKey = await ApiKey.create({
+    workspaceId,
+    name,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, PREFIX_LENGTH)
+  });
+  return { key, apiKey: toSummary(apiKey.toObject()) };
+}
+
+export async function listApiKeys(workspaceId?: string): Promise<ApiKeySummary[]> {
+  const apiKeys = await ApiKey.find(workspaceId ? { workspaceId } : {}).sort({ createdAt: -1 }).lean();
+  return apiKeys.map(toSummary);
+}
+
+/**
+ * Revoke a key, returning it, or null when there is no such key. Revoking
+ * twice keeps the first revocation date.
+ */
+export async function revokeApiKey(id: string): Promise<ApiKeySummary | null> {
+  if (!mongoose.isValidObjectId(id)) return null;
+  await ApiKey.updateOne({ _id: id, revokedAt: null }, { $set: { revokedAt: new Date() } });
+  const apiKey = await ApiKey.findById(id).lean();
+  return apiKey ? toSummary(apiKey) : null;
+}
+
+/**
+ * The workspace of an active key, or null when the key is unknown or revoked
+ */
+export async function authenticateApiKey(key: string): Promise<AuthenticatedKey | null> {
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { keyHash: hashApiKey(key), revokedAt: null },
+    { $set: { lastUsedAt: new Date() } },
+    { new: true }
+  ).lean();
+  return apiKey ? { keyId: String(apiKey._id), workspaceId: apiKey.workspaceId } : null;
+}
@@ -0,0 +1,194 @@
+import { getTheme, resolveThemedConfig } from "./themeService.js";
+import { ExportTemplate, ComponentTemplates } from "./exportTemplates/shared.js";
+import { muiTemplate } from "./exportTemplates/mui.js";
+import { chakraTemplate } from "./exportTemplates/chakra.js";
+import { antdTemplate } from "./exportTemplates/antd.js";
+import { shadcnTemplate } from "./exportTemplates/shadcn.js";
+import { aceternityTemplate } from "./exportTemplates/aceternity.js";
+import { ComponentRegistryEntry, resolveComponent, validateComponentConfig } from "../constants/componentRegistry.js";
+import { providerRegistry } from "../constants/providerRegistry.js";
+import type { LayoutConfig, LayoutNode } from "../validators/layoutConfigValidator.js";
+import { ComponentWriter, JsxElement, toComponentName } from "../utils/jsxWriter.js";
+import { validateCode, formatDiagnostic, CodeDiagnostic } from "../utils/codeValidator.js";
+import { findTokenReferences } from "../utils/themeTokens.js";
+import type { ApiErrorCode } from "../contracts/common.js";
+
+export interface ConfigExportRequest {
+  workspaceId: string;  // Workspace the theme is looked up in
+  componentName: string;
+  config: unknown;
+  providers?: string[]; // Defaults to every provider with a template
+  themeId?: string;     // Theme that resolves the config's "$token" references
+}
+
+export interface ExportedProviderCode {
+  status: 'valid' | 'failed';
+  errors: string[];
+  diagnostics?: CodeDiagnostic[];
+}
+
+export interface ExportedConfigCode {
+  success: true;
+  componentName: string;
+  code: Record<string, string>;
+  providers: Record<string, ExportedProviderCode>;
+}
+
+export interface ConfigExportError {
+  success: false;
+  error: string;
+  code?: ApiErrorCode;
+  details?: string[];
+  componentName?: string;
+  providers?: Record<string, ExportedProviderCode>; // Template output that failed validation
+}
+
+export interface ConfigExportOutcome {
+  status: number;
+  body: ExportedConfigCode | ConfigExportError;
+}
+
+// One template per providerRegistry entry
+export const exportTemplates: Record<string, ExportTemplate> = {
+  mui: muiTemplate,
+  chakra: chakraTemplate,
+  antd: antdTemplate,
+  shadcn: shadcnTemplate,
+  aceternity: aceternityTemplate
+};
+
+export function getExportProviders(): string[] {
+  return Object.keys(providerRegistry).filter(provider => provider in exportTemplates);
+}
+
+function renderLayoutNode(node: LayoutNode, template: ExportTemplate, writer: ComponentWriter): JsxElement {
+  if ('children' in node) {
+    const children = node.children.map(child => renderLayoutNode(child, template, writer));
+    return node.type === 'grid'
+      ? template.grid(node, children, writer)
+      : template.stack(node, children, writer);
+  }
+  return renderLeaf(node.type, node.config, template, writer);
+}
+
+function renderLeaf(componentId: string, config: unknown, template: ExportTemplate, writer: ComponentWriter): JsxElement {
+  const render = template.components[componentId as keyof ComponentTemplates] as
+    ((config: unknown, writer: ComponentWriter) => JsxElement) | undefined;
+  if (!render) {
+    throw new Error(`No ${template.provider} export template for "${componentId}"`);
+  }
+  return render(config, writer);
+}
+
+/**
+ * Render a validated, token-free config as a TSX module for one provider
+ */
+export function renderConfigCode(component: ComponentRegistryEntry, config: unknown, provider: string): string {
+  const template = exportTemplates[provider];
+  if (!template) {
+    throw new Error(`No export templates for provider "${provider}"`);
+  }
+
+  const writer = new ComponentWriter();
+  if (component.id === 'layout') {
+    const layout = config as LayoutConfig;
+    const name = toComponentName(layout.title ? `${layout.title} Screen` : 'Layout');
+    return writer.write(name, renderLayoutNode(layout.root, template, writer));
+  }
+  // Prefixed so the component never shadows the library component it renders
+  return writer.write(toComponentName(`Custom ${component.name}`), renderLeaf(component.id, config, template, writer));
+}
+
+/**
+ * Validate a config (resolving theme tokens first when a theme is given) and
+ * turn it into TSX for each requested provider. Deterministic: the output is
+ * produced by templates and checked by validateCode, no model is involved.
+ */
+export async function exportConfigCode(request: ConfigExportRequest): Promise<ConfigExportOutcome> {
+  const { workspaceId, componentName, config, themeId } = request;
+
+  const component = resolveComponent(componentName);
+  if (!component) {
+    return { status: 400, body: { success: false, error: `Component "${componentName}" is not supported`, code: 'UNKNOWN_COMPONENT' } };
+  }
+
+  const available = getExportProviders();
+  const providers = request.providers ?? available;
+  const unknown = providers.filter(provider => !available.includes(provider));
+  if (unknown.length > 0) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error: `Unknown providers: ${unknown.join(', ')}. Supported: ${available.join(', ')}`,
+        code: 'UNKNOWN_PROVIDER'
+      }
+    };
+  }
+
+  let resolvedConfig: unknown;
+  if (themeId) {
+    const theme = await getTheme(workspaceId, themeId);
+    if (!theme) {
+      return { status: 404, body: { success: false, error: `Theme "${themeId}" not found` } };
+    }
+    const themed = resolveThemedConfig(component.id, config, theme.tokens);
+    if (!themed.success) {
+      return {
+        status: 400,
+        body: { success: false, error: themed.error || 'Invalid config', code: themed.code, details: themed.details }
+      };
+    }
+    resolvedConfig = themed.resolvedConfig;
+  } else {
+    const references = findTokenReferences(config);
+    if (references.length > 0) {
+      return {
+        status: 400,
+        body: {
+          success: false,
+          error: 'Config references theme tokens; pass themeId to resolve them',
+          code: 'INVALID_CONFIG',
+          details: references
+        }
+      };
+    }
+    const validation = validateComponentConfig(component, config);
+    if (!validation.success) {
+      return {
+        status: 400,
+        body: { success: false, error: validation.error || 'Invalid config', code: 'INVALID_CONFIG', details: validation.details }
+      };
+    }
+    resolvedConfig = validation.data;
+  }
+
+  const code: Record<string, string> = {};
+  const results: Record<string, ExportedProviderCode> = {};
+  for (const provider of providers) {
+    code[provider] = renderConfigCode(component, resolvedConfig, provider);
+    const validation = validateCode(code[provider], provider, exportTemplates[provider].version);
+    results[provider] = validation.success
+      ? { status: 'valid', errors: [] }
+      : {
+          status: 'failed',
+          errors: validation.diagnostics?.length ? validation.diagnostics.map(formatDiagnostic) : [validation.error || 'Validation failed'],
+          diagnostics: validation.diagnostics
+        };
+  }
+
+  // A template that produces invalid code is a server bug, not a bad request
+  if (Object.values(results).some(result => result.status !== 'valid')) {
+    return {
+      status: 500,
+      body: {
+        success: false,
+        error: 'Exported code failed validation',
+        code: 'INTERNAL_ERROR',
+        componentName: component.id,
+        providers: results
+      }
+    };
+  }
+  return { status: 200, body: { success: true, componentName: component.id, code, providers: results } };
+}
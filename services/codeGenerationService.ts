@@ -0,0 +1,292 @@
+import { randomUUID } from "crypto";
+import { generateConfig, GenerateConfigResponse } from "./aiService.js";
+import { CacheStatus, generationCacheKey, normalizePrompt, withGenerationCache } from "./generationCache.js";
+import { resolveEngine } from "./llmEngine.js";
+import { assignPromptVersion, promptBuilder } from "./promptBuilder.js";
+import { DEFAULT_PLAYGROUND_PROVIDERS, ProviderSettings, checkProviderSelection } from "../constants/providerRegistry.js";
+import { validateCode, formatDiagnostic, CodeDiagnostic, ValidationResult } from "../utils/codeValidator.js";
+import { ProviderStreamParser } from "../utils/providerStreamParser.js";
+import type { SecurityFinding } from "../utils/codeSecurity.js";
+import type { AccessibilityFinding } from "../utils/codeAccessibility.js";
+import { statusForErrorCode } from "../utils/apiResponse.js";
+
+export interface PlaygroundCodeRequest {
+  prompt: string;
+  prevCode?: any;
+  model?: string;
+  providers?: string[];
+  providerSettings?: Record<string, ProviderSettings>; // Version and options per provider; versions default to the registry's
+  noCache?: boolean; // Generate even when a cached result exists (Cache-Control: no-cache)
+  variantKey?: string; // Prompt template assignment, usually the session id; random per generation without one
+}
+
+export interface ProviderCodeStatus {
+  status: 'valid' | 'failed';
+  attempts: number;  // How many times code was generated for this provider
+  errors: string[];  // Errors from the latest attempt (empty when valid)
+  diagnostics?: CodeDiagnostic[]; // Structured form of the latest validation errors
+  securityFindings?: SecurityFinding[]; // Flagged or stripped findings in the returned code
+  accessibility?: AccessibilityFinding[]; // Accessibility audit of the returned code
+}
+
+export interface PlaygroundCodeResponse extends GenerateConfigResponse {
+  partial?: boolean; // Some providers are missing from config because they never validated
+  providers?: Record<string, ProviderCodeStatus>;
+}
+
+/**
+ * Progress events emitted while playground code is generated
+ */
+export type CodeGenerationEvent =
+  | { type: 'attempt'; attempt: number; maxAttempts: number; providers: string[] }
+  | { type: 'token'; provider: string; delta: string }
+  | { type: 'validation'; attempt: number; provider: string; success: boolean; errors: string[]; diagnostics: CodeDiagnostic[]; securityFindings: SecurityFinding[]; accessibility: AccessibilityFinding[] }
+  | { type: 'retry'; attempt: number; providers: string[]; reason: string };
+
+export interface PlaygroundCodeOutcome {
+  status: number;
+  body: PlaygroundCodeResponse;
+  cache?: CacheStatus; // Sent as X-Cache, not part of the body
+}
+
+const MAX_CODE_RETRIES = 3;
+
+function getValidationErrors(result: ValidationResult): string[] {
+  if (result.success) return [];
+  if (result.diagnostics?.length) return result.diagnostics.map(formatDiagnostic);
+  return [result.error || 'Unknown compilation error'];
+}
+
+/**
+ * Split the model output into code per provider. A bare string is only
+ * accepted when a single provider was requested.
+ */
+function getProviderCode(generated: any, providers: string[]): Record<string, unknown> {
+  if (typeof generated === 'string' && providers.length === 1) {
+    return { [providers[0]]: generated };
+  }
+  if (generated && typeof generated === 'object' && !Array.isArray(generated)) {
+    return generated;
+  }
+  return {};
+}
+
+/**
+ * Generate playground code through the generation cache. Only outcomes where
+ * every provider validated are cached; a cache hit emits no progress events.
+ */
+export async function generatePlaygroundCode(
+  request: PlaygroundCodeRequest,
+  onEvent?: (event: CodeGenerationEvent) => void,
+  signal?: AbortSignal
+): Promise<PlaygroundCodeOutcome> {
+  // Repair rounds must render the same template version as the first one
+  request = { ...request, variantKey: request.variantKey ?? randomUUID() };
+
+  let modelId: string;
+  try {
+    modelId = resolveEngine(request.model).id;
+  } catch {
+    // Unknown model: let the generation report it
+    return runPlaygroundGeneration(request, onEvent, signal);
+  }
+
+  const promptVersion = assignPromptVersion('playground', request.variantKey);
+  const cacheKey = generationCacheKey('code', modelId, `playground@${promptVersion}`, {
+    prompt: normalizePrompt(request.prompt),
+    prevCode: request.prevCode,
+    providers: [...(request.providers || DEFAULT_PLAYGROUND_PROVIDERS)].sort(),
+    providerSettings: request.providerSettings
+  });
+  const { value, cache } = await withGenerationCache(
+    'code',
+    cacheKey,
+    { bypass: request.noCache, isCacheable: outcome => outcome.status === 200 && !outcome.body.partial },
+    () => runPlaygroundGeneration(request, onEvent, signal)
+  );
+  return { ...value, cache };
+}
+
+/**
+ * Generate full React component code (Playground) and validate each provider
+ * with Babel and the security rules. Providers that compile are kept (with
+ * stripped security findings neutralized); only the failing ones are sent
+ * back to the model, each with its own errors, until every provider validates
+ * or the attempts run out.
+ *
+ * When `onEvent` is given the model output is streamed: token deltas are
+ * reported per provider and each provider is validated as soon as its code
+ * string is complete.
+ */
+async function runPlaygroundGeneration(
+  request: PlaygroundCodeRequest,
+  onEvent?: (event: CodeGenerationEvent) => void,
+  signal?: AbortSignal
+): Promise<PlaygroundCodeOutcome> {
+  const { prompt, prevCode, model, providerSettings, variantKey } = request;
+  const requestedProviders = request.providers || DEFAULT_PLAYGROUND_PROVIDERS;
+
+  const providerError = checkProviderSelection(requestedProviders, providerSettings);
+  if (providerError) {
+    return { status: 400, body: { success: false, error: providerError, code: 'UNKNOWN_PROVIDER' } };
+  }
+
+  const validCode: Record<string, string> = {};
+  const statuses: Record<string, ProviderCodeStatus> = Object.fromEntries(
+    requestedProviders.map(provider => [provider, { status: 'failed', attempts: 0, errors: [] }])
+  );
+
+  let pending = [...requestedProviders];
+  let currentCode = prevCode;
+  let lastResult: GenerateConfigResponse | undefined;
+  let rounds = 0;
+
+  for (let i = 0; i < MAX_CODE_RETRIES && pending.length > 0; i++) {
+    if (signal?.aborted) {
+      return { status: 499, body: { success: false, error: 'Client closed the request' } };
+    }
+
+    rounds = i + 1;
+    const attempt = i + 1;
+    onEvent?.({ type: 'attempt', attempt, maxAttempts: MAX_CODE_RETRIES, providers: pending });
+
+    // Validation results by provider, reused when the final parse yields the same code
+    const validations = new Map<string, { code: string; result: ValidationResult }>();
+    const validateProvider = (provider: string, code: string): ValidationResult => {
+      const cached = validations.get(provider);
+      if (cached && cached.code === code) return cached.result;
+
+      const result = validateCode(code, provider, providerSettings?.[provider]?.version);
+      validations.set(provider, { code, result });
+      onEvent?.({
+        type: 'validation',
+        attempt,
+        provider,
+        success: result.success,
+        errors: getValidationErrors(result),
+        diagnostics: result.diagnostics || [],
+        securityFindings: result.securityFindings || [],
+        accessibility: result.accessibilityFindings || []
+      });
+      return result;
+    };
+
+    const parser = onEvent && new ProviderStreamParser({
+      onDelta: (provider, delta) => onEvent({ type: 'token', provider, delta }),
+      onComplete: (provider, code) => {
+        if (pending.includes(provider)) validateProvider(provider, code);
+      }
+    });
+
+    const failedErrors = Object.fromEntries(pending.map(p => [p, statuses[p].errors]));
+    const result = await generateConfig({
+      prompt: i === 0 ? prompt : promptBuilder.getPlaygroundRepairRequest(prompt, failedErrors),
+      prevCode: currentCode,
+      componentName: 'playground',
+      providers: pending,
+      providerSettings,
+      model,
+      variantKey,
+      onToken: parser && (delta => parser.push(delta)),
+      signal
+    });
+    lastResult = result;
+    if (signal?.aborted) {
+      return { status: 499, body: { success: false, error: 'Client closed the request' } };
+    }
+
+    for (const provider of pending) statuses[provider].attempts++;
+
+    if (!result.success) {
+      // Nothing valid yet: report why, e.g. an unknown model (400) or an engine failure (502)
+      if (i === 0) {
+        return { status: statusForErrorCode(result.code), body: result };
+      }
+      for (const provider of pending) {
+        statuses[provider].errors = [result.error || 'Generation failed'];
+      }
+      continue;
+    }
+
+    const providerCode = getProviderCode(result.config, pending);
+    const stillFailing: string[] = [];
+
+    for (const provider of pending) {
+      const code = providerCode[provider];
+      if (typeof code !== 'string' || !code.trim()) {
+        statuses[provider].errors = [`No code was generated for ${provider}`];
+        stillFailing.push(provider);
+        continue;
+      }
+
+      const validation = validateProvider(provider, code);
+      if (validation.success) {
+        validCode[provider] = validation.sanitizedCode ?? code;
+        statuses[provider] = {
+          ...statuses[provider],
+          status: 'valid',
+          errors: [],
+          diagnostics: [],
+          securityFindings: validation.securityFindings,
+          accessibility: validation.accessibilityFindings
+        };
+      } else {
+        console.warn(`Validation failed for ${provider}:`, validation.error);
+        statuses[provider].errors = getValidationErrors(validation);
+        statuses[provider].diagnostics = validation.diagnostics;
+        stillFailing.push(provider);
+      }
+    }
+
+    // The next round only sees the code that needs fixing
+    currentCode = Object.fromEntries(
+      stillFailing
+        .filter(provider => typeof providerCode[provider] === 'string')
+        .map(provider => [provider, providerCode[provider]])
+    );
+    pending = stillFailing;
+
+    if (pending.length > 0 && i < MAX_CODE_RETRIES - 1) {
+      onEvent?.({
+        type: 'retry',
+        attempt,
+        providers: pending,
+        reason: pending.map(p => `Provider ${p}: ${statuses[p].errors.join('; ')}`).join('\n')
+      });
+    }
+  }
+
+  const validCount = Object.keys(validCode).length;
+
+  if (validCount === 0) {
+    return {
+      status: 422,
+      body: {
+        success: false,
+        error: `Failed to generate valid code after ${MAX_CODE_RETRIES} attempts`,
+        code: 'GENERATION_FAILED',
+        details: pending.map(p => `Provider ${p}: ${statuses[p].errors.join('; ')}`),
+        attempts: rounds,
+        model: lastResult?.model,
+        promptTemplate: lastResult?.promptTemplate,
+        promptVersion: lastResult?.promptVersion,
+        providers: statuses
+      }
+    };
+  }
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      partial: pending.length > 0,
+      config: validCode,
+      attempts: rounds,
+      model: lastResult?.model,
+      parsePath: lastResult?.parsePath,
+      promptTemplate: lastResult?.promptTemplate,
+      promptVersion: lastResult?.promptVersion,
+      providers: statuses
+    }
+  };
+}
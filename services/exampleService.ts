@@ -0,0 +1,108 @@
+import mongoose from "mongoose";
+import Example, { IExample } from "../models/example.model.js";
+import Generation from "../models/generation.model.js";
+import { resolveComponent } from "../constants/componentRegistry.js";
+import { rankBm25 } from "../utils/bm25.js";
+import { workspaceFilter } from "../utils/workspace.js";
+import type { ApiErrorCode } from "../contracts/common.js";
+import type { PromptExample } from "./promptTemplates/shared.js";
+
+/**
+ * Few-shot example store
+ *
+ * Per deployment:
+ *   FEW_SHOT_EXAMPLES    starred examples added to each config prompt (default: 3; 0 turns retrieval off)
+ *   FEW_SHOT_CANDIDATES  most recent examples of a component that are ranked (default: 500)
+ *
+ * Examples are ranked against the request's prompt with BM25, within the
+ * workspace and component. Only template versions with `fewShot` render them.
+ */
+
+export interface ExampleOutcome {
+  status: number;
+  body: {
+    success: boolean;
+    example?: unknown;
+    error?: string;
+    code?: ApiErrorCode;
+  };
+}
+
+const DEFAULT_FEW_SHOT_EXAMPLES = 3;
+const DUPLICATE_KEY_ERROR = 11000;
+const DEFAULT_FEW_SHOT_CANDIDATES = 500;
+
+function readCount(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+export async function listExamples(workspaceId: string, componentName?: string) {
+  const filter: mongoose.QueryFilter<IExample> = workspaceFilter(workspaceId);
+  if (componentName) filter.componentName = resolveComponent(componentName)?.id ?? componentName;
+  return Example.find(filter).sort({ createdAt: -1 }).lean();
+}
+
+/**
+ * Copy a successful config generation of the workspace into the example store
+ */
+export async function starGeneration(workspaceId: string, generationId: string, note?: string): Promise<ExampleOutcome> {
+  const generation = mongoose.isValidObjectId(generationId)
+    ? await Generation.findOne({ _id: generationId, ...workspaceFilter(workspaceId), kind: 'config', success: true }).lean()
+    : null;
+  if (!generation) {
+    return { status: 404, body: { success: false, error: `Generation "${generationId}" is not a successful config generation in this workspace` } };
+  }
+
+  try {
+    const example = await Example.create({
+      workspaceId,
+      generationId: generation._id,
+      componentName: generation.componentName,
+      prompt: generation.prompt,
+      config: generation.config,
+      note,
+      model: generation.model
+    });
+    return { status: 201, body: { success: true, example: example.toObject() } };
+  } catch (error: any) {
+    // The unique index decides, so two concurrent stars get the same answer as two in a row
+    if (error?.code !== DUPLICATE_KEY_ERROR) throw error;
+    const existing = await Example.findOne({ workspaceId, generationId: generation._id }).lean();
+    return {
+      status: 409,
+      body: { success: false, error: `Generation "${generationId}" is already starred as example "${existing?._id}"`, example: existing }
+    };
+  }
+}
+
+export async function deleteExample(workspaceId: string, id: string): Promise<boolean> {
+  if (!mongoose.isValidObjectId(id)) return false;
+  const result = await Example.deleteOne({ _id: id, ...workspaceFilter(workspaceId) });
+  return result.deletedCount > 0;
+}
+
+/**
+ * The starred examples of a component whose prompts best match `prompt`.
+ * Examples only improve the prompt, so a failed lookup is logged and
+ * generation goes on without them.
+ */
+export async function findExamples(workspaceId: string, componentName: string, prompt: string): Promise<PromptExample[]> {
+  const limit = readCount('FEW_SHOT_EXAMPLES', DEFAULT_FEW_SHOT_EXAMPLES);
+  if (limit === 0) return [];
+
+  try {
+    const candidates = await Example.find({ ...workspaceFilter(workspaceId), componentName })
+      .sort({ createdAt: -1 })
+      .limit(readCount('FEW_SHOT_CANDIDATES', DEFAULT_FEW_SHOT_CANDIDATES) || DEFAULT_FEW_SHOT_CANDIDATES)
+      .select('prompt config')
+      .lean();
+
+    return rankBm25(prompt, candidates, candidate => candidate.prompt)
+      .slice(0, limit)
+      .map(({ document }) => ({ id: String(document._id), prompt: document.prompt, config: document.config }));
+  } catch (error) {
+    console.error('Failed to load few-shot examples:', error);
+    return [];
+  }
+}
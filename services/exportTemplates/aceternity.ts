@@ -0,0 +1,298 @@
+import { ComponentWriter, expr, h } from '../../utils/jsxWriter.js';
+import {
+  ExportTemplate,
+  CARD_IMAGE_URL,
+  CARD_SHADOWS,
+  FLEX_ALIGN,
+  borderValue,
+  gridColumns,
+  icon,
+  nativeRadioInputs,
+  paddingValue,
+  progressPercent,
+  px,
+  selectOptions
+} from './shared.js';
+
+// Aceternity UI components are copied into the project, one module per component
+const MODULES: Record<string, string> = {
+  CardBody: '3d-card',
+  CardContainer: '3d-card',
+  CardItem: '3d-card',
+  Input: 'input',
+  Label: 'label',
+  Modal: 'animated-modal',
+  ModalBody: 'animated-modal',
+  ModalContent: 'animated-modal',
+  ModalTrigger: 'animated-modal',
+  Tabs: 'tabs'
+};
+
+function ui(writer: ComponentWriter, name: string): string {
+  return writer.use(name, `@/components/ui/${MODULES[name]}`);
+}
+
+/**
+ * Tailwind class list, leaving out the unset ones
+ */
+function classes(...names: (string | false | undefined)[]): string {
+  return names.filter(Boolean).join(' ');
+}
+
+const BUTTON_SIZES = { small: 'px-3 py-1.5 text-sm', medium: 'px-4 py-2 text-sm', large: 'px-6 py-3 text-base' } as const;
+const ICON_BUTTON_SIZES = { small: 'h-8 w-8', medium: 'h-10 w-10', large: 'h-12 w-12' } as const;
+const FIELD_HEIGHTS = { small: 'h-8', medium: 'h-10', large: 'h-12' } as const;
+
+/**
+ * Aceternity UI templates. The allow-list only has showcase components, so
+ * buttons, the accordion, select, radio group and progress bar are plain
+ * elements with Tailwind classes. Aceternity's Tabs is horizontal only, has no
+ * controlled value and opens on its first tab, so the default tab moves to the front.
+ */
+export const aceternityTemplate: ExportTemplate = {
+  provider: 'aceternity',
+
+  components: {
+    button(config) {
+      const { styles = {} } = config;
+      const contained = config.variant === 'contained';
+      return h('button', {
+        type: 'button',
+        className: classes(
+          'rounded-md font-medium transition-colors',
+          BUTTON_SIZES[config.size],
+          contained ? 'bg-black text-white dark:bg-white dark:text-black' : 'border border-neutral-300 dark:border-neutral-700'
+        ),
+        style: {
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding)
+        }
+      }, config.label);
+    },
+
+    'icon-button'(config, writer) {
+      const { styles = {} } = config;
+      const showLabel = Boolean(config.showLabel && config.label);
+      return h('button', {
+        type: 'button',
+        'aria-label': showLabel ? undefined : config.label || 'Add',
+        className: classes(
+          'inline-flex items-center justify-center gap-2 rounded-md font-medium',
+          showLabel ? BUTTON_SIZES[config.size] : ICON_BUTTON_SIZES[config.size],
+          config.variant === 'contained' ? 'bg-black text-white dark:bg-white dark:text-black' : 'border border-neutral-300 dark:border-neutral-700'
+        ),
+        style: {
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding)
+        }
+      },
+        icon(writer, { className: 'h-4 w-4' }),
+        showLabel ? config.label : null
+      );
+    },
+
+    accordion(config) {
+      const { styles = {} } = config;
+      return h('details', {
+        className: 'w-full rounded-lg border border-neutral-200 px-4 py-3 dark:border-neutral-800',
+        style: {
+          borderColor: styles.borderColor,
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor
+        }
+      },
+        h('summary', { className: 'cursor-pointer font-medium', style: { color: styles.titleColor } }, config.title ?? ''),
+        h('p', { className: 'mt-2 text-sm text-neutral-600 dark:text-neutral-400', style: { color: styles.answerColor } }, config.content ?? '')
+      );
+    },
+
+    input(config, writer) {
+      const { styles = {} } = config;
+      const id = writer.uniqueName('input');
+      return h('div', { className: 'flex w-full flex-col gap-2' },
+        h(ui(writer, 'Label'), { htmlFor: id }, config.label),
+        h(ui(writer, 'Input'), {
+          id,
+          placeholder: config.placeholder,
+          className: classes(
+            FIELD_HEIGHTS[config.size],
+            config.variant === 'standard' && 'rounded-none shadow-none',
+            styles.focusColor && `focus-visible:ring-[${styles.focusColor}]`
+          ),
+          style: {
+            borderRadius: styles.borderRadius,
+            border: styles.borderColor ? `1px solid ${styles.borderColor}` : undefined,
+            backgroundColor: styles.backgroundColor,
+            color: styles.fontColor,
+            padding: paddingValue(styles.padding)
+          }
+        })
+      );
+    },
+
+    select(config, writer) {
+      const { styles = {} } = config;
+      const selected = writer.state('selected', config.value);
+      const id = writer.uniqueName('select');
+      const select = h('select', {
+        id: config.label ? id : undefined,
+        value: expr(selected.value),
+        onChange: expr(`event => ${selected.setter}(event.target.value)`),
+        disabled: config.disabled || undefined,
+        className: classes(
+          'w-full rounded-md border border-neutral-300 bg-white px-3 text-sm dark:border-neutral-700 dark:bg-zinc-800',
+          FIELD_HEIGHTS[config.size ?? 'medium']
+        ),
+        style: {
+          color: styles.color,
+          backgroundColor: styles.backgroundColor,
+          borderRadius: styles.borderRadius,
+          borderColor: styles.borderColor
+        }
+      },
+        config.placeholder ? h('option', { value: '', disabled: true }, config.placeholder) : null,
+        ...selectOptions(config).map(option => h('option', { value: option.value }, option.label))
+      );
+
+      if (!config.label) return select;
+      return h('div', { className: 'flex w-full flex-col gap-2' },
+        h(ui(writer, 'Label'), { htmlFor: id }, config.label),
+        select
+      );
+    },
+
+    radio(config, writer) {
+      const { styles = {} } = config;
+      return h('div', {
+        role: 'radiogroup',
+        className: 'flex flex-col gap-2',
+        style: {
+          backgroundColor: styles.backgroundColor,
+          border: styles.borderColor ? `1px solid ${styles.borderColor}` : undefined,
+          borderRadius: styles.backgroundColor || styles.borderColor ? 8 : undefined,
+          padding: styles.backgroundColor || styles.borderColor ? 12 : undefined
+        }
+      }, ...nativeRadioInputs(config, writer, (input, value) =>
+        h('label', { className: 'flex items-center gap-2 text-sm', style: { color: styles.color ?? config.color } },
+          input,
+          value
+        )
+      ));
+    },
+
+    card(config, writer) {
+      const { styles = {} } = config;
+      const CardItem = ui(writer, 'CardItem');
+      // CardBody only takes a className, so the configured styles go on the panel inside it
+      return h(ui(writer, 'CardContainer'), {},
+        h(ui(writer, 'CardBody'), { className: 'h-auto w-auto max-w-sm' },
+          h('div', {
+            className: 'overflow-hidden rounded-xl border border-black/[0.1] bg-gray-50 dark:border-white/[0.2] dark:bg-black',
+            style: {
+              backgroundColor: styles.backgroundColor,
+              border: borderValue(styles.borderWidth, undefined, styles.borderColor),
+              borderRadius: styles.borderRadius,
+              boxShadow: styles.shadow ? CARD_SHADOWS[styles.shadow] : undefined
+            }
+          },
+            config.image !== false
+              ? h(CardItem, { translateZ: 80, className: 'w-full' },
+                  h('img', { src: CARD_IMAGE_URL, alt: '', className: 'h-40 w-full object-cover' })
+                )
+              : null,
+            h('div', { className: 'p-6', style: { padding: paddingValue(styles.padding) } },
+              h(CardItem, { translateZ: 50, className: 'text-xl font-bold', style: { color: styles.titleColor } }, config.title),
+              h(CardItem, { translateZ: 60, as: 'p', className: 'mt-2 text-sm text-neutral-500', style: { color: styles.fontColor } }, config.description)
+            )
+          )
+        )
+      );
+    },
+
+    modal(config, writer) {
+      const { styles = {} } = config;
+      return h(ui(writer, 'Modal'), {},
+        h(ui(writer, 'ModalTrigger'), { className: 'rounded-md bg-black px-4 py-2 text-white dark:bg-white dark:text-black' }, 'Open'),
+        h(ui(writer, 'ModalBody'), {
+          className: classes(
+            styles.backgroundColor && `bg-[${styles.backgroundColor}]`,
+            styles.borderRadius !== undefined && `rounded-[${px(styles.borderRadius)}]`
+          )
+        },
+          h(ui(writer, 'ModalContent'), {},
+            h('h4', { className: 'mb-4 text-lg font-bold', style: { color: styles.titleColor } }, config.title),
+            h('p', { className: 'text-sm', style: { color: styles.textColor } }, config.content)
+          )
+        )
+      );
+    },
+
+    tabs(config, writer) {
+      const { styles = {} } = config;
+      const ordered = [
+        ...config.tabs.filter(tab => tab.value === config.defaultValue),
+        ...config.tabs.filter(tab => tab.value !== config.defaultValue)
+      ];
+
+      return h('div', {
+        className: 'flex w-full flex-col items-start',
+        style: { backgroundColor: styles.backgroundColor, borderRadius: styles.borderRadius, padding: styles.padding }
+      },
+        h(ui(writer, 'Tabs'), {
+          tabs: ordered.map(tab => ({ title: tab.label, value: tab.value, content: tab.content })),
+          contentClassName: 'rounded-xl bg-white p-6 text-neutral-700 dark:bg-zinc-900 dark:text-neutral-200',
+          activeTabClassName: styles.activeColor ? `bg-[${styles.activeColor}]` : undefined,
+          tabClassName: styles.inactiveColor ? `text-[${styles.inactiveColor}]` : undefined
+        })
+      );
+    },
+
+    progress(config) {
+      const { styles = {} } = config;
+      const height = styles.height ?? { small: 4, medium: 8, large: 12 }[config.size ?? 'medium'];
+      const bar = h('div', {
+        role: 'progressbar',
+        'aria-valuenow': config.value ?? 0,
+        'aria-valuemin': 0,
+        'aria-valuemax': config.max ?? 100,
+        className: 'w-full overflow-hidden bg-neutral-200 dark:bg-neutral-800',
+        style: { height, borderRadius: styles.borderRadius ?? height / 2, backgroundColor: styles.trackColor }
+      },
+        h('div', {
+          className: 'h-full bg-black transition-all dark:bg-white',
+          style: { width: `${progressPercent(config)}%`, backgroundColor: styles.indicatorColor }
+        })
+      );
+
+      if (!config.label) return bar;
+      return h('div', { className: 'flex w-full flex-col gap-2' },
+        h('span', { className: 'text-sm' }, config.label),
+        bar
+      );
+    }
+  },
+
+  stack(node, children) {
+    return h('div', {
+      className: node.direction === 'horizontal' ? 'flex flex-row' : 'flex flex-col',
+      style: {
+        gap: node.gap,
+        padding: node.padding,
+        alignItems: node.align ? FLEX_ALIGN[node.align] : undefined
+      }
+    }, ...children);
+  },
+
+  grid(node, children) {
+    return h('div', {
+      className: 'grid',
+      style: { gridTemplateColumns: gridColumns(node.columns), gap: node.gap, padding: node.padding }
+    }, ...children);
+  }
+};
@@ -0,0 +1,270 @@
+import { expr, h, toLiteral } from '../../utils/jsxWriter.js';
+import {
+  ExportTemplate,
+  CARD_IMAGE_URL,
+  CARD_SHADOWS,
+  FLEX_ALIGN,
+  borderValue,
+  gridColumns,
+  icon,
+  nativeRadioInputs,
+  paddingValue,
+  progressPercent,
+  selectOptions
+} from './shared.js';
+
+const SOURCE = 'antd';
+
+const SIZES = { small: 'small', medium: 'middle', large: 'large' } as const;
+
+/**
+ * antd v5 templates, styled through `style` (and the `styles` slots where a
+ * component has them). Collapse and Radio are not on antd's allow-list, so
+ * the accordion is a native <details> and the radio group native inputs.
+ */
+export const antdTemplate: ExportTemplate = {
+  provider: 'antd',
+
+  components: {
+    button(config, writer) {
+      const { styles = {} } = config;
+      return h(writer.use('Button', SOURCE), {
+        type: config.variant === 'contained' ? 'primary' : 'default',
+        size: SIZES[config.size],
+        style: {
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding),
+          height: styles.padding ? 'auto' : undefined
+        }
+      }, config.label);
+    },
+
+    'icon-button'(config, writer) {
+      const { styles = {} } = config;
+      const showLabel = Boolean(config.showLabel && config.label);
+      return h(writer.use('Button', SOURCE), {
+        type: config.variant === 'contained' ? 'primary' : 'default',
+        size: SIZES[config.size],
+        icon: icon(writer, { size: 16 }),
+        'aria-label': showLabel ? undefined : config.label || 'Add',
+        style: {
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding),
+          height: styles.padding ? 'auto' : undefined
+        }
+      }, showLabel ? config.label : null);
+    },
+
+    accordion(config, writer) {
+      const { styles = {} } = config;
+      const Typography = writer.use('Typography', SOURCE);
+      return h('details', {
+        style: {
+          padding: '12px 16px',
+          border: `1px solid ${styles.borderColor ?? '#f0f0f0'}`,
+          borderRadius: styles.borderRadius ?? 8,
+          backgroundColor: styles.backgroundColor
+        }
+      },
+        h('summary', { style: { cursor: 'pointer' } },
+          h(`${Typography}.Text`, { strong: true, style: { color: styles.titleColor } }, config.title ?? '')
+        ),
+        h(`${Typography}.Paragraph`, { style: { marginTop: 8, marginBottom: 0, color: styles.answerColor } }, config.content ?? '')
+      );
+    },
+
+    input(config, writer) {
+      const { styles = {} } = config;
+      const id = writer.uniqueName('input');
+      return h(writer.use('Flex', SOURCE), { vertical: true, gap: 4 },
+        h('label', { htmlFor: id }, config.label),
+        h(writer.use('Input', SOURCE), {
+          id,
+          placeholder: config.placeholder,
+          variant: config.variant === 'standard' ? 'underlined' : 'outlined',
+          size: SIZES[config.size],
+          style: {
+            borderRadius: styles.borderRadius,
+            borderColor: styles.borderColor,
+            backgroundColor: styles.backgroundColor,
+            color: styles.fontColor,
+            padding: paddingValue(styles.padding)
+          }
+        })
+      );
+    },
+
+    select(config, writer) {
+      const { styles = {} } = config;
+      const selected = writer.state('selected', config.value);
+      // The wrapper draws the configured field chrome around a borderless select
+      const framed = Boolean(styles.backgroundColor || styles.borderColor || styles.borderRadius !== undefined);
+      const select = h(writer.use('Select', SOURCE), {
+        value: expr(selected.value),
+        onChange: expr(selected.setter),
+        options: selectOptions(config),
+        placeholder: config.placeholder,
+        size: config.size ? SIZES[config.size] : undefined,
+        disabled: config.disabled || undefined,
+        variant: framed ? 'borderless' : undefined,
+        style: { width: '100%' },
+        labelRender: styles.color ? expr(`({ label }) => <span style={{ color: ${toLiteral(styles.color)} }}>{label}</span>`) : undefined
+      });
+
+      const field = framed
+        ? h('div', {
+            style: {
+              backgroundColor: styles.backgroundColor,
+              border: `1px solid ${styles.borderColor ?? '#d9d9d9'}`,
+              borderRadius: styles.borderRadius ?? 6
+            }
+          }, select)
+        : select;
+
+      if (!config.label) return field;
+      return h(writer.use('Flex', SOURCE), { vertical: true, gap: 4 },
+        h('label', {}, config.label),
+        field
+      );
+    },
+
+    radio(config, writer) {
+      const { styles = {} } = config;
+      return h(writer.use('Flex', SOURCE), {
+        vertical: true,
+        gap: 8,
+        role: 'radiogroup',
+        style: {
+          backgroundColor: styles.backgroundColor,
+          border: styles.borderColor ? `1px solid ${styles.borderColor}` : undefined,
+          borderRadius: styles.backgroundColor || styles.borderColor ? 8 : undefined,
+          padding: styles.backgroundColor || styles.borderColor ? 12 : undefined
+        }
+      }, ...nativeRadioInputs(config, writer, (input, value) =>
+        h('label', { style: { display: 'flex', alignItems: 'center', gap: 8, color: styles.color ?? config.color } },
+          input,
+          value
+        )
+      ));
+    },
+
+    card(config, writer) {
+      const { styles = {} } = config;
+      const Typography = writer.use('Typography', SOURCE);
+      return h(writer.use('Card', SOURCE), {
+        cover: config.image !== false
+          ? h('img', { alt: '', src: CARD_IMAGE_URL, style: { height: 160, objectFit: 'cover' } })
+          : undefined,
+        style: {
+          maxWidth: 360,
+          overflow: 'hidden',
+          backgroundColor: styles.backgroundColor,
+          border: borderValue(styles.borderWidth, undefined, styles.borderColor),
+          borderRadius: styles.borderRadius,
+          boxShadow: styles.shadow ? CARD_SHADOWS[styles.shadow] : undefined
+        },
+        styles: { body: { padding: paddingValue(styles.padding) } }
+      },
+        h(`${Typography}.Title`, { level: 4, style: { marginTop: 0, color: styles.titleColor } }, config.title),
+        h(`${Typography}.Paragraph`, { style: { marginBottom: 0, color: styles.fontColor } }, config.description)
+      );
+    },
+
+    modal(config, writer) {
+      const { styles = {} } = config;
+      const open = writer.state('open', false);
+      const close = expr(`() => ${open.setter}(false)`);
+
+      return h('', {},
+        h(writer.use('Button', SOURCE), { type: 'primary', onClick: expr(`() => ${open.setter}(true)`) }, 'Open'),
+        h(writer.use('Modal', SOURCE), {
+          title: styles.titleColor ? h('span', { style: { color: styles.titleColor } }, config.title) : config.title,
+          open: expr(open.value),
+          onOk: close,
+          onCancel: close,
+          styles: {
+            content: { backgroundColor: styles.backgroundColor, borderRadius: styles.borderRadius },
+            header: { backgroundColor: styles.backgroundColor },
+            mask: { backgroundColor: styles.overlayColor }
+          }
+        },
+          h(`${writer.use('Typography', SOURCE)}.Paragraph`, { style: { color: styles.textColor } }, config.content)
+        )
+      );
+    },
+
+    tabs(config, writer) {
+      const { styles = {} } = config;
+      const active = writer.state('activeTab', config.defaultValue);
+      const colored = styles.activeColor || styles.inactiveColor;
+
+      return h(writer.use('Tabs', SOURCE), {
+        activeKey: expr(active.value),
+        onChange: expr(active.setter),
+        tabPosition: config.orientation === 'vertical' ? 'left' : undefined,
+        type: config.variant === 'enclosed' || config.variant === 'outline' ? 'card' : undefined,
+        style: {
+          backgroundColor: styles.backgroundColor,
+          borderRadius: styles.borderRadius,
+          padding: styles.padding
+        },
+        items: config.tabs.map(tab => ({
+          key: tab.value,
+          label: colored
+            ? h('span', {
+                style: {
+                  color: expr(`${active.value} === ${toLiteral(tab.value)} ? ${toLiteral(styles.activeColor ?? '#1677FF')} : ${toLiteral(styles.inactiveColor ?? 'rgba(0, 0, 0, 0.88)')}`)
+                }
+              }, tab.label)
+            : tab.label,
+          children: tab.content
+        }))
+      });
+    },
+
+    progress(config, writer) {
+      const { styles = {} } = config;
+      const height = styles.height ?? { small: 6, medium: 8, large: 12 }[config.size ?? 'medium'];
+      const progress = h(writer.use('Progress', SOURCE), {
+        percent: progressPercent(config),
+        showInfo: false,
+        size: ['100%', height],
+        strokeColor: styles.indicatorColor,
+        trailColor: styles.trackColor,
+        strokeLinecap: styles.borderRadius === 0 ? 'square' : undefined
+      });
+
+      if (!config.label) return progress;
+      return h(writer.use('Flex', SOURCE), { vertical: true, gap: 4 },
+        h(`${writer.use('Typography', SOURCE)}.Text`, {}, config.label),
+        progress
+      );
+    }
+  },
+
+  stack(node, children, writer) {
+    return h(writer.use('Flex', SOURCE), {
+      vertical: node.direction !== 'horizontal',
+      gap: node.gap,
+      align: node.align ? FLEX_ALIGN[node.align] : undefined,
+      style: { padding: node.padding }
+    }, ...children);
+  },
+
+  grid(node, children) {
+    return h('div', {
+      style: {
+        display: 'grid',
+        gridTemplateColumns: gridColumns(node.columns),
+        gap: node.gap,
+        padding: node.padding
+      }
+    }, ...children);
+  }
+};
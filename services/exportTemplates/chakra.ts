@@ -0,0 +1,263 @@
+import { expr, h } from '../../utils/jsxWriter.js';
+import {
+  ExportTemplate,
+  CARD_IMAGE_URL,
+  CARD_SHADOWS,
+  FLEX_ALIGN,
+  gridColumns,
+  icon,
+  nativeRadioInputs,
+  paddingValue,
+  progressPercent,
+  px,
+  selectOptions
+} from './shared.js';
+
+const SOURCE = '@chakra-ui/react';
+
+const SIZES = { small: 'sm', medium: 'md', large: 'lg' } as const;
+
+const TAB_VARIANTS = {
+  standard: 'line',
+  enclosed: 'enclosed',
+  outline: 'enclosed-colored',
+  soft: 'soft-rounded',
+  solid: 'solid-rounded'
+} as const;
+
+/**
+ * Chakra UI v2 templates, styled with style props. Sizes and spacing are
+ * written as px strings so they do not go through the theme's space scale.
+ */
+export const chakraTemplate: ExportTemplate = {
+  provider: 'chakra',
+  version: '2',
+
+  components: {
+    button(config, writer) {
+      const { styles = {} } = config;
+      return h(writer.use('Button', SOURCE), {
+        variant: config.variant === 'outlined' ? 'outline' : 'solid',
+        size: SIZES[config.size],
+        bg: styles.backgroundColor,
+        color: styles.fontColor,
+        borderRadius: px(styles.borderRadius),
+        borderColor: styles.borderColor,
+        borderStyle: styles.borderStyle,
+        borderWidth: px(styles.borderWidth),
+        padding: paddingValue(styles.padding),
+        _hover: styles.backgroundColor ? { bg: styles.backgroundColor, opacity: 0.9 } : undefined
+      }, config.label);
+    },
+
+    'icon-button'(config, writer) {
+      const { styles = {} } = config;
+      const style = {
+        variant: config.variant === 'outlined' ? 'outline' : 'solid',
+        size: SIZES[config.size],
+        bg: styles.backgroundColor,
+        color: styles.fontColor,
+        borderRadius: px(styles.borderRadius),
+        borderColor: styles.borderColor,
+        borderStyle: styles.borderStyle,
+        borderWidth: px(styles.borderWidth),
+        padding: paddingValue(styles.padding)
+      };
+
+      if (config.showLabel && config.label) {
+        return h(writer.use('Button', SOURCE), { leftIcon: icon(writer, { size: 16 }), ...style }, config.label);
+      }
+      return h(writer.use('IconButton', SOURCE), {
+        'aria-label': config.label || 'Add',
+        icon: icon(writer, { size: 18 }),
+        ...style
+      });
+    },
+
+    accordion(config, writer) {
+      const { styles = {} } = config;
+      const Text = writer.use('Text', SOURCE);
+      return h(writer.use('Box', SOURCE), {
+        as: 'details',
+        borderWidth: '1px',
+        borderColor: styles.borderColor,
+        borderRadius: px(styles.borderRadius),
+        bg: styles.backgroundColor,
+        padding: '12px 16px'
+      },
+        h(Text, { as: 'summary', fontWeight: 'semibold', cursor: 'pointer', color: styles.titleColor }, config.title ?? ''),
+        h(Text, { marginTop: '8px', color: styles.answerColor }, config.content ?? '')
+      );
+    },
+
+    input(config, writer) {
+      const { styles = {} } = config;
+      const id = writer.uniqueName('input');
+      return h(writer.use('Box', SOURCE), {},
+        h(writer.use('Text', SOURCE), { as: 'label', htmlFor: id, display: 'block', fontSize: 'sm', marginBottom: '4px' }, config.label),
+        h(writer.use('Input', SOURCE), {
+          id,
+          placeholder: config.placeholder,
+          variant: config.variant === 'standard' ? 'flushed' : 'outline',
+          size: SIZES[config.size],
+          borderRadius: px(styles.borderRadius),
+          borderColor: styles.borderColor,
+          focusBorderColor: styles.focusColor,
+          bg: styles.backgroundColor,
+          color: styles.fontColor,
+          padding: paddingValue(styles.padding)
+        })
+      );
+    },
+
+    select(config, writer) {
+      const { styles = {} } = config;
+      const selected = writer.state('selected', config.value);
+      const select = h(writer.use('Select', SOURCE), {
+        value: expr(selected.value),
+        onChange: expr(`(event) => ${selected.setter}(event.target.value)`),
+        placeholder: config.placeholder,
+        size: config.size ? SIZES[config.size] : undefined,
+        isDisabled: config.disabled || undefined,
+        bg: styles.backgroundColor,
+        color: styles.color,
+        borderColor: styles.borderColor,
+        borderRadius: px(styles.borderRadius)
+      }, ...selectOptions(config).map(option => h('option', { value: option.value }, option.label)));
+
+      if (!config.label) return select;
+      return h(writer.use('Box', SOURCE), {},
+        h(writer.use('Text', SOURCE), { as: 'label', display: 'block', fontSize: 'sm', marginBottom: '4px' }, config.label),
+        select
+      );
+    },
+
+    radio(config, writer) {
+      const { styles = {} } = config;
+      const Text = writer.use('Text', SOURCE);
+      return h(writer.use('Stack', SOURCE), {
+        role: 'radiogroup',
+        spacing: '8px',
+        bg: styles.backgroundColor,
+        borderWidth: styles.borderColor ? '1px' : undefined,
+        borderColor: styles.borderColor,
+        borderRadius: styles.backgroundColor || styles.borderColor ? '8px' : undefined,
+        padding: styles.backgroundColor || styles.borderColor ? '12px' : undefined
+      }, ...nativeRadioInputs(config, writer, (input, value) =>
+        h(writer.use('HStack', SOURCE), { as: 'label', spacing: '8px', color: styles.color ?? config.color },
+          input,
+          h(Text, { fontSize: config.size ? SIZES[config.size] : undefined }, value)
+        )
+      ));
+    },
+
+    card(config, writer) {
+      const { styles = {} } = config;
+      return h(writer.use('Card', SOURCE), {
+        maxW: '360px',
+        overflow: 'hidden',
+        bg: styles.backgroundColor,
+        borderWidth: px(styles.borderWidth ?? (styles.borderColor ? 1 : undefined)),
+        borderColor: styles.borderColor,
+        borderRadius: px(styles.borderRadius),
+        boxShadow: styles.shadow ? CARD_SHADOWS[styles.shadow] : undefined
+      },
+        config.image !== false
+          ? h(writer.use('Box', SOURCE), { as: 'img', src: CARD_IMAGE_URL, alt: '', width: '100%', height: '160px', objectFit: 'cover' })
+          : null,
+        h(writer.use('CardBody', SOURCE), { padding: paddingValue(styles.padding) },
+          h(writer.use('Heading', SOURCE), { size: 'md', color: styles.titleColor }, config.title),
+          h(writer.use('Text', SOURCE), { marginTop: '8px', color: styles.fontColor }, config.description)
+        )
+      );
+    },
+
+    modal(config, writer) {
+      const { styles = {} } = config;
+      const open = writer.state('isOpen', false);
+      const Button = writer.use('Button', SOURCE);
+      const close = expr(`() => ${open.setter}(false)`);
+
+      return h('', {},
+        h(Button, { onClick: expr(`() => ${open.setter}(true)`) }, 'Open'),
+        h(writer.use('Modal', SOURCE), { isOpen: expr(open.value), onClose: close, isCentered: true },
+          h(writer.use('ModalOverlay', SOURCE), { bg: styles.overlayColor }),
+          h(writer.use('ModalContent', SOURCE), { bg: styles.backgroundColor, borderRadius: px(styles.borderRadius) },
+            h(writer.use('ModalHeader', SOURCE), { color: styles.titleColor }, config.title),
+            h(writer.use('ModalCloseButton', SOURCE)),
+            h(writer.use('ModalBody', SOURCE), { color: styles.textColor }, config.content),
+            h(writer.use('ModalFooter', SOURCE), {},
+              h(Button, { onClick: close }, 'Close')
+            )
+          )
+        )
+      );
+    },
+
+    tabs(config, writer) {
+      const { styles = {} } = config;
+      const defaultIndex = Math.max(config.tabs.findIndex(tab => tab.value === config.defaultValue), 0);
+      const Tab = writer.use('Tab', SOURCE);
+      const TabPanel = writer.use('TabPanel', SOURCE);
+
+      return h(writer.use('Tabs', SOURCE), {
+        defaultIndex,
+        orientation: config.orientation,
+        variant: config.variant ? TAB_VARIANTS[config.variant] : undefined,
+        bg: styles.backgroundColor,
+        borderRadius: px(styles.borderRadius),
+        padding: px(styles.padding)
+      },
+        h(writer.use('TabList', SOURCE), {},
+          ...config.tabs.map(tab => h(Tab, {
+            color: styles.inactiveColor,
+            _selected: styles.activeColor ? { color: styles.activeColor, borderColor: styles.activeColor } : undefined
+          }, tab.label))
+        ),
+        h(writer.use('TabPanels', SOURCE), {},
+          ...config.tabs.map(tab => h(TabPanel, {}, tab.content))
+        )
+      );
+    },
+
+    progress(config, writer) {
+      const { styles = {} } = config;
+      const Box = writer.use('Box', SOURCE);
+      const height = styles.height ?? { small: 4, medium: 8, large: 12 }[config.size ?? 'medium'];
+
+      return h(Box, {},
+        config.label ? h(writer.use('Text', SOURCE), { fontSize: 'sm', marginBottom: '4px' }, config.label) : null,
+        h(Box, {
+          role: 'progressbar',
+          'aria-valuenow': config.value ?? 0,
+          'aria-valuemin': 0,
+          'aria-valuemax': config.max ?? 100,
+          height: px(height),
+          overflow: 'hidden',
+          borderRadius: px(styles.borderRadius ?? height / 2),
+          bg: styles.trackColor ?? 'gray.100'
+        },
+          h(Box, { width: `${progressPercent(config)}%`, height: '100%', bg: styles.indicatorColor ?? 'blue.500' })
+        )
+      );
+    }
+  },
+
+  stack(node, children, writer) {
+    return h(writer.use('Stack', SOURCE), {
+      direction: node.direction === 'horizontal' ? 'row' : 'column',
+      spacing: px(node.gap),
+      padding: px(node.padding),
+      align: node.align ? FLEX_ALIGN[node.align] : undefined
+    }, ...children);
+  },
+
+  grid(node, children, writer) {
+    return h(writer.use('Box', SOURCE), {
+      display: 'grid',
+      gridTemplateColumns: gridColumns(node.columns),
+      gap: px(node.gap),
+      padding: px(node.padding)
+    }, ...children);
+  }
+};
@@ -0,0 +1,317 @@
+import { expr, h, toLiteral, when } from '../../utils/jsxWriter.js';
+import {
+  ExportTemplate,
+  CARD_IMAGE_URL,
+  CARD_SHADOWS,
+  FLEX_ALIGN,
+  borderValue,
+  gridColumns,
+  icon,
+  nativeRadioInputs,
+  paddingValue,
+  progressPercent,
+  px,
+  selectOptions
+} from './shared.js';
+
+const SOURCE = '@mui/material';
+
+// MUI has no large text field or select; large maps to medium
+const FIELD_SIZES = { small: 'small', medium: 'medium', large: 'medium' } as const;
+
+/**
+ * MUI v5/v6 templates. Styles go through `sx` with explicit px strings, since
+ * bare numbers there are multiplied by the theme's spacing and shape scales.
+ * Accordion, radio, dialog, tabs and linear progress are not on MUI's
+ * allow-list and are built from Box/Paper/Button instead.
+ */
+export const muiTemplate: ExportTemplate = {
+  provider: 'mui',
+
+  components: {
+    button(config, writer) {
+      const { styles = {} } = config;
+      return h(writer.use('Button', SOURCE), {
+        variant: config.variant,
+        size: config.size,
+        sx: {
+          textTransform: 'none',
+          borderRadius: px(styles.borderRadius),
+          bgcolor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding)
+        }
+      }, config.label);
+    },
+
+    'icon-button'(config, writer) {
+      const { styles = {} } = config;
+      const sx = {
+        borderRadius: px(styles.borderRadius),
+        bgcolor: styles.backgroundColor,
+        color: styles.fontColor,
+        border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+        padding: paddingValue(styles.padding)
+      };
+
+      if (config.showLabel && config.label) {
+        return h(writer.use('Button', SOURCE), {
+          variant: config.variant,
+          size: config.size,
+          startIcon: icon(writer, { size: 18 }),
+          sx: { textTransform: 'none', ...sx }
+        }, config.label);
+      }
+      return h(writer.use('IconButton', SOURCE), {
+        'aria-label': config.label || 'Add',
+        size: config.size,
+        sx
+      }, icon(writer));
+    },
+
+    accordion(config, writer) {
+      const { styles = {} } = config;
+      const Typography = writer.use('Typography', SOURCE);
+      return h(writer.use('Paper', SOURCE), {
+        component: 'details',
+        variant: 'outlined',
+        sx: {
+          padding: '12px 16px',
+          borderRadius: px(styles.borderRadius),
+          bgcolor: styles.backgroundColor,
+          borderColor: styles.borderColor
+        }
+      },
+        h(Typography, {
+          component: 'summary',
+          sx: { cursor: 'pointer', fontWeight: 600, color: styles.titleColor }
+        }, config.title ?? ''),
+        h(Typography, { sx: { marginTop: '8px', color: styles.answerColor } }, config.content ?? '')
+      );
+    },
+
+    input(config, writer) {
+      const { styles = {} } = config;
+      return h(writer.use('TextField', SOURCE), {
+        label: config.label,
+        placeholder: config.placeholder,
+        variant: config.variant,
+        size: FIELD_SIZES[config.size],
+        fullWidth: true,
+        sx: {
+          '& .MuiInputBase-root': {
+            borderRadius: px(styles.borderRadius),
+            bgcolor: styles.backgroundColor,
+            color: styles.fontColor
+          },
+          '& .MuiInputBase-input': { padding: paddingValue(styles.padding) },
+          '& .MuiOutlinedInput-notchedOutline': styles.borderColor ? { borderColor: styles.borderColor } : undefined,
+          '& .Mui-focused .MuiOutlinedInput-notchedOutline': styles.focusColor ? { borderColor: styles.focusColor } : undefined
+        }
+      });
+    },
+
+    select(config, writer) {
+      const { styles = {} } = config;
+      const selected = writer.state('selected', config.value);
+      const MenuItem = writer.use('MenuItem', SOURCE);
+      const select = h(writer.use('Select', SOURCE), {
+        value: expr(selected.value),
+        onChange: expr(`(event) => ${selected.setter}(event.target.value)`),
+        displayEmpty: config.placeholder ? true : undefined,
+        size: config.size ? FIELD_SIZES[config.size] : undefined,
+        disabled: config.disabled || undefined,
+        fullWidth: true,
+        sx: {
+          borderRadius: px(styles.borderRadius),
+          bgcolor: styles.backgroundColor,
+          color: styles.color,
+          '& .MuiOutlinedInput-notchedOutline': styles.borderColor ? { borderColor: styles.borderColor } : undefined
+        }
+      },
+        config.placeholder ? h(MenuItem, { value: '', disabled: true }, config.placeholder) : null,
+        ...selectOptions(config).map(option => h(MenuItem, { value: option.value }, option.label))
+      );
+
+      if (!config.label) return select;
+      return h(writer.use('Box', SOURCE), {},
+        h(writer.use('Typography', SOURCE), { variant: 'body2', component: 'label', sx: { display: 'block', marginBottom: '4px' } }, config.label),
+        select
+      );
+    },
+
+    radio(config, writer) {
+      const { styles = {} } = config;
+      const Box = writer.use('Box', SOURCE);
+      const Typography = writer.use('Typography', SOURCE);
+      return h(writer.use('Stack', SOURCE), {
+        role: 'radiogroup',
+        spacing: 1,
+        sx: {
+          bgcolor: styles.backgroundColor,
+          border: styles.borderColor ? `1px solid ${styles.borderColor}` : undefined,
+          padding: styles.backgroundColor || styles.borderColor ? '12px' : undefined,
+          borderRadius: styles.backgroundColor || styles.borderColor ? '8px' : undefined
+        }
+      }, ...nativeRadioInputs(config, writer, (input, value) =>
+        h(Box, {
+          component: 'label',
+          sx: { display: 'flex', alignItems: 'center', gap: '8px', color: styles.color ?? config.color }
+        }, input, h(Typography, { variant: config.size === 'small' ? 'body2' : 'body1' }, value))
+      ));
+    },
+
+    card(config, writer) {
+      const { styles = {} } = config;
+      const Typography = writer.use('Typography', SOURCE);
+      return h(writer.use('Card', SOURCE), {
+        sx: {
+          maxWidth: '360px',
+          bgcolor: styles.backgroundColor,
+          border: borderValue(styles.borderWidth, undefined, styles.borderColor),
+          borderRadius: px(styles.borderRadius),
+          boxShadow: styles.shadow ? CARD_SHADOWS[styles.shadow] : undefined
+        }
+      },
+        config.image !== false
+          ? h(writer.use('Box', SOURCE), {
+              component: 'img',
+              src: CARD_IMAGE_URL,
+              alt: '',
+              sx: { display: 'block', width: '100%', height: '160px', objectFit: 'cover' }
+            })
+          : null,
+        h(writer.use('CardContent', SOURCE), { sx: { padding: paddingValue(styles.padding) } },
+          h(Typography, { variant: 'h6', sx: { color: styles.titleColor } }, config.title),
+          h(Typography, { variant: 'body2', sx: { marginTop: '8px', color: styles.fontColor } }, config.description)
+        )
+      );
+    },
+
+    modal(config, writer) {
+      const { styles = {} } = config;
+      const open = writer.state('open', false);
+      const Box = writer.use('Box', SOURCE);
+      const Button = writer.use('Button', SOURCE);
+      const Typography = writer.use('Typography', SOURCE);
+      const close = expr(`() => ${open.setter}(false)`);
+
+      return h('', {},
+        h(Button, { variant: 'contained', onClick: expr(`() => ${open.setter}(true)`) }, 'Open'),
+        when(open.value, h(Box, {
+          onClick: close,
+          sx: {
+            position: 'fixed',
+            inset: 0,
+            zIndex: 1300,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            bgcolor: styles.overlayColor ?? 'rgba(0, 0, 0, 0.5)'
+          }
+        },
+          h(writer.use('Paper', SOURCE), {
+            role: 'dialog',
+            'aria-modal': true,
+            onClick: expr('(event) => event.stopPropagation()'),
+            sx: { width: '100%', maxWidth: '480px', padding: '24px', borderRadius: px(styles.borderRadius), bgcolor: styles.backgroundColor }
+          },
+            h(Typography, { variant: 'h6', sx: { color: styles.titleColor } }, config.title),
+            h(Typography, { sx: { marginTop: '8px', color: styles.textColor } }, config.content),
+            h(Box, { sx: { display: 'flex', justifyContent: 'flex-end', marginTop: '24px' } },
+              h(Button, { onClick: close }, 'Close')
+            )
+          )
+        ))
+      );
+    },
+
+    tabs(config, writer) {
+      const { styles = {} } = config;
+      const active = writer.state('activeTab', config.defaultValue);
+      const Button = writer.use('Button', SOURCE);
+      const Typography = writer.use('Typography', SOURCE);
+      const vertical = config.orientation === 'vertical';
+
+      return h(writer.use('Box', SOURCE), {
+        sx: {
+          display: 'flex',
+          flexDirection: vertical ? 'row' : 'column',
+          gap: '16px',
+          bgcolor: styles.backgroundColor,
+          borderRadius: px(styles.borderRadius),
+          padding: px(styles.padding)
+        }
+      },
+        h(writer.use('Stack', SOURCE), { role: 'tablist', direction: vertical ? 'column' : 'row', spacing: 1 },
+          ...config.tabs.map(tab => {
+            const isActive = `${active.value} === ${toLiteral(tab.value)}`;
+            return h(Button, {
+              role: 'tab',
+              'aria-selected': expr(isActive),
+              onClick: expr(`() => ${active.setter}(${toLiteral(tab.value)})`),
+              sx: {
+                textTransform: 'none',
+                color: expr(`${isActive} ? ${toLiteral(styles.activeColor ?? '#1976D2')} : ${toLiteral(styles.inactiveColor ?? '#757575')}`),
+                borderBottom: vertical ? undefined : expr(`${isActive} ? '2px solid currentColor' : '2px solid transparent'`),
+                borderRadius: 0
+              }
+            }, tab.label);
+          })
+        ),
+        ...config.tabs.map(tab => when(
+          `${active.value} === ${toLiteral(tab.value)}`,
+          h(Typography, { role: 'tabpanel' }, tab.content)
+        ))
+      );
+    },
+
+    progress(config, writer) {
+      const { styles = {} } = config;
+      const Box = writer.use('Box', SOURCE);
+      const percent = progressPercent(config);
+      const height = styles.height ?? { small: 4, medium: 8, large: 12 }[config.size ?? 'medium'];
+
+      return h(Box, {},
+        config.label ? h(writer.use('Typography', SOURCE), { variant: 'body2', sx: { marginBottom: '4px' } }, config.label) : null,
+        h(Box, {
+          role: 'progressbar',
+          'aria-valuenow': config.value ?? 0,
+          'aria-valuemin': 0,
+          'aria-valuemax': config.max ?? 100,
+          sx: {
+            height: px(height),
+            overflow: 'hidden',
+            borderRadius: px(styles.borderRadius ?? height / 2),
+            bgcolor: styles.trackColor ?? '#E0E0E0'
+          }
+        },
+          h(Box, { sx: { width: `${percent}%`, height: '100%', bgcolor: styles.indicatorColor ?? '#1976D2' } })
+        )
+      );
+    }
+  },
+
+  stack(node, children, writer) {
+    return h(writer.use('Stack', SOURCE), {
+      direction: node.direction === 'horizontal' ? 'row' : 'column',
+      sx: {
+        gap: px(node.gap),
+        padding: px(node.padding),
+        alignItems: node.align ? FLEX_ALIGN[node.align] : undefined
+      }
+    }, ...children);
+  },
+
+  grid(node, children, writer) {
+    return h(writer.use('Box', SOURCE), {
+      sx: {
+        display: 'grid',
+        gridTemplateColumns: gridColumns(node.columns),
+        gap: px(node.gap),
+        padding: px(node.padding)
+      }
+    }, ...children);
+  }
+};
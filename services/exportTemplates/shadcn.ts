@@ -0,0 +1,301 @@
+import { ComponentWriter, expr, h, toLiteral } from '../../utils/jsxWriter.js';
+import {
+  ExportTemplate,
+  CARD_IMAGE_URL,
+  CARD_SHADOWS,
+  FLEX_ALIGN,
+  borderValue,
+  gridColumns,
+  icon,
+  paddingValue,
+  progressPercent,
+  selectOptions
+} from './shared.js';
+
+// shadcn/ui components live in one file each under the project's ui folder
+const MODULES: Record<string, string> = {
+  Accordion: 'accordion',
+  Button: 'button',
+  Card: 'card',
+  Dialog: 'dialog',
+  Input: 'input',
+  Label: 'label',
+  RadioGroup: 'radio-group',
+  Select: 'select',
+  Tabs: 'tabs'
+};
+
+/**
+ * Import a shadcn/ui component from its module, e.g. CardTitle from '@/components/ui/card'
+ */
+function ui(writer: ComponentWriter, name: string): string {
+  const family = Object.keys(MODULES).find(prefix => name.startsWith(prefix)) ?? name;
+  return writer.use(name, `@/components/ui/${MODULES[family]}`);
+}
+
+const BUTTON_SIZES = { small: 'sm', medium: 'default', large: 'lg' } as const;
+const FIELD_HEIGHTS = { small: 'h-8', medium: 'h-9', large: 'h-10' } as const;
+
+/**
+ * shadcn/ui templates: Tailwind classes for layout, inline styles for the
+ * configured colors and sizes. There is no progress component on the
+ * allow-list, so the bar is plain markup.
+ */
+export const shadcnTemplate: ExportTemplate = {
+  provider: 'shadcn',
+
+  components: {
+    button(config, writer) {
+      const { styles = {} } = config;
+      return h(ui(writer, 'Button'), {
+        variant: config.variant === 'outlined' ? 'outline' : 'default',
+        size: BUTTON_SIZES[config.size],
+        style: {
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding),
+          height: styles.padding ? 'auto' : undefined
+        }
+      }, config.label);
+    },
+
+    'icon-button'(config, writer) {
+      const { styles = {} } = config;
+      const showLabel = Boolean(config.showLabel && config.label);
+      return h(ui(writer, 'Button'), {
+        variant: config.variant === 'outlined' ? 'outline' : 'default',
+        size: showLabel ? BUTTON_SIZES[config.size] : 'icon',
+        'aria-label': showLabel ? undefined : config.label || 'Add',
+        style: {
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor,
+          color: styles.fontColor,
+          border: borderValue(styles.borderWidth, styles.borderStyle, styles.borderColor),
+          padding: paddingValue(styles.padding),
+          height: styles.padding ? 'auto' : undefined
+        }
+      },
+        icon(writer, { className: showLabel ? 'mr-2 h-4 w-4' : 'h-4 w-4' }),
+        showLabel ? config.label : null
+      );
+    },
+
+    accordion(config, writer) {
+      const { styles = {} } = config;
+      return h(ui(writer, 'Accordion'), {
+        type: 'single',
+        collapsible: true,
+        className: 'w-full px-4',
+        style: {
+          border: styles.borderColor ? `1px solid ${styles.borderColor}` : undefined,
+          borderRadius: styles.borderRadius,
+          backgroundColor: styles.backgroundColor
+        }
+      },
+        h(ui(writer, 'AccordionItem'), { value: 'item-1', className: 'border-b-0' },
+          h(ui(writer, 'AccordionTrigger'), { style: { color: styles.titleColor } }, config.title ?? ''),
+          h(ui(writer, 'AccordionContent'), { style: { color: styles.answerColor } }, config.content ?? '')
+        )
+      );
+    },
+
+    input(config, writer) {
+      const { styles = {} } = config;
+      const id = writer.uniqueName('input');
+      const classes = [
+        FIELD_HEIGHTS[config.size],
+        config.variant === 'standard' ? 'rounded-none border-0 border-b shadow-none focus-visible:ring-0' : null,
+        styles.focusColor ? `focus-visible:border-[${styles.focusColor}] focus-visible:ring-[${styles.focusColor}]` : null
+      ];
+
+      return h('div', { className: 'grid w-full gap-1.5' },
+        h(ui(writer, 'Label'), { htmlFor: id }, config.label),
+        h(ui(writer, 'Input'), {
+          id,
+          placeholder: config.placeholder,
+          className: classes.filter(Boolean).join(' '),
+          style: {
+            borderRadius: styles.borderRadius,
+            borderColor: styles.borderColor,
+            backgroundColor: styles.backgroundColor,
+            color: styles.fontColor,
+            padding: paddingValue(styles.padding)
+          }
+        })
+      );
+    },
+
+    select(config, writer) {
+      const { styles = {} } = config;
+      const selected = writer.state('selected', config.value);
+      const id = writer.uniqueName('select');
+      const SelectItem = ui(writer, 'SelectItem');
+      const select = h(ui(writer, 'Select'), {
+        value: expr(selected.value),
+        onValueChange: expr(selected.setter),
+        disabled: config.disabled || undefined
+      },
+        h(ui(writer, 'SelectTrigger'), {
+          id: config.label ? id : undefined,
+          className: ['w-full', config.size ? FIELD_HEIGHTS[config.size] : null].filter(Boolean).join(' '),
+          style: {
+            color: styles.color,
+            backgroundColor: styles.backgroundColor,
+            borderRadius: styles.borderRadius,
+            borderColor: styles.borderColor
+          }
+        },
+          h(ui(writer, 'SelectValue'), { placeholder: config.placeholder })
+        ),
+        h(ui(writer, 'SelectContent'), {},
+          ...selectOptions(config).map(option => h(SelectItem, { value: option.value }, option.label))
+        )
+      );
+
+      if (!config.label) return select;
+      return h('div', { className: 'grid w-full gap-1.5' },
+        h(ui(writer, 'Label'), { htmlFor: id }, config.label),
+        select
+      );
+    },
+
+    radio(config, writer) {
+      const { styles = {} } = config;
+      const selected = writer.state('selectedOption', config.selectedValue);
+      const color = styles.color ?? config.color;
+      const Label = ui(writer, 'Label');
+      const RadioGroupItem = ui(writer, 'RadioGroupItem');
+
+      return h(ui(writer, 'RadioGroup'), {
+        value: expr(selected.value),
+        onValueChange: expr(selected.setter),
+        disabled: config.disabled || undefined,
+        style: {
+          backgroundColor: styles.backgroundColor,
+          border: styles.borderColor ? `1px solid ${styles.borderColor}` : undefined,
+          borderRadius: styles.backgroundColor || styles.borderColor ? 8 : undefined,
+          padding: styles.backgroundColor || styles.borderColor ? 12 : undefined
+        }
+      }, ...config.options.map(value => {
+        const id = writer.uniqueName(`${selected.value}-${value}`.replace(/[^\w-]+/g, '-'));
+        return h('div', { className: 'flex items-center gap-2' },
+          h(RadioGroupItem, { value, id, style: color ? { borderColor: color, color } : undefined }),
+          h(Label, { htmlFor: id, style: color ? { color } : undefined }, value)
+        );
+      }));
+    },
+
+    card(config, writer) {
+      const { styles = {} } = config;
+      return h(ui(writer, 'Card'), {
+        className: 'max-w-sm overflow-hidden',
+        style: {
+          backgroundColor: styles.backgroundColor,
+          border: borderValue(styles.borderWidth, undefined, styles.borderColor),
+          borderRadius: styles.borderRadius,
+          boxShadow: styles.shadow ? CARD_SHADOWS[styles.shadow] : undefined
+        }
+      },
+        config.image !== false
+          ? h('img', { src: CARD_IMAGE_URL, alt: '', className: 'h-40 w-full object-cover' })
+          : null,
+        h(ui(writer, 'CardHeader'), { style: { padding: paddingValue(styles.padding), paddingBottom: styles.padding ? 0 : undefined } },
+          h(ui(writer, 'CardTitle'), { style: { color: styles.titleColor } }, config.title)
+        ),
+        h(ui(writer, 'CardContent'), { style: { padding: paddingValue(styles.padding) } },
+          h('p', { className: 'text-sm', style: { color: styles.fontColor } }, config.description)
+        )
+      );
+    },
+
+    modal(config, writer) {
+      const { styles = {} } = config;
+      return h(ui(writer, 'Dialog'), {},
+        h(ui(writer, 'DialogTrigger'), { asChild: true },
+          h(ui(writer, 'Button'), { variant: 'outline' }, 'Open')
+        ),
+        h(ui(writer, 'DialogContent'), {
+          style: { backgroundColor: styles.backgroundColor, borderRadius: styles.borderRadius }
+        },
+          h(ui(writer, 'DialogHeader'), {},
+            h(ui(writer, 'DialogTitle'), { style: { color: styles.titleColor } }, config.title)
+          ),
+          h('p', { className: 'text-sm', style: { color: styles.textColor } }, config.content)
+        )
+      );
+    },
+
+    tabs(config, writer) {
+      const { styles = {} } = config;
+      const active = writer.state('activeTab', config.defaultValue);
+      const vertical = config.orientation === 'vertical';
+      const TabsTrigger = ui(writer, 'TabsTrigger');
+      const TabsContent = ui(writer, 'TabsContent');
+      const colored = styles.activeColor || styles.inactiveColor;
+
+      return h(ui(writer, 'Tabs'), {
+        value: expr(active.value),
+        onValueChange: expr(active.setter),
+        orientation: config.orientation,
+        className: vertical ? 'flex gap-4' : undefined
+      },
+        h(ui(writer, 'TabsList'), {
+          className: vertical ? 'h-auto flex-col' : undefined,
+          style: { backgroundColor: styles.backgroundColor, borderRadius: styles.borderRadius, padding: styles.padding }
+        },
+          ...config.tabs.map(tab => h(TabsTrigger, {
+            value: tab.value,
+            style: colored
+              ? { color: expr(`${active.value} === ${toLiteral(tab.value)} ? ${toLiteral(styles.activeColor ?? '#09090B')} : ${toLiteral(styles.inactiveColor ?? '#71717A')}`) }
+              : undefined
+          }, tab.label))
+        ),
+        ...config.tabs.map(tab => h(TabsContent, { value: tab.value }, tab.content))
+      );
+    },
+
+    progress(config) {
+      const { styles = {} } = config;
+      const height = styles.height ?? { small: 4, medium: 8, large: 12 }[config.size ?? 'medium'];
+      const bar = h('div', {
+        role: 'progressbar',
+        'aria-valuenow': config.value ?? 0,
+        'aria-valuemin': 0,
+        'aria-valuemax': config.max ?? 100,
+        className: 'w-full overflow-hidden bg-secondary',
+        style: { height, borderRadius: styles.borderRadius ?? height / 2, backgroundColor: styles.trackColor }
+      },
+        h('div', {
+          className: 'h-full bg-primary',
+          style: { width: `${progressPercent(config)}%`, backgroundColor: styles.indicatorColor }
+        })
+      );
+
+      if (!config.label) return bar;
+      return h('div', { className: 'grid w-full gap-1.5' },
+        h('span', { className: 'text-sm' }, config.label),
+        bar
+      );
+    }
+  },
+
+  stack(node, children) {
+    return h('div', {
+      className: node.direction === 'horizontal' ? 'flex flex-row' : 'flex flex-col',
+      style: {
+        gap: node.gap,
+        padding: node.padding,
+        alignItems: node.align ? FLEX_ALIGN[node.align] : undefined
+      }
+    }, ...children);
+  },
+
+  grid(node, children) {
+    return h('div', {
+      className: 'grid',
+      style: { gridTemplateColumns: gridColumns(node.columns), gap: node.gap, padding: node.padding }
+    }, ...children);
+  }
+};
@@ -0,0 +1,126 @@
+import type { ButtonConfig } from '../../validators/buttonConfigValidator.js';
+import type { IconButtonConfig } from '../../validators/iconButtonConfigValidator.js';
+import type { AccordionConfig } from '../../validators/accordionConfigValidator.js';
+import type { InputConfig } from '../../validators/inputConfigValidator.js';
+import type { SelectConfig } from '../../validators/selectConfigValidator.js';
+import type { RadioConfig } from '../../validators/radioConfigValidator.js';
+import type { CardConfig } from '../../validators/cardConfigValidator.js';
+import type { ModalConfig } from '../../validators/modalConfigValidator.js';
+import type { TabsConfig } from '../../validators/tabsConfigValidator.js';
+import type { ProgressConfig } from '../../validators/progressConfigValidator.js';
+import type { LayoutNode } from '../../validators/layoutConfigValidator.js';
+import { ComponentWriter, JsxElement, expr, h, toLiteral } from '../../utils/jsxWriter.js';
+
+export type StackLayoutNode = Extract<LayoutNode, { type: 'stack' }>;
+export type GridLayoutNode = Extract<LayoutNode, { type: 'grid' }>;
+
+type Template<T> = (config: T, writer: ComponentWriter) => JsxElement;
+
+/**
+ * One renderer per leaf component of the registry. Configs are validated and
+ * have their theme tokens resolved before they get here.
+ */
+export interface ComponentTemplates {
+  button: Template<ButtonConfig>;
+  'icon-button': Template<IconButtonConfig>;
+  accordion: Template<AccordionConfig>;
+  input: Template<InputConfig>;
+  select: Template<SelectConfig>;
+  radio: Template<RadioConfig>;
+  card: Template<CardConfig>;
+  modal: Template<ModalConfig>;
+  tabs: Template<TabsConfig>;
+  progress: Template<ProgressConfig>;
+}
+
+export interface ExportTemplate {
+  provider: string;
+  version?: string; // Library version the templates target; defaults to the provider's default version
+  components: ComponentTemplates;
+  stack(node: StackLayoutNode, children: JsxElement[], writer: ComponentWriter): JsxElement;
+  grid(node: GridLayoutNode, children: JsxElement[], writer: ComponentWriter): JsxElement;
+}
+
+// Icons come from lucide-react, which every provider may import
+export const ICON_SOURCE = 'lucide-react';
+export const ICON_NAME = 'Plus';
+
+export const CARD_IMAGE_URL = 'https://picsum.photos/seed/card/600/300';
+
+export const CARD_SHADOWS: Record<NonNullable<NonNullable<CardConfig['styles']>['shadow']>, string> = {
+  none: 'none',
+  sm: '0 1px 2px rgba(0, 0, 0, 0.08)',
+  md: '0 4px 12px rgba(0, 0, 0, 0.12)',
+  lg: '0 12px 32px rgba(0, 0, 0, 0.16)'
+};
+
+export const FLEX_ALIGN: Record<NonNullable<StackLayoutNode['align']>, string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  stretch: 'stretch'
+};
+
+/**
+ * CSS length for a pixel value; resolved radius tokens are already numbers
+ */
+export function px(value: number | string | undefined): string | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === 'number' ? `${value}px` : value;
+}
+
+export function paddingValue(padding?: { px: number; py: number }): string | undefined {
+  return padding ? `${padding.py}px ${padding.px}px` : undefined;
+}
+
+export function borderValue(width: number | undefined, style: string | undefined, color: string | undefined): string | undefined {
+  if (width === undefined && style === undefined && color === undefined) return undefined;
+  return `${width ?? 1}px ${style ?? 'solid'} ${color ?? 'currentColor'}`;
+}
+
+export function gridColumns(columns: number): string {
+  return `repeat(${columns}, minmax(0, 1fr))`;
+}
+
+export function selectOptions(config: SelectConfig): { value: string; label: string }[] {
+  return config.options.map(option => typeof option === 'string' ? { value: option, label: option } : option);
+}
+
+export function progressPercent(config: ProgressConfig): number {
+  const max = config.max ?? 100;
+  const ratio = Math.min(Math.max((config.value ?? 0) / max, 0), 1);
+  return Math.round(ratio * 10000) / 100;
+}
+
+/**
+ * Icon element for icon buttons, imported from lucide-react
+ */
+export function icon(writer: ComponentWriter, props: JsxElement['props'] = {}): JsxElement {
+  return h(writer.use(ICON_NAME, ICON_SOURCE), props);
+}
+
+/**
+ * Native radio inputs, for providers whose allow-list has no radio group.
+ * `option` wraps each input with its label text.
+ */
+export function nativeRadioInputs(
+  config: RadioConfig,
+  writer: ComponentWriter,
+  option: (input: JsxElement, value: string) => JsxElement
+): JsxElement[] {
+  const selected = writer.state('selectedOption', config.selectedValue);
+  const color = config.styles?.color ?? config.color;
+
+  return config.options.map(value => option(
+    h('input', {
+      type: 'radio',
+      name: selected.value,
+      value,
+      checked: expr(`${selected.value} === ${toLiteral(value)}`),
+      onChange: expr(`() => ${selected.setter}(${toLiteral(value)})`),
+      disabled: config.disabled || undefined,
+      style: color ? { accentColor: color } : undefined
+    }),
+    value
+  ));
+}
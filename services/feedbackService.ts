@@ -0,0 +1,150 @@
+import mongoose from "mongoose";
+import Feedback, { FeedbackRating, FeedbackReason, IFeedback } from "../models/feedback.model.js";
+import Generation from "../models/generation.model.js";
+import { resolveComponent, validateComponentConfig } from "../constants/componentRegistry.js";
+import { workspaceFilter } from "../utils/workspace.js";
+import type { ApiErrorCode } from "../contracts/common.js";
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  reason?: FeedbackReason;
+  comment?: string;
+  provider?: string;          // Code generations: the provider the feedback is about
+  correctedConfig?: unknown;  // Config generations: what the config should have been
+}
+
+export interface FeedbackOutcome {
+  status: number;
+  body: {
+    success: boolean;
+    feedback?: unknown;
+    error?: string;
+    code?: ApiErrorCode;
+    details?: string[];
+  };
+}
+
+export interface FeedbackQuery {
+  since?: Date;
+  model?: string;
+  promptVersion?: string;
+}
+
+export interface FeedbackBreakdown {
+  key: string;                    // Component registry id or provider id
+  total: number;
+  up: number;
+  down: number;
+  upRate: number;                 // 0..1
+  reasons: Partial<Record<FeedbackReason, number>>; // Thumbs-down reasons
+  corrections: number;            // Feedback that came with a corrected config
+}
+
+/**
+ * Record feedback on a generation of the workspace. A named provider must be
+ * one the generation produced; a corrected config must belong to a config
+ * generation and validate against its component.
+ */
+export async function submitFeedback(workspaceId: string, generationId: string, input: FeedbackInput): Promise<FeedbackOutcome> {
+  const generation = mongoose.isValidObjectId(generationId)
+    ? await Generation.findOne({ _id: generationId, ...workspaceFilter(workspaceId) }).lean()
+    : null;
+  if (!generation) {
+    return { status: 404, body: { success: false, error: `Generation "${generationId}" not found` } };
+  }
+
+  if (input.provider !== undefined && !generation.providers.includes(input.provider)) {
+    return {
+      status: 400,
+      body: {
+        success: false,
+        error: `Generation "${generationId}" has no code for provider "${input.provider}"`,
+        code: 'UNKNOWN_PROVIDER'
+      }
+    };
+  }
+
+  if (input.correctedConfig !== undefined) {
+    const component = generation.kind === 'config' ? resolveComponent(generation.componentName) : undefined;
+    if (!component) {
+      return { status: 400, body: { success: false, error: 'correctedConfig is only accepted for config generations' } };
+    }
+    const validation = validateComponentConfig(component, input.correctedConfig);
+    if (!validation.success) {
+      return {
+        status: 400,
+        body: { success: false, error: validation.error || 'Invalid correctedConfig', code: 'INVALID_CONFIG', details: validation.details }
+      };
+    }
+  }
+
+  const feedback = await Feedback.create({
+    workspaceId,
+    generationId: generation._id,
+    rating: input.rating,
+    reason: input.reason,
+    comment: input.comment,
+    correctedConfig: input.correctedConfig,
+    kind: generation.kind,
+    componentName: generation.componentName,
+    providers: input.provider ? [input.provider] : generation.providers,
+    model: generation.model,
+    promptTemplate: generation.promptTemplate,
+    promptVersion: generation.promptVersion
+  });
+  return { status: 201, body: { success: true, feedback: feedback.toObject() } };
+}
+
+/**
+ * Ratings grouped by `field`: "$componentName", or "$providers" (unwound, so
+ * feedback on several providers counts once for each)
+ */
+async function breakDownFeedback(workspaceId: string, query: FeedbackQuery, field: '$componentName' | '$providers'): Promise<FeedbackBreakdown[]> {
+  const match: mongoose.QueryFilter<IFeedback> = { ...workspaceFilter(workspaceId) };
+  if (query.since) match.createdAt = { $gte: query.since };
+  if (query.model) match.model = query.model;
+  if (query.promptVersion) match.promptVersion = query.promptVersion;
+
+  const groups = await Feedback.aggregate<{
+    _id: { key: string; rating: FeedbackRating; reason: FeedbackReason | null };
+    count: number;
+    corrections: number;
+  }>([
+    { $match: match },
+    ...(field === '$providers' ? [{ $unwind: '$providers' }] : []),
+    {
+      $group: {
+        _id: { key: field, rating: '$rating', reason: { $ifNull: ['$reason', null] } },
+        count: { $sum: 1 },
+        corrections: { $sum: { $cond: [{ $gt: ['$correctedConfig', null] }, 1, 0] } }
+      }
+    }
+  ]);
+
+  const breakdowns = new Map<string, FeedbackBreakdown>();
+  for (const { _id, count, corrections } of groups) {
+    let breakdown = breakdowns.get(_id.key);
+    if (!breakdown) {
+      breakdown = { key: _id.key, total: 0, up: 0, down: 0, upRate: 0, reasons: {}, corrections: 0 };
+      breakdowns.set(_id.key, breakdown);
+    }
+    breakdown.total += count;
+    breakdown[_id.rating] += count;
+    breakdown.corrections += corrections;
+    if (_id.rating === 'down' && _id.reason) {
+      breakdown.reasons[_id.reason] = (breakdown.reasons[_id.reason] ?? 0) + count;
+    }
+  }
+
+  return [...breakdowns.values()]
+    .map(breakdown => ({ ...breakdown, upRate: Math.round((breakdown.up / breakdown.total) * 1000) / 1000 }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+export function getFeedbackByComponent(workspaceId: string, query: FeedbackQuery = {}) {
+  return breakDownFeedback(workspaceId, query, '$componentName');
+}
+
+export function getFeedbackByProvider(workspaceId: string, query: FeedbackQuery = {}) {
+  return breakDownFeedback(workspaceId, query, '$providers');
+}
@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { resolveEngine, type LLMEngine, type LLMGenerateOptions, type LLMResult } from "./llmEngine.js";
+
+const DEFAULT_FIXTURE_DIR = "fixtures";
+const REPLAY_CHUNK_SIZE = 64; // Streamed replays are split into fixed-size deltas
+
+interface FixtureFile {
+  prompt: string;
+  text: string;
+  structured?: boolean;
+  recordedFrom?: string;
+  recordedAt?: string;
+}
+
+/**
+ * Fixture key: a stable hash of the exact prompt text
+ */
+export function getFixtureKey(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+}
+
+async function readFixture(file: string): Promise<FixtureFile | null> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as FixtureFile;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Deterministic replay engine for CI and offline development.
+ *
+ * Responses are stored as `<LLM_FIXTURE_DIR>/<fixtureSet>/<promptHash>.json`.
+ * When LLM_FIXTURE_RECORD names another engine (e.g. "gemini"), missing
+ * fixtures are generated with it and written to disk; otherwise a missing
+ * fixture is an error.
+ */
+export function createFixtureEngine(fixtureSet: string = 'default'): LLMEngine {
+  if (!/^[\w-]+$/.test(fixtureSet)) {
+    throw new Error(`Invalid fixture set name "${fixtureSet}"`);
+  }
+  const dir = path.resolve(process.env.LLM_FIXTURE_DIR || DEFAULT_FIXTURE_DIR, fixtureSet);
+
+  return {
+    id: `fixture:${fixtureSet}`,
+    provider: 'fixture',
+    model: fixtureSet,
+    async generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResult> {
+      const key = getFixtureKey(prompt);
+      const file = path.join(dir, `${key}.json`);
+
+      const fixture = await readFixture(file);
+      if (fixture) {
+        if (options?.onToken) {
+          for (let i = 0; i < fixture.text.length; i += REPLAY_CHUNK_SIZE) {
+            options.onToken(fixture.text.substring(i, i + REPLAY_CHUNK_SIZE));
+          }
+        }
+        return { text: fixture.text, structured: fixture.structured };
+      }
+
+      const recordFrom = process.env.LLM_FIXTURE_RECORD;
+      if (!recordFrom) {
+        throw new Error(`No fixture recorded for prompt ${key} in ${dir}. Set LLM_FIXTURE_RECORD=<engine> to record it.`);
+      }
+
+      const source = resolveEngine(recordFrom);
+      if (source.provider === 'fixture') {
+        throw new Error('LLM_FIXTURE_RECORD must name a live engine, not another fixture set');
+      }
+
+      const result = await source.generate(prompt, options);
+      const recorded: FixtureFile = {
+        prompt,
+        text: result.text,
+        structured: result.structured,
+        recordedFrom: source.id,
+        recordedAt: new Date().toISOString()
+      };
+      await mkdir(dir, { recursive: true });
+      await writeFile(file, JSON.stringify(recorded, null, 2));
+      console.log(`Recorded fixture ${key} from ${source.id}`);
+      return result;
+    }
+  };
+}
@@ -1,47 +1,198 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  GoogleGenerativeAI,
+  EnhancedGenerateContentResponse,
+  GenerationConfig,
+  ResponseSchema,
+  SchemaType
+} from "@google/generative-ai";
+import { getCallSignal, type LLMEngine, type LLMGenerateOptions } from "./llmEngine.js";
+import { TOKEN_REFERENCE_META_KEY } from "../validators/primitives.js";
 
-let model: any = null;
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
 
-export function getModel() {
-  if (!model) {
+let client: GoogleGenerativeAI | null = null;
+
+function getClient(): GoogleGenerativeAI {
+  if (!client) {
     const apiKey = process.env.GEMINI_API_KEY;
     if (!apiKey) {
       throw new Error('GEMINI_API_KEY is not defined in environment variables');
     }
-    const genAI = new GoogleGenerativeAI(apiKey);
-    model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
+    client = new GoogleGenerativeAI(apiKey);
+  }
+  return client;
+}
+
+function isNumberNode(node: Record<string, any>): boolean {
+  return node.type === 'number' || node.type === 'integer';
+}
+
+/**
+ * Convert a JSON Schema into Gemini's responseSchema subset (OpenAPI 3.0 style).
+ * Gemini has no unions, patterns, ranges or free-form maps, so ranges and patterns
+ * are dropped (validation still enforces them) and any node that cannot be
+ * represented at all makes the whole conversion return undefined. A union with
+ * a theme token reference ("number | $token") becomes a STRING, so references
+ * survive a regeneration; restoreTokenUnionNumbers turns the numbers back.
+ */
+export function toGeminiSchema(node: Record<string, any>): ResponseSchema | undefined {
+  let nullable = false;
+  const variants = node.anyOf || node.oneOf;
+  if (Array.isArray(variants)) {
+    nullable = variants.some((variant: any) => variant.type === 'null');
+    const nonNull = variants.filter((variant: any) => variant.type !== 'null');
+    const values = nonNull.filter((variant: any) => !variant[TOKEN_REFERENCE_META_KEY]);
+    if (values.length !== 1) return undefined;
+
+    if (values.length < nonNull.length && isNumberNode(values[0])) {
+      const description = [node.description ?? values[0].description, 'A number written as a string (e.g. "8"), or a theme token reference such as "$radiusMd"']
+        .filter(Boolean)
+        .join('. ');
+      return { type: SchemaType.STRING, description, ...(nullable ? { nullable } : {}) };
+    }
+    node = { ...values[0], description: node.description ?? values[0].description };
+  }
+
+  const base = {
+    ...(node.description ? { description: node.description } : {}),
+    ...(nullable ? { nullable } : {})
+  };
+
+  if (Array.isArray(node.enum)) {
+    if (!node.enum.every((value: unknown) => typeof value === 'string')) return undefined;
+    return { ...base, type: SchemaType.STRING, format: 'enum', enum: node.enum };
+  }
+  if (node.const !== undefined) {
+    if (typeof node.const !== 'string') return undefined;
+    return { ...base, type: SchemaType.STRING, format: 'enum', enum: [node.const] };
+  }
+
+  switch (node.type) {
+    case 'string':
+      return { ...base, type: SchemaType.STRING };
+    case 'number':
+      return { ...base, type: SchemaType.NUMBER };
+    case 'integer':
+      return { ...base, type: SchemaType.INTEGER };
+    case 'boolean':
+      return { ...base, type: SchemaType.BOOLEAN };
+    case 'array': {
+      const items = node.items && toGeminiSchema(node.items);
+      if (!items) return undefined;
+      return {
+        ...base,
+        type: SchemaType.ARRAY,
+        items,
+        ...(node.minItems !== undefined ? { minItems: node.minItems } : {}),
+        ...(node.maxItems !== undefined ? { maxItems: node.maxItems } : {})
+      };
+    }
+    case 'object': {
+      const entries = Object.entries(node.properties || {});
+      if (entries.length === 0) return undefined;
+      const properties: Record<string, ResponseSchema> = {};
+      for (const [key, child] of entries) {
+        const converted = toGeminiSchema(child as Record<string, any>);
+        if (!converted) return undefined;
+        properties[key] = converted;
+      }
+      return { ...base, type: SchemaType.OBJECT, properties, required: node.required || [] };
+    }
+    default:
+      return undefined;
   }
-  return model;
 }
 
 /**
- * Extract JSON from AI response
+ * Undo toGeminiSchema's widening of "number | $token" fields: numeric strings
+ * where the JSON Schema allows a number become numbers again
  */
-export function extractJSON(text: string): any {
-  let cleaned = text.trim();
-  
-  const firstOpen = cleaned.indexOf('{');
-  const lastClose = cleaned.lastIndexOf('}');
-  
-  if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-    cleaned = cleaned.substring(firstOpen, lastClose + 1);
-  } else {
-    cleaned = cleaned
-      .replace(/^```json\s*/i, "")
-      .replace(/^```\s*/, "")
-      .replace(/```\s*$/, "");
+export function restoreTokenUnionNumbers(node: Record<string, any>, value: unknown): unknown {
+  const variants: Record<string, any>[] | undefined = node.anyOf || node.oneOf;
+  if (Array.isArray(variants)) {
+    const tokenUnion = variants.some(variant => variant[TOKEN_REFERENCE_META_KEY]);
+    if (tokenUnion && typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))
+      && variants.some(isNumberNode)) {
+      return Number(value);
+    }
+    const branch = variants.find(variant => variant.type === 'object' || variant.type === 'array');
+    return branch ? restoreTokenUnionNumbers(branch, value) : value;
   }
 
+  if (node.type === 'array' && Array.isArray(value) && node.items) {
+    return value.map(item => restoreTokenUnionNumbers(node.items, item));
+  }
+  if (node.type === 'object' && value && typeof value === 'object' && !Array.isArray(value) && node.properties) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) =>
+      [key, node.properties[key] ? restoreTokenUnionNumbers(node.properties[key], child) : child]));
+  }
+  return value;
+}
+
+/**
+ * Structured responses with restored numbers; text that is not JSON is left alone
+ */
+function restoreResponseNumbers(text: string, responseSchema: Record<string, any>): string {
   try {
-    return JSON.parse(cleaned);
-  } catch (e) {
-    console.error("JSON Parse Error. Raw text:", text);
-    throw new Error("Failed to parse JSON response");
+    return JSON.stringify(restoreTokenUnionNumbers(responseSchema, JSON.parse(text)));
+  } catch {
+    return text;
   }
 }
 
-export async function callGemini(prompt: string): Promise<string> {
-  const result = await getModel().generateContent(prompt);
-  const response = await result.response;
-  return response.text();
+function getGenerationConfig(options?: LLMGenerateOptions): GenerationConfig | undefined {
+  if (!options?.json && !options?.responseSchema) return undefined;
+
+  const responseSchema = options.responseSchema && toGeminiSchema(options.responseSchema);
+  return {
+    responseMimeType: 'application/json',
+    ...(responseSchema ? { responseSchema } : {})
+  };
+}
+
+/**
+ * Gemini engine backed by the Google Generative AI SDK
+ */
+export function createGeminiEngine(model: string = DEFAULT_GEMINI_MODEL): LLMEngine {
+  return {
+    id: `gemini:${model}`,
+    provider: 'gemini',
+    model,
+    async generate(prompt: string, options?: LLMGenerateOptions) {
+      const generationConfig = getGenerationConfig(options);
+      const generativeModel = getClient().getGenerativeModel({ model, generationConfig });
+      const requestOptions = { signal: getCallSignal(options) };
+
+      let response: EnhancedGenerateContentResponse;
+      let text: string;
+      if (options?.onToken) {
+        const result = await generativeModel.generateContentStream(prompt, requestOptions);
+        text = '';
+        for await (const chunk of result.stream) {
+          const delta = chunk.text();
+          if (delta) {
+            text += delta;
+            options.onToken(delta);
+          }
+        }
+        response = await result.response;
+      } else {
+        response = (await generativeModel.generateContent(prompt, requestOptions)).response;
+        text = response.text();
+      }
+
+      if (generationConfig?.responseSchema && options?.responseSchema) {
+        text = restoreResponseNumbers(text, options.responseSchema);
+      }
+
+      return {
+        text,
+        structured: Boolean(generationConfig),
+        usage: response.usageMetadata && {
+          inputTokens: response.usageMetadata.promptTokenCount,
+          outputTokens: response.usageMetadata.candidatesTokenCount
+        }
+      };
+    }
+  };
 }
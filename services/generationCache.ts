@@ -0,0 +1,160 @@
+import { createHash } from "crypto";
+import GenerationCacheEntry from "../models/generationCache.model.js";
+
+/**
+ * Generation cache
+ *
+ * Per deployment:
+ *   GENERATION_CACHE              memory | mongo | off (default: memory)
+ *   GENERATION_CACHE_TTL_SECONDS  how long a result is reused (default: 86400)
+ *   GENERATION_CACHE_MAX_ENTRIES  size of the in-memory LRU (default: 500)
+ *
+ * Per request: "Cache-Control: no-cache" skips the lookup (the fresh result
+ * still replaces the cached one). Only validated results are stored.
+ * Hits still get a history entry, marked `cached`, so sessions stay complete.
+ */
+
+export type GenerationCacheKind = 'config' | 'code';
+
+export type CacheStatus = 'HIT' | 'MISS';
+
+export interface GenerationCacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, kind: GenerationCacheKind, value: unknown, ttlMs: number): Promise<void>;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * JSON with sorted object keys, so equal requests hash equally whatever their key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Whitespace differences do not change what the model is asked
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Content address of a generation: the normalized request, the engine that
+ * answers it and the prompt template version that asks it (e.g. "config@v1")
+ */
+export function generationCacheKey(kind: GenerationCacheKind, modelId: string, template: string, request: Record<string, unknown>): string {
+  const payload = stableStringify({ kind, model: modelId, template, request });
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+export function createMemoryGenerationCache(maxEntries = DEFAULT_MAX_ENTRIES): GenerationCacheStore {
+  // Map iteration order is insertion order: re-inserting on read keeps the oldest entry first
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+
+      entries.set(key, entry);
+      return structuredClone(entry.value);
+    },
+
+    async set(key, kind, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value: structuredClone(value), expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    }
+  };
+}
+
+export function createMongoGenerationCache(): GenerationCacheStore {
+  return {
+    async get(key) {
+      // The TTL index only runs once a minute, so expiry is checked here as well
+      const entry = await GenerationCacheEntry.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+      return entry?.value;
+    },
+
+    async set(key, kind, value, ttlMs) {
+      await GenerationCacheEntry.updateOne(
+        { key },
+        { $set: { kind, value, expiresAt: new Date(Date.now() + ttlMs) } },
+        { upsert: true }
+      );
+    }
+  };
+}
+
+let store: GenerationCacheStore | null | undefined;
+
+/**
+ * The store selected by GENERATION_CACHE, or null when caching is off
+ */
+export function getGenerationCache(): GenerationCacheStore | null {
+  if (store === undefined) {
+    const configured = (process.env.GENERATION_CACHE || 'memory').toLowerCase();
+    if (configured === 'off') {
+      store = null;
+    } else if (configured === 'mongo') {
+      store = createMongoGenerationCache();
+    } else {
+      if (configured !== 'memory') {
+        console.warn(`Unknown GENERATION_CACHE "${configured}", falling back to memory`);
+      }
+      store = createMemoryGenerationCache(readPositiveInt('GENERATION_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES));
+    }
+  }
+  return store;
+}
+
+/**
+ * Serve `key` from the cache, or run `generate` and store its result when
+ * `isCacheable` accepts it. The cache never breaks generation: store errors
+ * are logged and count as a miss.
+ */
+export async function withGenerationCache<T>(
+  kind: GenerationCacheKind,
+  key: string,
+  options: { bypass?: boolean; isCacheable: (value: T) => boolean },
+  generate: () => Promise<T>
+): Promise<{ value: T; cache: CacheStatus }> {
+  const cache = getGenerationCache();
+
+  if (cache && !options.bypass) {
+    try {
+      const cached = await cache.get(key);
+      if (cached !== undefined) return { value: cached as T, cache: 'HIT' };
+    } catch (error) {
+      console.error('Generation cache lookup failed:', error);
+    }
+  }
+
+  const value = await generate();
+  if (cache && options.isCacheable(value)) {
+    const ttlMs = readPositiveInt('GENERATION_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) * 1000;
+    try {
+      await cache.set(key, kind, value, ttlMs);
+    } catch (error) {
+      console.error('Failed to cache generation:', error);
+    }
+  }
+  return { value, cache: 'MISS' };
+}
@@ -0,0 +1,128 @@
+import mongoose from "mongoose";
+import Generation, { IGeneration } from "../models/generation.model.js";
+import { workspaceFilter } from "../utils/workspace.js";
+import { getPromptSplit } from "./promptBuilder.js";
+import type { PromptTemplateName } from "./promptTemplates/shared.js";
+
+export type GenerationRecord = Omit<IGeneration, 'createdAt' | 'updatedAt'>;
+
+export interface HistoryQuery {
+  limit?: number;
+  before?: Date; // Only generations created before this date, for paging
+}
+
+export interface PromptVariantQuery {
+  template?: PromptTemplateName;
+  since?: Date;
+}
+
+export interface PromptVariantStats {
+  template: string;
+  version: string;
+  share: number;        // Current share of the template's traffic; 0 once the version left the split
+  generations: number;
+  successes: number;
+  successRate: number;  // 0..1
+  avgAttempts: number;
+  avgLatencyMs: number;
+  firstAt: Date;
+  lastAt: Date;
+}
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+// Fields shown in history lists; configs and code are only returned by getGeneration
+const SUMMARY_FIELDS = 'sessionId kind componentName prompt providers success attempts latencyMs cached model promptTemplate promptVersion createdAt';
+
+/**
+ * Persist a generation. History must never break generation itself, so
+ * failures are logged and null is returned instead of throwing.
+ */
+export async function recordGeneration(record: GenerationRecord): Promise<string | null> {
+  try {
+    const generation = await Generation.create(record);
+    return generation.id;
+  } catch (error) {
+    console.error('Failed to record generation:', error);
+    return null;
+  }
+}
+
+/**
+ * Most recent generations of a workspace's session, newest first
+ */
+export async function listGenerations(workspaceId: string, sessionId: string, query: HistoryQuery = {}) {
+  const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+  const filter: mongoose.QueryFilter<IGeneration> = { ...workspaceFilter(workspaceId), sessionId };
+  if (query.before) filter.createdAt = { $lt: query.before };
+
+  return Generation.find(filter)
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .select(SUMMARY_FIELDS)
+    .lean();
+}
+
+export async function getGeneration(workspaceId: string, id: string) {
+  if (!mongoose.isValidObjectId(id)) return null;
+  return Generation.findOne({ _id: id, ...workspaceFilter(workspaceId) }).lean();
+}
+
+/**
+ * Outcome of each prompt template version in a workspace, to compare the
+ * variants of an experiment. Generations recorded before templates were
+ * versioned, and cache hits, are left out.
+ */
+export async function getPromptVariantStats(workspaceId: string, query: PromptVariantQuery = {}): Promise<PromptVariantStats[]> {
+  const match: mongoose.QueryFilter<IGeneration> = {
+    ...workspaceFilter(workspaceId),
+    promptTemplate: query.template ?? { $ne: null },
+    promptVersion: { $ne: null },
+    cached: { $ne: true }
+  };
+  if (query.since) match.createdAt = { $gte: query.since };
+
+  const groups = await Generation.aggregate<{
+    _id: { template: PromptTemplateName; version: string };
+    generations: number;
+    successes: number;
+    avgAttempts: number;
+    avgLatencyMs: number;
+    firstAt: Date;
+    lastAt: Date;
+  }>([
+    { $match: match },
+    {
+      $group: {
+        _id: { template: '$promptTemplate', version: '$promptVersion' },
+        generations: { $sum: 1 },
+        successes: { $sum: { $cond: ['$success', 1, 0] } },
+        avgAttempts: { $avg: '$attempts' },
+        avgLatencyMs: { $avg: '$latencyMs' },
+        firstAt: { $min: '$createdAt' },
+        lastAt: { $max: '$createdAt' }
+      }
+    },
+    { $sort: { '_id.template': 1, '_id.version': 1 } }
+  ]);
+
+  return groups.map(({ _id, ...group }) => {
+    const split = getPromptSplit(_id.template);
+    const total = split.reduce((sum, entry) => sum + entry.weight, 0);
+    const weight = split.find(entry => entry.version === _id.version)?.weight ?? 0;
+
+    return {
+      template: _id.template,
+      version: _id.version,
+      share: Math.round((weight / total) * 1000) / 1000,
+      generations: group.generations,
+      successes: group.successes,
+      successRate: Math.round((group.successes / group.generations) * 1000) / 1000,
+      avgAttempts: Math.round(group.avgAttempts * 100) / 100,
+      avgLatencyMs: Math.round(group.avgLatencyMs),
+      firstAt: group.firstAt,
+      lastAt: group.lastAt
+    };
+  });
+}
@@ -0,0 +1,248 @@
+import mongoose from "mongoose";
+import { generateConfig, GenerateConfigResponse, ConfigOutputMode, ChangeGuardMode, AccessibilityMode } from "./aiService.js";
+import type { CacheStatus } from "./generationCache.js";
+import { recordGeneration } from "./historyService.js";
+import { findExamples } from "./exampleService.js";
+import { resolveComponent } from "../constants/componentRegistry.js";
+import Generation from "../models/generation.model.js";
+import Session from "../models/session.model.js";
+import { workspaceFilter } from "../utils/workspace.js";
+import { statusForErrorCode } from "../utils/apiResponse.js";
+
+export interface ConfigIterationRequest {
+  workspaceId: string;
+  sessionId: string;
+  componentName: string;
+  prompt: string;
+  currentConfig?: any;     // Defaults to the parent's config
+  model?: string;
+  parentId?: string | null; // Defaults to the session head; null starts a new root
+  outputMode?: ConfigOutputMode;
+  changeGuard?: ChangeGuardMode;
+  accessibility?: AccessibilityMode;
+  noCache?: boolean;
+}
+
+export interface ConfigIterationResponse extends GenerateConfigResponse {
+  sessionId?: string;
+  generationId?: string | null;
+  parentId?: string | null;
+}
+
+export interface IterationOutcome {
+  status: number;
+  body: ConfigIterationResponse;
+  cache?: CacheStatus; // Sent as X-Cache, not part of the body
+}
+
+export interface IterationNode {
+  id: string;
+  parentId: string | null;
+  prompt: string;
+  success: boolean;
+  attempts: number;
+  model?: string;
+  createdAt: Date;
+}
+
+export interface IterationTree {
+  componentName: string;
+  headId: string | null;
+  nodes: IterationNode[]; // Oldest first; failed generations are leaves
+}
+
+/**
+ * Iteration trees are keyed by registry id so "Button" and "btn" share one tree
+ */
+export function getIterationKey(componentName: string): string {
+  return resolveComponent(componentName)?.id ?? componentName;
+}
+
+/**
+ * A successful config generation of this session and component, or null
+ */
+async function findIteration(workspaceId: string, sessionId: string, componentName: string, id: string) {
+  if (!mongoose.isValidObjectId(id)) return null;
+  return Generation.findOne({
+    _id: id,
+    ...workspaceFilter(workspaceId),
+    sessionId,
+    componentName,
+    kind: 'config',
+    success: true
+  }).lean();
+}
+
+export async function getHead(workspaceId: string, sessionId: string, componentName: string): Promise<string | null> {
+  const session = await Session.findOne({ ...workspaceFilter(workspaceId), sessionId, componentName }).lean();
+  return session?.headId ? String(session.headId) : null;
+}
+
+async function setHead(workspaceId: string, sessionId: string, componentName: string, headId: string | null): Promise<void> {
+  // Setting workspaceId also moves sessions saved before workspaces into the default one
+  await Session.updateOne(
+    { ...workspaceFilter(workspaceId), sessionId, componentName },
+    { $set: { headId, workspaceId } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Generate a config on top of a node of the session's iteration tree, record
+ * it as that node's child and, when it validates, move the head to it.
+ * Without an explicit parent the current head is used; a head lookup failure
+ * only costs the lineage, not the generation.
+ */
+export async function generateConfigIteration(request: ConfigIterationRequest): Promise<IterationOutcome> {
+  const { workspaceId, sessionId, prompt, model, parentId, outputMode, changeGuard, accessibility, noCache } = request;
+  const componentName = getIterationKey(request.componentName);
+
+  let parent: Awaited<ReturnType<typeof findIteration>> = null;
+  if (typeof parentId === 'string') {
+    parent = await findIteration(workspaceId, sessionId, componentName, parentId);
+    if (!parent) {
+      return {
+        status: 404,
+        body: { success: false, error: `Generation "${parentId}" is not a successful ${componentName} iteration in this session` }
+      };
+    }
+  } else if (parentId === undefined) {
+    try {
+      const headId = await getHead(workspaceId, sessionId, componentName);
+      parent = headId ? await findIteration(workspaceId, sessionId, componentName, headId) : null;
+    } catch (error) {
+      console.error('Failed to load session head:', error);
+    }
+  }
+
+  const currentConfig = request.currentConfig ?? parent?.config;
+  if (!currentConfig || typeof currentConfig !== 'object') {
+    return {
+      status: 400,
+      body: { success: false, error: 'currentConfig is required when there is no previous iteration to build on' }
+    };
+  }
+
+  const startedAt = Date.now();
+  const examples = await findExamples(workspaceId, componentName, prompt);
+  const { cache, ...result } = await generateConfig({
+    componentName: request.componentName,
+    prompt,
+    currentConfig,
+    model,
+    outputMode,
+    changeGuard,
+    accessibility,
+    noCache,
+    variantKey: sessionId,
+    examples
+  });
+
+  const generationId = await recordGeneration({
+    workspaceId,
+    sessionId,
+    parentId: parent?._id ?? null,
+    kind: 'config',
+    componentName,
+    prompt,
+    providers: [],
+    currentConfig,
+    config: result.config,
+    success: result.success,
+    attempts: result.attempts || 0,
+    validationErrors: result.success ? [] : result.details ?? [result.error || 'Generation failed'],
+    latencyMs: Date.now() - startedAt,
+    cached: cache === 'HIT',
+    model: result.model,
+    promptTemplate: result.promptTemplate,
+    promptVersion: result.promptVersion
+  });
+
+  if (result.success && generationId) {
+    try {
+      await setHead(workspaceId, sessionId, componentName, generationId);
+    } catch (error) {
+      console.error('Failed to move session head:', error);
+    }
+  }
+
+  return {
+    status: result.success ? 200 : statusForErrorCode(result.code),
+    body: { ...result, sessionId, generationId, parentId: parent ? String(parent._id) : null },
+    cache
+  };
+}
+
+/**
+ * Every config generation of a session and component, with the current head
+ */
+export async function getIterationTree(workspaceId: string, sessionId: string, componentName: string): Promise<IterationTree> {
+  const key = getIterationKey(componentName);
+  const [headId, generations] = await Promise.all([
+    getHead(workspaceId, sessionId, key),
+    Generation.find({ ...workspaceFilter(workspaceId), sessionId, componentName: key, kind: 'config' })
+      .sort({ createdAt: 1 })
+      .select('parentId prompt success attempts model createdAt')
+      .lean()
+  ]);
+
+  return {
+    componentName: key,
+    headId,
+    nodes: generations.map(generation => ({
+      id: String(generation._id),
+      parentId: generation.parentId ? String(generation.parentId) : null,
+      prompt: generation.prompt,
+      success: generation.success,
+      attempts: generation.attempts,
+      model: generation.model,
+      createdAt: generation.createdAt
+    }))
+  };
+}
+
+/**
+ * Move the head to any successful node and return it, or null when the node
+ * is not part of the tree
+ */
+export async function revertTo(workspaceId: string, sessionId: string, componentName: string, generationId: string) {
+  const key = getIterationKey(componentName);
+  const node = await findIteration(workspaceId, sessionId, key, generationId);
+  if (!node) return null;
+
+  await setHead(workspaceId, sessionId, key, String(node._id));
+  return node;
+}
+
+/**
+ * Move the head to its parent. Returns null when the head is a root (or unset).
+ */
+export async function undo(workspaceId: string, sessionId: string, componentName: string) {
+  const key = getIterationKey(componentName);
+  const headId = await getHead(workspaceId, sessionId, key);
+  const head = headId ? await findIteration(workspaceId, sessionId, key, headId) : null;
+  if (!head?.parentId) return null;
+
+  return revertTo(workspaceId, sessionId, key, String(head.parentId));
+}
+
+/**
+ * Move the head to its most recent successful child, i.e. the branch that was
+ * last worked on. Returns null when the head is a leaf.
+ */
+export async function redo(workspaceId: string, sessionId: string, componentName: string) {
+  const key = getIterationKey(componentName);
+  const headId = await getHead(workspaceId, sessionId, key);
+  const child = await Generation.findOne({
+    ...workspaceFilter(workspaceId),
+    sessionId,
+    componentName: key,
+    kind: 'config',
+    success: true,
+    parentId: headId
+  }).sort({ createdAt: -1 }).lean();
+  if (!child) return null;
+
+  await setHead(workspaceId, sessionId, key, String(child._id));
+  return child;
+}
@@ -0,0 +1,192 @@
+import { createGeminiEngine, DEFAULT_GEMINI_MODEL } from "./geminiEngine.js";
+import { createOpenAIEngine, DEFAULT_OPENAI_MODEL } from "./openAIEngine.js";
+import { createFixtureEngine } from "./fixtureEngine.js";
+import { recordUsage } from "../utils/usageMeter.js";
+
+/**
+ * Engine selection
+ *
+ * Per deployment:
+ *   LLM_ENGINE          gemini | openai | fixture (default: gemini)
+ *   LLM_MODEL           model for the default engine
+ *   GEMINI_API_KEY      required by the gemini engine
+ *   OPENAI_BASE_URL     OpenAI-compatible server (default: Ollama on localhost)
+ *   OPENAI_API_KEY      optional bearer token for that server
+ *   LLM_TIMEOUT_MS      how long one engine call may take (default: 120000)
+ *   LLM_FIXTURE_DIR     fixture root for the fixture engine (default: ./fixtures)
+ *   LLM_FIXTURE_RECORD  engine used to record missing fixtures
+ *   LLM_ALLOWED_MODELS  comma-separated specs requests may name besides the default,
+ *                       e.g. "gemini:gemini-2.5-pro,openai:llama3.1" (default: none)
+ *   LLM_FIXTURES        "on" lets requests name fixture sets (default: on only when NODE_ENV=test)
+ *
+ * Per request: the optional `model` field, see parseModelSpec. Anything
+ * other than the default engine must be on the allow-list.
+ */
+
+export type EngineProvider = 'gemini' | 'openai' | 'fixture';
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMGenerateOptions {
+  json?: boolean; // Ask for a bare JSON response
+  responseSchema?: Record<string, any>; // JSON Schema the response must conform to (implies json)
+  onToken?: (delta: string) => void; // Stream the response; called with each text delta as it arrives
+  signal?: AbortSignal; // Cancels the call, e.g. when the client disconnects
+}
+
+export interface LLMResult {
+  text: string;
+  usage?: LLMUsage;
+  structured?: boolean; // True when the engine enforced JSON / schema-constrained output
+}
+
+/**
+ * A text-in / text-out language model backend.
+ * `id` is "<provider>:<model>" and is what gets reported back to clients.
+ */
+export interface LLMEngine {
+  id: string;
+  provider: EngineProvider;
+  model: string;
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMResult>;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/**
+ * Signal for one engine call: the caller's signal, if any, plus LLM_TIMEOUT_MS
+ * so a provider that never answers cannot hold the request open
+ */
+export function getCallSignal(options?: LLMGenerateOptions): AbortSignal {
+  const configured = Number(process.env.LLM_TIMEOUT_MS);
+  const timeout = AbortSignal.timeout(Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TIMEOUT_MS);
+  return options?.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+}
+
+const ENGINE_PROVIDERS: EngineProvider[] = ['gemini', 'openai', 'fixture'];
+
+const engines = new Map<string, LLMEngine>();
+
+function isEngineProvider(value: string): value is EngineProvider {
+  return (ENGINE_PROVIDERS as string[]).includes(value);
+}
+
+function getDefaultProvider(): EngineProvider {
+  const configured = (process.env.LLM_ENGINE || 'gemini').toLowerCase();
+  if (!isEngineProvider(configured)) {
+    throw new Error(`LLM_ENGINE "${configured}" is not supported (expected one of: ${ENGINE_PROVIDERS.join(', ')})`);
+  }
+  return configured;
+}
+
+function getDefaultModel(provider: EngineProvider): string {
+  if (process.env.LLM_MODEL && provider === getDefaultProvider()) {
+    return process.env.LLM_MODEL;
+  }
+  switch (provider) {
+    case 'gemini': return DEFAULT_GEMINI_MODEL;
+    case 'openai': return process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL;
+    case 'fixture': return 'default';
+  }
+}
+
+/**
+ * Parse a model spec into provider + model.
+ * Accepted forms: "gemini:gemini-2.5-pro", "openai:llama3.1", "fixture",
+ * or a bare model name which is run on the deployment's default engine.
+ */
+export function parseModelSpec(spec?: string): { provider: EngineProvider; model: string } {
+  const trimmed = spec?.trim();
+  if (!trimmed) {
+    const provider = getDefaultProvider();
+    return { provider, model: getDefaultModel(provider) };
+  }
+
+  const separator = trimmed.indexOf(':');
+  const head = separator === -1 ? trimmed : trimmed.substring(0, separator);
+  if (isEngineProvider(head.toLowerCase())) {
+    const provider = head.toLowerCase() as EngineProvider;
+    const model = separator === -1 ? '' : trimmed.substring(separator + 1).trim();
+    return { provider, model: model || getDefaultModel(provider) };
+  }
+
+  return { provider: getDefaultProvider(), model: trimmed };
+}
+
+function getEngineId(spec?: string): string {
+  const { provider, model } = parseModelSpec(spec);
+  return `${provider}:${model}`;
+}
+
+/**
+ * Engine ids a request may name: the default engine, LLM_ALLOWED_MODELS and
+ * the engine fixtures are recorded from
+ */
+function getAllowedEngineIds(): Set<string> {
+  const specs = (process.env.LLM_ALLOWED_MODELS || '').split(',').map(spec => spec.trim()).filter(Boolean);
+  if (process.env.LLM_FIXTURE_RECORD) specs.push(process.env.LLM_FIXTURE_RECORD);
+  return new Set([getEngineId(), ...specs.map(getEngineId)]);
+}
+
+function fixturesEnabled(): boolean {
+  const setting = process.env.LLM_FIXTURES?.toLowerCase();
+  return setting ? setting === 'on' : process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Reject request specs the deployment does not offer. Fixture sets replay
+ * (and with LLM_FIXTURE_RECORD write) files, so they are for test and eval runs only.
+ */
+function checkEngineAllowed(provider: EngineProvider, id: string, spec: string) {
+  if (id === getEngineId()) return;
+  if (provider === 'fixture') {
+    if (!fixturesEnabled()) {
+      throw new Error(`Model "${spec}" is not available: fixture engines are only enabled for test and eval runs`);
+    }
+    return;
+  }
+  if (!getAllowedEngineIds().has(id)) {
+    throw new Error(`Model "${spec}" is not available on this deployment (see LLM_ALLOWED_MODELS)`);
+  }
+}
+
+/**
+ * Report every call's token usage to the request's usage meter (rate limit quotas)
+ */
+function withUsageMetering(engine: LLMEngine): LLMEngine {
+  return {
+    ...engine,
+    async generate(prompt, options) {
+      const result = await engine.generate(prompt, options);
+      recordUsage(engine.id, result.usage);
+      return result;
+    }
+  };
+}
+
+/**
+ * Resolve the engine for a request. Falls back to LLM_ENGINE / LLM_MODEL
+ * when the request does not name a model. Instances are cached per id, and
+ * only allowed ids get that far.
+ */
+export function resolveEngine(spec?: string): LLMEngine {
+  const { provider, model } = parseModelSpec(spec);
+  const id = `${provider}:${model}`;
+  if (spec?.trim()) checkEngineAllowed(provider, id, spec.trim());
+
+  let engine = engines.get(id);
+  if (!engine) {
+    switch (provider) {
+      case 'gemini': engine = createGeminiEngine(model); break;
+      case 'openai': engine = createOpenAIEngine(model); break;
+      case 'fixture': engine = createFixtureEngine(model); break;
+    }
+    // Fixture replays are free; recording is metered by the live engine it records from
+    if (provider !== 'fixture') engine = withUsageMetering(engine);
+    engines.set(id, engine);
+  }
+  return engine;
+}
@@ -0,0 +1,146 @@
+import { getCallSignal, type LLMEngine, type LLMGenerateOptions } from "./llmEngine.js";
+
+export const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server uses http://localhost:8080/v1
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+function getResponseFormat(options?: LLMGenerateOptions) {
+  if (options?.responseSchema) {
+    return {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: options.responseSchema, strict: false }
+    };
+  }
+  if (options?.json) {
+    return { type: 'json_object' };
+  }
+  return undefined;
+}
+
+/**
+ * Read a `stream: true` chat completion (server-sent events), reporting each
+ * content delta. Returns the full text and the usage block if the server sent one.
+ * Lines that are not valid JSON are skipped and counted.
+ */
+async function readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onToken: (delta: string) => void
+): Promise<{ text: string; usage?: ChatCompletionUsage; malformed: number }> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  let text = '';
+  let usage: ChatCompletionUsage | undefined;
+  let malformed = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        malformed++;
+        continue;
+      }
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onToken(delta);
+      }
+      if (chunk.usage) usage = chunk.usage;
+    }
+  }
+
+  return { text, usage, malformed };
+}
+
+/**
+ * Engine for any server speaking the OpenAI chat completions API
+ * (OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio, ...)
+ */
+export function createOpenAIEngine(model: string = DEFAULT_OPENAI_MODEL): LLMEngine {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  return {
+    id: `openai:${model}`,
+    provider: 'openai',
+    model,
+    async generate(prompt: string, options?: LLMGenerateOptions) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (process.env.OPENAI_API_KEY) {
+        headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+      }
+
+      const responseFormat = getResponseFormat(options);
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: getCallSignal(options),
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.2,
+          ...(responseFormat ? { response_format: responseFormat } : {}),
+          ...(options?.onToken ? { stream: true, stream_options: { include_usage: true } } : {})
+        })
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw new Error(`OpenAI-compatible engine returned ${response.status}: ${body.slice(0, 500)}`);
+      }
+
+      let text: string | null | undefined;
+      let usage: ChatCompletionUsage | undefined;
+      if (options?.onToken && response.body) {
+        const stream = await readCompletionStream(response.body, options.onToken);
+        ({ text, usage } = stream);
+        if (stream.malformed > 0) {
+          console.warn(`OpenAI-compatible engine ${model}: skipped ${stream.malformed} malformed stream chunk(s)`);
+        }
+      } else {
+        const data = await response.json() as ChatCompletionResponse;
+        text = data.choices?.[0]?.message?.content;
+        usage = data.usage;
+      }
+
+      if (typeof text !== 'string') {
+        throw new Error('OpenAI-compatible engine returned no message content');
+      }
+
+      return {
+        text,
+        structured: Boolean(responseFormat),
+        usage: usage && {
+          inputTokens: usage.prompt_tokens ?? 0,
+          outputTokens: usage.completion_tokens ?? 0
+        }
+      };
+    }
+  };
+}
@@ -1,112 +1,152 @@
-import { getButtonConfigSchemaDescription } from "../validators/buttonConfigValidator.js";
-import { getIconButtonConfigSchemaDescription } from "../validators/iconButtonConfigValidator.js";
-import { getAccordionConfigSchemaDescription } from "../validators/accordionConfigValidator.js";
-import { getInputConfigSchemaDescription } from "../validators/inputConfigValidator.js";
-import { getSelectConfigSchemaDescription } from "../validators/selectConfigValidator.js";
-import { getRadioConfigSchemaDescription } from "../validators/radioConfigValidator.js";
-import { getCardConfigSchemaDescription } from "../validators/cardConfigValidator.js";
-import { getModalConfigSchemaDescription } from "../validators/modalConfigValidator.js";
-import { getTabsConfigSchemaDescription } from "../validators/tabsConfigValidator.js";
-import { getProgressConfigSchemaDescription } from "../validators/progressConfigValidator.js";
-
-import { providerRegistry } from "../constants/providerRegistry.js";
+import { createHash } from "crypto";
+import type { ComponentRegistryEntry } from "../constants/componentRegistry.js";
+import type { ProviderProfile, ProviderSettings } from "../constants/providerRegistry.js";
+import { describeSchema } from "../utils/schemaDescriber.js";
+import { ThemeTokensSchema } from "../validators/themeValidator.js";
+import type { PromptExample, PromptTemplate, PromptTemplateName } from "./promptTemplates/shared.js";
+import { configV1, configV2, patchV1, patchV2 } from "./promptTemplates/config.js";
+import { playgroundV1 } from "./promptTemplates/playground.js";
 
-export const promptBuilder = {
-  getSystemPrompt(componentName: string, currentConfig: any, userPrompt: string): string {
-    let schemaDescription = "";
-    
-    switch (componentName) {
-      case "button": schemaDescription = getButtonConfigSchemaDescription(); break;
-      case "icon-button": schemaDescription = getIconButtonConfigSchemaDescription(); break;
-      case "accordion": schemaDescription = getAccordionConfigSchemaDescription(); break;
-      case "input": schemaDescription = getInputConfigSchemaDescription(); break;
-      case "select": schemaDescription = getSelectConfigSchemaDescription(); break;
-      case "radio": schemaDescription = getRadioConfigSchemaDescription(); break;
-      case "card": schemaDescription = getCardConfigSchemaDescription(); break;
-      case "modal": schemaDescription = getModalConfigSchemaDescription(); break;
-      case "tabs": schemaDescription = getTabsConfigSchemaDescription(); break;
-      case "progress": schemaDescription = getProgressConfigSchemaDescription(); break;
+/**
+ * Prompt templates
+ *
+ * The config, patch and playground prompts are versioned templates (see
+ * promptTemplates/). Which version a request gets is set per template by a
+ * weighted split:
+ *   PROMPT_SPLIT_CONFIG      e.g. "v1:90,v2:10" (default: the template's default version only)
+ *   PROMPT_SPLIT_PATCH
+ *   PROMPT_SPLIT_PLAYGROUND
+ *
+ * Assignment is sticky per variant key (the session id): a session keeps the
+ * wording it started with, so its iterations stay comparable.
+ */
+
+export interface PromptTemplateSet<N extends PromptTemplateName> {
+  defaultVersion: string;
+  versions: PromptTemplate<N>[];
+}
+
+// Versions stay registered after they leave the split, so their stats keep their label
+export const promptTemplates: { [N in PromptTemplateName]: PromptTemplateSet<N> } = {
+  config: { defaultVersion: 'v2', versions: [configV1, configV2] },
+  patch: { defaultVersion: 'v2', versions: [patchV1, patchV2] },
+  playground: { defaultVersion: 'v1', versions: [playgroundV1] }
+};
+
+export interface PromptSplitEntry {
+  version: string;
+  weight: number;
+}
+
+const splits = new Map<PromptTemplateName, PromptSplitEntry[]>();
+
+/**
+ * A version of a template; the default one when `version` is absent or unknown
+ */
+export function getPromptTemplate<N extends PromptTemplateName>(name: N, version?: string): PromptTemplate<N> {
+  const set = promptTemplates[name] as PromptTemplateSet<N>;
+  return set.versions.find(template => template.version === version)
+    ?? set.versions.find(template => template.version === set.defaultVersion)!;
+}
+
+/**
+ * The weighted versions of PROMPT_SPLIT_<NAME>. Unknown versions and invalid
+ * weights are skipped with a warning; without any valid entry the default
+ * version gets all traffic.
+ */
+export function getPromptSplit(name: PromptTemplateName): PromptSplitEntry[] {
+  let split = splits.get(name);
+  if (!split) {
+    const envName = `PROMPT_SPLIT_${name.toUpperCase()}`;
+    const versions = promptTemplates[name].versions.map(template => template.version);
+    split = (process.env[envName] || '').split(',').filter(entry => entry.trim()).flatMap(entry => {
+      const [version, weightText = '1'] = entry.split(':').map(part => part.trim());
+      const weight = Number(weightText);
+      if (!versions.includes(version) || !Number.isFinite(weight) || weight < 0) {
+        console.warn(`Ignoring ${envName} entry "${entry.trim()}": expected <version>:<weight> with one of ${versions.join(', ')}`);
+        return [];
+      }
+      return weight > 0 ? [{ version, weight }] : [];
+    });
+    if (split.length === 0) {
+      split = [{ version: promptTemplates[name].defaultVersion, weight: 1 }];
     }
+    splits.set(name, split);
+  }
+  return split;
+}
 
-    return `You are a UI configuration generator. Your task is to modify the current ${componentName} configuration based on the user's request.
+/**
+ * Pick a version from the template's split. The same variant key always
+ * gets the same version while the split is unchanged; without a key the
+ * pick is random.
+ */
+export function assignPromptVersion(name: PromptTemplateName, variantKey?: string): string {
+  const split = getPromptSplit(name);
+  if (split.length === 1) return split[0].version;
 
-${schemaDescription}
+  const total = split.reduce((sum, entry) => sum + entry.weight, 0);
+  const unit = variantKey
+    ? createHash("sha256").update(`${name}:${variantKey}`).digest().readUInt32BE(0) / 2 ** 32
+    : Math.random();
+
+  let point = unit * total;
+  for (const entry of split) {
+    point -= entry.weight;
+    if (point < 0) return entry.version;
+  }
+  return split[split.length - 1].version;
+}
+
+export const promptBuilder = {
+  getSystemPrompt(component: ComponentRegistryEntry, currentConfig: any, userPrompt: string, version?: string, examples?: PromptExample[]): string {
+    return getPromptTemplate('config', version).render({ component, currentConfig, userPrompt, examples });
+  },
+
+  getPatchPrompt(component: ComponentRegistryEntry, currentConfig: any, userPrompt: string, version?: string, examples?: PromptExample[]): string {
+    return getPromptTemplate('patch', version).render({ component, currentConfig, userPrompt, examples });
+  },
+
+  getPlaygroundPrompt(
+    userPrompt: string,
+    prevCode: any,
+    profiles: ProviderProfile[],
+    settings: Record<string, ProviderSettings> = {},
+    version?: string
+  ): string {
+    return getPromptTemplate('playground', version).render({ userPrompt, prevCode, profiles, settings });
+  },
+
+  getThemePrompt(userPrompt: string): string {
+    const schemaDescription = describeSchema(ThemeTokensSchema, 'Theme Tokens');
 
-CURRENT CONFIGURATION:
-${JSON.stringify(currentConfig, null, 2)}
+    return `You are a design system generator. Your task is to create a complete set of design tokens for the brand or mood the user describes.
+
+${schemaDescription}
 
 USER REQUEST: "${userPrompt}"
 
 INSTRUCTIONS:
-1. Analyze the user's request carefully.
-2. Modify ONLY the properties mentioned in the request.
-3. Keep all other properties unchanged from the current config.
-4. Return ONLY valid JSON matching the schema above.
-5. Do NOT include any explanations, markdown formatting, or code blocks.
-6. Return raw JSON only.
-7. Ensure all colors are 6-character HEX codes (e.g. #FF0000).
-
-Generate the modified configuration JSON now:`;
+1. Define every token listed in the schema above; add extra tokens only if the request clearly calls for them.
+2. onPrimary must be readable on primary, and onSurface readable on surface (aim for a WCAG contrast ratio of at least 4.5:1).
+3. Ensure all colors are 6-character HEX codes (e.g. #FF0000).
+4. Return ONLY valid JSON matching the schema above, with no explanations, markdown formatting or code blocks.
+
+Generate the theme tokens JSON now:`;
   },
 
-  getPlaygroundPrompt(userPrompt: string, prevCode: any, providers: string[]): string {
-    const allowedComponentsText = providers.map(p => {
-      const entry = providerRegistry[p];
-      if (!entry) return '';
-      return `- ${p.toUpperCase()}: ${entry.allowedComponents.join(', ')}`;
-    }).filter(Boolean).join('\n');
-
-    return `You are an expert React developer. Your task is to generate React component code for MULTIPLE UI libraries based on the user's request.
-    
-    USER REQUEST: "${userPrompt}"
-    
-    PROVIDERS TO GENERATE FOR:
-    ${providers.join(', ')}
-    
-    CURRENT CODE STATE:
-    ${typeof prevCode === 'string' ? prevCode : JSON.stringify(prevCode)}
-    
-    CORE INSTRUCTIONS:
-    1. **FIRST RESEARCH**: Thoroughly research and analyze the requirements for the requested component. Brainstorm how it should be implemented across different UI libraries to ensure compatibility and visual consistency.
-    2. **CHAKRA UI V2**:
-       - The sandbox is using Chakra UI v2.
-       - Use components directly as per v2 syntax.
-       - **EXAMPLE (Tabs)**:
-         \`\`\`jsx
-         <Tabs>
-           <TabList>
-             <Tab>Tab 1</Tab>
-           </TabList>
-           <TabPanels>
-             <TabPanel>Content 1</TabPanel>
-           </TabPanels>
-         </Tabs>
-         \`\`\`
-    3. **MUI IMPORTS (CRITICAL)**:
-       - **NEVER** use sub-path imports like \`import Box from '@mui/material/Box'\`
-       - **ALWAYS** use root-level named imports: \`import { Box, Button, Card } from '@mui/material'\`
-       - Example: \`import { Box, Typography, Button, Card, CardContent } from '@mui/material';\`
-    4. **IMPORTS**: You MUST include all necessary import statements in your code. 
-       - Import from "${providers.map(p => providerRegistry[p]?.importPath).filter(Boolean).join('", "')}" as appropriate.
-       - Always include: import React from 'react';
-       - For icons, import from 'lucide-react'.
-    5. **COMPONENT RESTRICTION**: For EACH provider, you can ONLY use the components listed in the "ALLOWED COMPONENTS" section below. Using any other component from these libraries will cause a build failure.
-    6. **CODE STRUCTURE**: Each output must be a standalone "default export" functional component: export default () => { ... }.
-    7. **VALIDATION**: Ensure the generated code is valid React/JSX and follows the specific syntax/patterns of the respective UI library.
-    8. **COMMENTS**: Never use any comments in the generated code.
-    
-    ALLOWED COMPONENTS PER PROVIDER:
-    ${allowedComponentsText}
-    
-    OUTPUT FORMAT:
-    Return a SINGLE JSON object where keys are the provider IDs (matching those above) and values are the code strings. No markdown, no triple backticks, no explanations.
-    
-    Example Output Format:
-    {
-      "mui": "export default () => ( <Box><Button>Hello</Button></Box> )",
-      "chakra": "export default () => ( <Box><Button>Hello</Button></Box> )"
-    }
-    
-    Generate the JSON now:`;
+  /**
+   * User request for a repair round: only the failing providers are regenerated,
+   * each with its own compilation / validation errors
+   */
+  getPlaygroundRepairRequest(originalPrompt: string, errors: Record<string, string[]>): string {
+    const errorText = Object.entries(errors)
+      .map(([provider, providerErrors]) => `- ${provider}:\n${providerErrors.map(e => e.replace(/^/gm, '    ')).join('\n')}`)
+      .join('\n');
+
+    return `The previous code generated for the providers below had errors. Fix ONLY these errors and keep everything else the same. Original request: "${originalPrompt}"
+
+ERRORS PER PROVIDER:
+${errorText}`;
   }
 };
@@ -0,0 +1,95 @@
+import { getComponentSchemaDescription } from '../../constants/componentRegistry.js';
+import { renderExamples, type ConfigPromptInput, type PromptTemplate } from './shared.js';
+
+/**
+ * Full-config prompt. `examplesHeading` turns on the starred examples slot
+ * before the request; versions without it never show examples.
+ */
+function renderConfigPrompt({ component, currentConfig, userPrompt, examples }: ConfigPromptInput, examplesHeading?: string): string {
+  const schemaDescription = getComponentSchemaDescription(component);
+  const exampleText = examplesHeading ? renderExamples(examplesHeading, examples) : '';
+
+  return `You are a UI configuration generator. Your task is to modify the current ${component.name} configuration based on the user's request.
+
+${schemaDescription}
+
+CURRENT CONFIGURATION:
+${JSON.stringify(currentConfig, null, 2)}
+
+${exampleText}USER REQUEST: "${userPrompt}"
+
+INSTRUCTIONS:
+1. Analyze the user's request carefully.
+2. Modify ONLY the properties mentioned in the request.
+3. Keep all other properties unchanged from the current config.
+4. Return ONLY valid JSON matching the schema above.
+5. Do NOT include any explanations, markdown formatting, or code blocks.
+6. Return raw JSON only.
+7. Ensure all colors are 6-character HEX codes (e.g. #FF0000). Keep theme token references such as "$primary" unless the request changes that property.
+
+Generate the modified configuration JSON now:`;
+}
+
+/**
+ * RFC 6902 JSON Patch prompt, with the same optional examples slot
+ */
+function renderPatchPrompt({ component, currentConfig, userPrompt, examples }: ConfigPromptInput, examplesHeading?: string): string {
+  const schemaDescription = getComponentSchemaDescription(component);
+  const exampleText = examplesHeading ? renderExamples(examplesHeading, examples) : '';
+
+  return `You are a UI configuration editor. Your task is to describe the changes the user's request makes to the current ${component.name} configuration as a JSON Patch (RFC 6902).
+
+${schemaDescription}
+
+CURRENT CONFIGURATION:
+${JSON.stringify(currentConfig, null, 2)}
+
+${exampleText}USER REQUEST: "${userPrompt}"
+
+INSTRUCTIONS:
+1. Analyze the user's request carefully.
+2. Return ONLY a JSON array of patch operations, e.g. [{"op": "replace", "path": "/styles/backgroundColor", "value": "#1E40AF"}].
+3. Include an operation ONLY for properties the request asks to change; everything else stays as it is.
+4. Paths are JSON Pointers into the current configuration. Use "replace" for existing properties, "add" for new ones and "remove" to drop optional ones.
+5. The patched configuration must still match the schema above.
+6. Ensure all colors are 6-character HEX codes (e.g. #FF0000). Keep theme token references such as "$primary" unless the request changes that property.
+7. Do NOT include any explanations, markdown formatting, or code blocks.
+
+Generate the JSON Patch now:`;
+}
+
+export const configV1: PromptTemplate<'config'> = {
+  name: 'config',
+  version: 'v1',
+  description: 'Full configuration: schema, current config and numbered instructions',
+  render: input => renderConfigPrompt(input)
+};
+
+export const patchV1: PromptTemplate<'patch'> = {
+  name: 'patch',
+  version: 'v1',
+  description: 'RFC 6902 JSON Patch against the current config',
+  render: input => renderPatchPrompt(input)
+};
+
+export const configV2: PromptTemplate<'config'> = {
+  name: 'config',
+  version: 'v2',
+  description: 'configV1 with starred examples of the component before the request',
+  fewShot: true,
+  render: input => renderConfigPrompt(
+    input,
+    'ACCEPTED EXAMPLES (configurations the team accepted for similar requests; follow their style wherever the request leaves a choice open):'
+  )
+};
+
+export const patchV2: PromptTemplate<'patch'> = {
+  name: 'patch',
+  version: 'v2',
+  description: 'patchV1 with starred examples of the component before the request',
+  fewShot: true,
+  render: input => renderPatchPrompt(
+    input,
+    'ACCEPTED EXAMPLES (full configurations the team accepted for similar requests; follow their style wherever the request leaves a choice open, but still answer with a patch):'
+  )
+};
@@ -0,0 +1,63 @@
+import type { PromptTemplate } from './shared.js';
+
+export const playgroundV1: PromptTemplate<'playground'> = {
+  name: 'playground',
+  version: 'v1',
+  description: 'Code for several providers at once, with per-provider rules and examples',
+  render({ userPrompt, prevCode, profiles, settings }) {
+    const providers = profiles.map(profile => profile.id);
+    const providerRulesText = profiles.map(profile => {
+      const darkMode = settings[profile.id]?.darkMode
+        ? '\n      - DARK MODE: render on a dark background (e.g. #121212) with light text and adjust borders and hover colors to match'
+        : '';
+      const modules = profile.modules
+        ? `\n      Modules: ${Object.entries(profile.modules).map(([module, names]) => `${profile.importPath}/${module} (${names.join(', ')})`).join('; ')}`
+        : '';
+      const extraSources = profile.extraImportSources?.length
+        ? ` (also allowed: ${profile.extraImportSources.map(source => `"${source}"`).join(', ')})`
+        : '';
+      const examples = profile.examples.map(example => `      EXAMPLE:\n      \`\`\`jsx\n${example.replace(/^/gm, '      ')}\n      \`\`\``).join('\n');
+
+      return `- ${profile.id.toUpperCase()} (${profile.label}):
+      Import from: "${profile.importPath}"${profile.allowSubpathImports ? ' sub-paths' : ''}${extraSources}${modules}
+${profile.guidelines.map(guideline => `      - ${guideline}`).join('\n')}${darkMode}
+      ALLOWED COMPONENTS: ${profile.allowedComponents.join(', ')}
+${examples}`;
+    }).join('\n    ');
+
+    return `You are an expert React developer. Your task is to generate React component code for MULTIPLE UI libraries based on the user's request.
+    
+    USER REQUEST: "${userPrompt}"
+    
+    PROVIDERS TO GENERATE FOR:
+    ${providers.join(', ')}
+    
+    CURRENT CODE STATE:
+    ${typeof prevCode === 'string' ? prevCode : JSON.stringify(prevCode)}
+    
+    CORE INSTRUCTIONS:
+    1. **FIRST RESEARCH**: Thoroughly research and analyze the requirements for the requested component. Brainstorm how it should be implemented across different UI libraries to ensure compatibility and visual consistency.
+    2. **LIBRARY VERSIONS**: Each provider below targets one specific library version. Follow its rules and examples exactly; APIs from other versions will not build.
+    3. **IMPORTS**: You MUST include all necessary import statements in your code. 
+       - Import each provider's components from its import path listed below.
+       - Always include: import React from 'react';
+       - For icons, import from 'lucide-react'.
+    4. **COMPONENT RESTRICTION**: For EACH provider, you can ONLY use the components listed in its "ALLOWED COMPONENTS" below. Using any other component from these libraries will cause a build failure.
+    5. **CODE STRUCTURE**: Each output must be a standalone "default export" functional component: export default () => { ... }.
+    6. **VALIDATION**: Ensure the generated code is valid React/JSX and follows the specific syntax/patterns of the respective UI library.
+    7. **COMMENTS**: Never use any comments in the generated code.
+    
+    PROVIDER RULES:
+    ${providerRulesText}
+    
+    OUTPUT FORMAT:
+    Return a SINGLE JSON object where keys are the provider IDs (matching those above) and values are the code strings. No markdown, no triple backticks, no explanations.
+    
+    Example Output Format:
+    {
+      ${profiles.map(profile => `"${profile.id}": "import React from 'react';\\nimport { ... } from '${profile.importPath}${profile.allowSubpathImports ? '/...' : ''}';\\n\\nexport default () => ( ... )"`).join(',\n      ')}
+    }
+    
+    Generate the JSON now:`;
+  }
+};
@@ -0,0 +1,59 @@
+import type { ComponentRegistryEntry } from '../../constants/componentRegistry.js';
+import type { ProviderProfile, ProviderSettings } from '../../constants/providerRegistry.js';
+
+/**
+ * A starred generation shown to the model, see exampleService
+ */
+export interface PromptExample {
+  id: string;
+  prompt: string;
+  config: unknown;
+}
+
+export interface ConfigPromptInput {
+  component: ComponentRegistryEntry;
+  currentConfig: any;
+  userPrompt: string;
+  examples?: PromptExample[]; // Only rendered by fewShot templates
+}
+
+export interface PlaygroundPromptInput {
+  userPrompt: string;
+  prevCode: any;
+  profiles: ProviderProfile[];
+  settings: Record<string, ProviderSettings>;
+}
+
+/**
+ * Input of each named template; 'patch' asks for a JSON Patch instead of the full config
+ */
+export interface PromptInputs {
+  config: ConfigPromptInput;
+  patch: ConfigPromptInput;
+  playground: PlaygroundPromptInput;
+}
+
+export type PromptTemplateName = keyof PromptInputs;
+
+/**
+ * One wording of a prompt. A published version is never edited: a new
+ * wording gets a new version, so recorded generations keep pointing at the
+ * text that produced them.
+ */
+export interface PromptTemplate<N extends PromptTemplateName = PromptTemplateName> {
+  name: N;
+  version: string; // e.g. "v1"
+  description: string;
+  fewShot?: boolean; // Renders retrieved examples; other versions are not sent any
+  render(input: PromptInputs[N]): string;
+}
+
+/**
+ * Few-shot block for config prompts: each example's request and the config
+ * that was accepted for it, one line of JSON each. Empty without examples.
+ */
+export function renderExamples(heading: string, examples: PromptExample[] = []): string {
+  if (examples.length === 0) return '';
+  const rendered = examples.map(example => `Request: "${example.prompt}"\nResult: ${JSON.stringify(example.config)}`);
+  return `${heading}\n${rendered.join('\n\n')}\n\n`;
+}
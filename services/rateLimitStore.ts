@@ -0,0 +1,146 @@
+import RateLimitBucket from "../models/rateLimitBucket.model.js";
+import UsageQuota from "../models/usageQuota.model.js";
+import type { BucketPolicy } from "../constants/rateLimits.js";
+import type { MeteredUsage } from "../utils/usageMeter.js";
+
+export interface TakeTokenResult {
+  allowed: boolean;
+  retryAfterMs: number; // Until the bucket has a token again; 0 when allowed
+}
+
+/**
+ * Where buckets and daily usage live. The memory store is per process (dev,
+ * single instance); the mongo store is shared by every instance.
+ */
+export interface RateLimitStore {
+  takeToken(key: string, policy: BucketPolicy, now: number): Promise<TakeTokenResult>;
+  addUsage(key: string, day: string, usage: MeteredUsage): Promise<void>;
+  getUsage(key: string, day: string): Promise<MeteredUsage>;
+}
+
+const MS_PER_MINUTE = 60_000;
+
+// Past this many buckets the memory store drops the ones that have refilled completely
+const MAX_MEMORY_BUCKETS = 10_000;
+
+function retryAfter(tokens: number, policy: BucketPolicy): number {
+  if (policy.refillPerMinute <= 0) return 24 * 60 * MS_PER_MINUTE;
+  return Math.ceil(((1 - tokens) / policy.refillPerMinute) * MS_PER_MINUTE);
+}
+
+// Time until an idle bucket is full again, after which it can be forgotten
+function timeToFull(tokens: number, policy: BucketPolicy): number {
+  if (policy.refillPerMinute <= 0) return 24 * 60 * MS_PER_MINUTE;
+  return Math.ceil(((policy.capacity - tokens) / policy.refillPerMinute) * MS_PER_MINUTE);
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; refilledAt: number; expiresAt: number }>();
+  const usage = new Map<string, MeteredUsage>();
+  let usageDay = '';
+
+  return {
+    async takeToken(key, policy, now) {
+      if (buckets.size >= MAX_MEMORY_BUCKETS) {
+        for (const [bucketKey, idle] of buckets) {
+          if (idle.expiresAt <= now) buckets.delete(bucketKey);
+        }
+      }
+
+      const bucket = buckets.get(key) ?? { tokens: policy.capacity, refilledAt: now };
+      const elapsed = Math.max(0, now - bucket.refilledAt);
+      const tokens = Math.min(policy.capacity, bucket.tokens + (elapsed / MS_PER_MINUTE) * policy.refillPerMinute);
+      const allowed = tokens >= 1;
+
+      const left = allowed ? tokens - 1 : tokens;
+      buckets.set(key, { tokens: left, refilledAt: now, expiresAt: now + timeToFull(left, policy) });
+      return { allowed, retryAfterMs: allowed ? 0 : retryAfter(tokens, policy) };
+    },
+
+    async addUsage(key, day, added) {
+      // Only the current day is ever read, so older days are dropped
+      if (day !== usageDay) {
+        usage.clear();
+        usageDay = day;
+      }
+      const current = usage.get(key) ?? { tokens: 0, costUsd: 0 };
+      usage.set(key, { tokens: current.tokens + added.tokens, costUsd: current.costUsd + added.costUsd });
+    },
+
+    async getUsage(key, day) {
+      return (day === usageDay && usage.get(key)) || { tokens: 0, costUsd: 0 };
+    }
+  };
+}
+
+export function createMongoRateLimitStore(): RateLimitStore {
+  return {
+    async takeToken(key, policy, now) {
+      const at = new Date(now);
+      const refilled = {
+        $min: [
+          policy.capacity,
+          {
+            $add: [
+              { $ifNull: ['$tokens', policy.capacity] },
+              {
+                $multiply: [
+                  { $divide: [{ $max: [0, { $subtract: [at, { $ifNull: ['$refilledAt', at] }] }] }, MS_PER_MINUTE] },
+                  policy.refillPerMinute
+                ]
+              }
+            ]
+          }
+        ]
+      };
+
+      // One atomic read-refill-take, so concurrent instances never hand out the same token
+      const bucket = await RateLimitBucket.findOneAndUpdate(
+        { key },
+        [
+          { $set: { tokens: refilled, refilledAt: at } },
+          { $set: { allowed: { $gte: ['$tokens', 1] } } },
+          {
+            $set: {
+              tokens: { $cond: ['$allowed', { $subtract: ['$tokens', 1] }, '$tokens'] },
+              expiresAt: new Date(now + timeToFull(0, policy))
+            }
+          }
+        ],
+        { upsert: true, new: true, updatePipeline: true }
+      ).lean();
+
+      if (!bucket || bucket.allowed) return { allowed: true, retryAfterMs: 0 };
+      return { allowed: false, retryAfterMs: retryAfter(bucket.tokens, policy) };
+    },
+
+    async addUsage(key, day, usage) {
+      await UsageQuota.updateOne(
+        { key, day },
+        { $inc: { tokens: usage.tokens, costUsd: usage.costUsd } },
+        { upsert: true }
+      );
+    },
+
+    async getUsage(key, day) {
+      const quota = await UsageQuota.findOne({ key, day }).lean();
+      return { tokens: quota?.tokens ?? 0, costUsd: quota?.costUsd ?? 0 };
+    }
+  };
+}
+
+let store: RateLimitStore | undefined;
+
+/**
+ * The store selected by RATE_LIMIT_STORE, created on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const configured = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+    if (configured !== 'memory' && configured !== 'mongo') {
+      console.warn(`Unknown RATE_LIMIT_STORE "${configured}", falling back to memory`);
+    }
+    store = configured === 'mongo' ? createMongoRateLimitStore() : createMemoryRateLimitStore();
+  }
+  return store;
+}
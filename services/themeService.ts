@@ -0,0 +1,201 @@
+import mongoose from "mongoose";
+import { resolveEngine } from "./llmEngine.js";
+import { promptBuilder } from "./promptBuilder.js";
+import { componentRegistry, resolveComponent, validateComponentConfig } from "../constants/componentRegistry.js";
+import Theme, { ITheme } from "../models/theme.model.js";
+import { ThemeTokens, ThemeTokensSchema, ThemeInput } from "../validators/themeValidator.js";
+import { validateConfig } from "../validators/configValidator.js";
+import { parseModelJSON } from "../utils/jsonRepair.js";
+import { toJSONSchema } from "../utils/schemaDescriber.js";
+import { applyThemeRoles, resolveTokenReferences } from "../utils/themeTokens.js";
+import { workspaceFilter } from "../utils/workspace.js";
+import type { ApiErrorCode } from "../contracts/common.js";
+
+export interface ThemedConfig {
+  success: boolean;
+  config?: unknown;          // Config with "$token" references, to keep following the theme
+  resolvedConfig?: unknown;  // Same config with every token replaced by its value
+  error?: string;
+  code?: ApiErrorCode;
+  details?: string[];
+}
+
+export interface ThemeOutcome {
+  status: number;
+  body: {
+    success: boolean;
+    theme?: unknown;
+    configs?: Record<string, ThemedConfig>;
+    attempts?: number;
+    model?: string;
+    error?: string;
+    code?: ApiErrorCode;
+    details?: string[];
+  };
+}
+
+const MAX_THEME_RETRIES = 3;
+
+export async function listThemes(workspaceId: string) {
+  return Theme.find(workspaceFilter(workspaceId)).sort({ updatedAt: -1 }).lean();
+}
+
+export async function getTheme(workspaceId: string, id: string) {
+  if (!mongoose.isValidObjectId(id)) return null;
+  return Theme.findOne({ _id: id, ...workspaceFilter(workspaceId) }).lean();
+}
+
+export async function createTheme(workspaceId: string, input: ThemeInput & Pick<ITheme, 'prompt' | 'model'>) {
+  const theme = await Theme.create({ ...input, workspaceId });
+  return theme.toObject();
+}
+
+export async function updateTheme(workspaceId: string, id: string, input: Partial<ThemeInput>) {
+  if (!mongoose.isValidObjectId(id)) return null;
+  return Theme.findOneAndUpdate(
+    { _id: id, ...workspaceFilter(workspaceId) },
+    { $set: { ...input, workspaceId } },
+    { new: true }
+  ).lean();
+}
+
+export async function deleteTheme(workspaceId: string, id: string): Promise<boolean> {
+  if (!mongoose.isValidObjectId(id)) return false;
+  const result = await Theme.deleteOne({ _id: id, ...workspaceFilter(workspaceId) });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Resolve a config's token references against a theme and validate the result
+ */
+export function resolveThemedConfig(componentName: string, config: unknown, tokens: ThemeTokens): ThemedConfig {
+  const component = resolveComponent(componentName);
+  if (!component) {
+    return { success: false, error: `Component "${componentName}" is not supported`, code: 'UNKNOWN_COMPONENT' };
+  }
+
+  const { config: resolved, missing } = resolveTokenReferences(config, tokens);
+  if (missing.length > 0) {
+    return { success: false, error: 'Config references tokens the theme does not define', code: 'INVALID_CONFIG', details: missing };
+  }
+
+  const validation = validateComponentConfig(component, resolved);
+  if (!validation.success) {
+    return { success: false, error: validation.error, code: 'INVALID_CONFIG', details: validation.details };
+  }
+  return { success: true, config, resolvedConfig: validation.data };
+}
+
+/**
+ * Re-skin every component node of a layout tree with that component's themeRoles
+ */
+function applyThemeToLayoutNode(node: any, tokens: ThemeTokens): any {
+  if (!node || typeof node !== 'object') return node;
+  if (Array.isArray(node.children)) {
+    return { ...node, children: node.children.map((child: any) => applyThemeToLayoutNode(child, tokens)) };
+  }
+  const component = componentRegistry[node.type];
+  return component?.themeRoles
+    ? { ...node, config: applyThemeRoles(node.config, component.themeRoles, tokens) }
+    : node;
+}
+
+function applyTheme(componentId: string, config: any, tokens: ThemeTokens): unknown {
+  if (componentId === 'layout') {
+    return { ...config, root: applyThemeToLayoutNode(config?.root, tokens) };
+  }
+  return applyThemeRoles(config, componentRegistry[componentId]?.themeRoles || {}, tokens);
+}
+
+/**
+ * Deterministically re-skin configs with a theme through each component's
+ * themeRoles (layouts per component node). Without configs every registered
+ * component is re-skinned from its default config.
+ */
+export function reskinConfigs(tokens: ThemeTokens, configs?: Record<string, unknown>): Record<string, ThemedConfig> {
+  const targets = configs ?? Object.fromEntries(
+    Object.values(componentRegistry).map(entry => [entry.id, entry.defaultConfig])
+  );
+
+  return Object.fromEntries(Object.entries(targets).map(([componentName, config]) => {
+    const component = resolveComponent(componentName);
+    if (!component) {
+      return [componentName, { success: false, error: `Component "${componentName}" is not supported`, code: 'UNKNOWN_COMPONENT' }];
+    }
+
+    const themed = applyTheme(component.id, config, tokens);
+    return [componentName, resolveThemedConfig(component.id, themed, tokens)];
+  }));
+}
+
+/**
+ * Generate a palette from a text prompt, save it as a theme and re-skin configs with it
+ */
+export async function generateTheme(request: {
+  workspaceId: string;
+  prompt: string;
+  name?: string;
+  model?: string;
+  configs?: Record<string, unknown>;
+}): Promise<ThemeOutcome> {
+  const { workspaceId, prompt, name, model, configs } = request;
+
+  let engine;
+  try {
+    engine = resolveEngine(model);
+  } catch (err: any) {
+    return { status: 400, body: { success: false, error: err.message, code: 'UNKNOWN_MODEL' } };
+  }
+
+  const responseSchema = toJSONSchema(ThemeTokensSchema);
+  let tokens: ThemeTokens | undefined;
+  let lastError = "";
+  let attempts = 0;
+
+  for (let i = 0; i < MAX_THEME_RETRIES && !tokens; i++) {
+    attempts++;
+    try {
+      let themePrompt = promptBuilder.getThemePrompt(prompt);
+      if (i > 0 && lastError) {
+        themePrompt += `\n\nPREVIOUS ATTEMPT FAILED WITH ERRORS:\n${lastError}\n\nPlease fix these errors and try again.`;
+      }
+
+      const { text, structured } = await engine.generate(themePrompt, { responseSchema });
+      const { value } = parseModelJSON(text, { structured });
+      const validation = validateConfig(ThemeTokensSchema, value);
+      if (validation.success) {
+        tokens = validation.data;
+      } else {
+        lastError = validation.details?.join("\n") || validation.error || "Validation failed";
+      }
+    } catch (error: any) {
+      lastError = error.message;
+    }
+  }
+
+  if (!tokens) {
+    return {
+      status: 422,
+      body: {
+        success: false,
+        error: "Failed to generate a valid theme",
+        code: "GENERATION_FAILED",
+        details: lastError.split("\n").filter(Boolean),
+        attempts,
+        model: engine.id
+      }
+    };
+  }
+
+  const theme = await createTheme(workspaceId, {
+    name: name || prompt.slice(0, 80),
+    tokens,
+    prompt,
+    model: engine.id
+  });
+
+  return {
+    status: 201,
+    body: { success: true, theme, configs: reskinConfigs(tokens, configs), attempts, model: engine.id }
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankBm25, tokenize } from '../utils/bm25.js';
+
+describe('tokenize', () => {
+  it('drops stop words and plural endings and keeps hex colors whole', () => {
+    assert.deepEqual(tokenize('Make the Buttons blue, please: #1E40AF'), ['button', 'blue', '#1e40af']);
+    assert.deepEqual(tokenize('glass tabs a b'), ['glass', 'tab']);
+  });
+});
+
+describe('rankBm25', () => {
+  const examples = [
+    'red button with rounded corners',
+    'blue outlined button',
+    'dark card with a large shadow',
+    'blue card with a subtle blue border'
+  ];
+  const rank = (query: string) => rankBm25(query, examples, example => example).map(ranked => ranked.document);
+
+  it('leaves out documents sharing no term with the query', () => {
+    assert.deepEqual(rank('rounded corners'), ['red button with rounded corners']);
+    assert.deepEqual(rank('make it green'), []);
+  });
+
+  it('weighs rare terms above common ones', () => {
+    assert.deepEqual(rank('red button'), ['red button with rounded corners', 'blue outlined button']);
+  });
+
+  it('ranks the document matching most often first', () => {
+    const [first, second] = rankBm25('blue card', examples, example => example);
+    assert.equal(first.document, 'blue card with a subtle blue border');
+    assert.ok(first.score > second.score);
+  });
+
+  it('returns nothing for an empty query or corpus', () => {
+    assert.deepEqual(rank('the and with'), []);
+    assert.deepEqual(rankBm25('blue', [], (example: string) => example), []);
+  });
+});
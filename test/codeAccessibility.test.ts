@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseSync } from '@babel/core';
+import { analyzeCodeAccessibility, AccessibilityRuleId } from '../utils/codeAccessibility.js';
+
+function analyze(jsx: string) {
+  const ast = parseSync(`export default () => (\n${jsx}\n);\n`, {
+    filename: 'generated.tsx',
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ['jsx', 'typescript'] }
+  });
+  assert.ok(ast);
+  return analyzeCodeAccessibility(ast);
+}
+
+function rules(jsx: string): AccessibilityRuleId[] {
+  return analyze(jsx).map(finding => finding.rule);
+}
+
+describe('analyzeCodeAccessibility', () => {
+  it('requires a name for icon-only buttons', () => {
+    assert.deepEqual(rules(`<IconButton><Plus /></IconButton>`), ['icon-button-label']);
+    assert.deepEqual(rules(`<Button size="icon"><Plus /></Button>`), ['icon-button-label']);
+    assert.deepEqual(rules(`<Button icon={<Plus />} />`), ['icon-button-label']);
+
+    assert.deepEqual(rules(`<IconButton aria-label="Add"><Plus /></IconButton>`), []);
+    assert.deepEqual(rules(`<Button icon={<Plus />}>Add</Button>`), []);
+    assert.deepEqual(rules(`<Tooltip title="Add"><IconButton><Plus /></IconButton></Tooltip>`), []);
+  });
+
+  it('requires a label for form fields', () => {
+    assert.deepEqual(rules(`<input placeholder="Email" />`), ['input-label']);
+    assert.deepEqual(rules(`<Input.Password />`), ['input-label']);
+
+    assert.deepEqual(rules(`<input type="submit" />`), []);
+    assert.deepEqual(rules(`<TextField label="Email" />`), []);
+    assert.deepEqual(rules(`<label>Email <input /></label>`), []);
+    assert.deepEqual(rules(`<div><Label htmlFor="email">Email</Label><Input id="email" /></div>`), []);
+    assert.deepEqual(rules(`<FormControl><FormLabel>Email</FormLabel><Input /></FormControl>`), []);
+    assert.deepEqual(rules(`<Form.Item label="Email"><Input /></Form.Item>`), []);
+  });
+
+  it('flags click handlers on elements the keyboard cannot reach', () => {
+    assert.deepEqual(rules(`<div onClick={() => {}}>Open</div>`), ['click-non-interactive']);
+    assert.deepEqual(rules(`<div role="button" onClick={() => {}}>Open</div>`), ['click-non-interactive']);
+
+    assert.deepEqual(rules(`<div role="button" tabIndex={0} onClick={() => {}} onKeyDown={() => {}}>Open</div>`), []);
+    assert.deepEqual(rules(`<button onClick={() => {}}>Open</button>`), []);
+    assert.deepEqual(rules(`<Card onClick={() => {}}>Open</Card>`), []);
+  });
+
+  it('does not judge elements with spread props', () => {
+    assert.deepEqual(rules(`<input {...props} />`), []);
+  });
+
+  it('reports where each finding is', () => {
+    const [finding] = analyze('  <div>\n    <input />\n  </div>');
+    assert.equal(finding.line, 3);
+    assert.equal(finding.column, 5);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeCodeSecurity } from '../utils/codeSecurity.js';
+import { securityRules, SecurityAction, SecurityConfig, SecurityRuleId } from '../constants/securityRules.js';
+
+const ALLOWED_HOSTS = ['picsum.photos'];
+
+function config(overrides: Partial<Record<SecurityRuleId, SecurityAction>> = {}): SecurityConfig {
+  const actions = {} as Record<SecurityRuleId, SecurityAction>;
+  for (const rule of Object.values(securityRules)) actions[rule.id] = overrides[rule.id] ?? rule.defaultAction;
+  return { actions, allowedHosts: ALLOWED_HOSTS };
+}
+
+function component(body: string): string {
+  return `import React from 'react';\n\nexport default () => {\n${body}\n  return <div />;\n};\n`;
+}
+
+function rules(code: string, securityConfig = config()): SecurityRuleId[] {
+  return analyzeCodeSecurity(code, securityConfig).findings.map(finding => finding.rule);
+}
+
+describe('analyzeCodeSecurity', () => {
+  it('returns no findings for plain component code', () => {
+    const analysis = analyzeCodeSecurity(component(`  const [count, setCount] = React.useState(0);`), config());
+    assert.deepEqual(analysis, { findings: [] });
+  });
+
+  it('reports each rule', () => {
+    assert.deepEqual(rules(component(`  eval('1');`)), ['eval']);
+    assert.deepEqual(rules(component(`  setTimeout('alert(1)', 10);`)), ['eval']);
+    assert.deepEqual(rules(component(`  new Function('return 1');`)), ['function-constructor']);
+    assert.deepEqual(rules(component(`  import('./module');`)), ['dynamic-import']);
+    assert.deepEqual(rules(component(`  fetch('/api');`)), ['network']);
+    assert.deepEqual(rules(component(`  new WebSocket('/socket');`)), ['network']);
+    assert.deepEqual(rules(component(`  navigator.sendBeacon('/log');`)), ['network']);
+    assert.deepEqual(rules(component(`  const value = document.cookie;`)), ['cookie']);
+    assert.deepEqual(rules(component(`  localStorage.getItem('key');`)), ['storage']);
+    assert.deepEqual(rules(component(`  window.location.href = '/elsewhere';`)), ['location-write']);
+    assert.deepEqual(rules(component(`  location.assign('/elsewhere');`)), ['location-write']);
+    assert.deepEqual(rules(`export default () => <div dangerouslySetInnerHTML={{ __html: '<b>hi</b>' }} />;\n`), ['dangerous-html']);
+    assert.deepEqual(rules(component(`  const next = 'javascript:alert(1)';`)), ['external-url']);
+  });
+
+  it('sees through computed members on the global object', () => {
+    assert.deepEqual(rules(component(`  window['fetch']('/api');`)), ['network']);
+    assert.deepEqual(rules(component(`  globalThis[\`eval\`]('1');`)), ['eval']);
+    assert.deepEqual(rules(component(`  window['location']['replace']('/elsewhere');`)), ['location-write']);
+    assert.deepEqual(rules(component(`  document['cookie'] = 'a=1';`)), ['cookie']);
+  });
+
+  it('catches blocked globals that are not called directly', () => {
+    assert.deepEqual(rules(component(`  fetch.call(null, '/steal');`)), ['network']);
+    assert.deepEqual(rules(component(`  const f = fetch;\n  f('https://evil.example.com/');`)), ['network', 'external-url']);
+    assert.deepEqual(rules(component(`  const request = window.XMLHttpRequest;`)), ['network']);
+    assert.deepEqual(rules(component(`  setTimeout(eval, 0, 'alert(1)');`)), ['eval']);
+    assert.deepEqual(rules(component(`  Reflect.construct(Function, ['return 1']);`)), ['function-constructor']);
+  });
+
+  it('catches Function reached through .constructor.constructor', () => {
+    assert.deepEqual(rules(component(`  [].constructor.constructor('alert(1)')();`)), ['function-constructor']);
+    assert.deepEqual(rules(component(`  const name = [].constructor.name;`)), []);
+  });
+
+  it('neutralizes blocked globals that are passed around', () => {
+    const { sanitizedCode } = analyzeCodeSecurity(component(`  const f = fetch;\n  [].constructor.constructor('alert(1)')();`), config());
+    assert.ok(sanitizedCode);
+    assert.doesNotMatch(sanitizedCode, /fetch|constructor/);
+  });
+
+  it('treats the windows of surrounding frames as global objects', () => {
+    assert.deepEqual(rules(component(`  window.top.location.href = '/x';`)), ['location-write']);
+    assert.deepEqual(rules(component(`  parent.location = '/x';`)), ['location-write']);
+    assert.deepEqual(rules(component(`  frames[0].location.assign('/x');`)), ['location-write']);
+    assert.deepEqual(rules(component(`  self.parent.fetch('/api');`)), ['network']);
+    assert.deepEqual(rules(component(`  const parent = { location: {} };\n  parent.location = '/x';`)), []);
+  });
+
+  it('reports computed keys on global objects that are not literals', () => {
+    assert.deepEqual(rules(component(`  const storage = window['local' + 'Storage'];`)), ['dynamic-global-access']);
+    assert.deepEqual(rules(component(`  const value = document[key];`)), ['dynamic-global-access']);
+    assert.deepEqual(rules(component(`  globalThis[name] = 1;`)), ['dynamic-global-access']);
+    assert.deepEqual(rules(component(`  const frame = window[0];\n  const item = items[index];`)), []);
+  });
+
+  it('covers properties destructured from document and window objects', () => {
+    assert.deepEqual(rules(component(`  const { cookie } = document;`)), ['cookie']);
+    assert.deepEqual(rules(component(`  const { body, cookie: jar = '' } = window.document;`)), ['cookie']);
+    assert.deepEqual(rules(component(`  const { document: { cookie } } = window;`)), ['cookie']);
+    assert.deepEqual(rules(component(`  const { fetch: request } = window;`)), ['network']);
+    assert.deepEqual(rules(component(`  let cookie;\n  ({ cookie } = document);`)), ['cookie']);
+    assert.deepEqual(rules(component(`  const { [name]: value } = globalThis;`)), ['dynamic-global-access']);
+    assert.deepEqual(rules(component(`  const { innerWidth, innerHeight } = window;`)), []);
+  });
+
+  it('keeps the targets of stripped destructured properties, bound to a stand-in', () => {
+    const { sanitizedCode } = analyzeCodeSecurity(component(`  const { body, cookie } = document;`), config());
+    assert.ok(sanitizedCode);
+    assert.match(sanitizedCode, /const \{ body, "__sandboxBlocked": cookie = "" \} = document;/);
+    assert.deepEqual(analyzeCodeSecurity(sanitizedCode, config()).findings, []);
+  });
+
+  it('ignores local bindings that shadow a global', () => {
+    assert.deepEqual(rules(component(`  const fetch = (url: string) => url;\n  fetch('/api');`)), []);
+    assert.deepEqual(rules(component(`  const localStorage = new Map();\n  localStorage.get('key');`)), []);
+  });
+
+  it('reports props that render HTML or run javascript: URLs', () => {
+    assert.deepEqual(rules(`export default () => <iframe srcDoc="<script>alert(1)</script>" />;\n`), ['dangerous-html']);
+    assert.deepEqual(rules(`export default () => <a href="javascript:alert(1)">Link</a>;\n`), ['dangerous-html']);
+    assert.deepEqual(rules(`export default () => <a href={' JavaScript:alert(1)'}>Link</a>;\n`), ['dangerous-html']);
+    assert.deepEqual(rules(`export default () => <iframe src={\`java\tscript:\${code}\`} />;\n`), ['dangerous-html']);
+    assert.deepEqual(rules(`export default () => <form action="javascript:void(0)"><button formAction="javascript:go()">Go</button></form>;\n`), [
+      'dangerous-html',
+      'dangerous-html'
+    ]);
+    assert.deepEqual(rules(`export default () => <a href="#section" title="About javascript: URLs">Link</a>;\n`), []);
+  });
+
+  it('neutralizes HTML props and javascript: URLs', () => {
+    const { sanitizedCode } = analyzeCodeSecurity(
+      `export default () => <div><iframe srcDoc="<b>hi</b>" /><a href="javascript:alert(1)">Link</a></div>;\n`,
+      config()
+    );
+    assert.ok(sanitizedCode);
+    assert.doesNotMatch(sanitizedCode, /srcDoc|javascript/);
+    assert.match(sanitizedCode, /<a href="#">/);
+  });
+
+  it('only reports URLs outside the allowed hosts', () => {
+    assert.deepEqual(rules(`export default () => <img src="https://picsum.photos/200" alt="" />;\n`), []);
+    assert.deepEqual(rules(`export default () => <img src="https://cdn.picsum.photos/200" alt="" />;\n`), []);
+    assert.deepEqual(rules(`export default () => <img src="https://evil.example.com/x.png" alt="" />;\n`), ['external-url']);
+  });
+
+  it('neutralizes stripped findings in the sanitized code', () => {
+    const analysis = analyzeCodeSecurity(component(`  fetch('/api');\n  eval('1');`), config());
+    assert.deepEqual(analysis.findings.map(finding => finding.action), ['strip', 'strip']);
+    assert.ok(analysis.sanitizedCode);
+    assert.doesNotMatch(analysis.sanitizedCode, /fetch|eval/);
+    assert.match(analysis.sanitizedCode, /Promise\.reject/);
+  });
+
+  it('leaves flagged code unchanged', () => {
+    const analysis = analyzeCodeSecurity(component(`  localStorage.setItem('key', 'value');`), config());
+    assert.equal(analysis.findings[0].action, 'flag');
+    assert.equal(analysis.sanitizedCode, undefined);
+  });
+
+  it('applies the configured action per rule', () => {
+    const failing = analyzeCodeSecurity(component(`  fetch('/api');`), config({ network: 'fail' }));
+    assert.deepEqual(failing.findings.map(finding => finding.action), ['fail']);
+    assert.equal(failing.sanitizedCode, undefined);
+
+    assert.deepEqual(rules(component(`  fetch('/api');`), config({ network: 'off' })), []);
+  });
+
+  it('reports line and column of a finding', () => {
+    const [finding] = analyzeCodeSecurity(component(`  fetch('/api');`), config()).findings;
+    assert.equal(finding.line, 4);
+    assert.equal(finding.column, 3);
+  });
+
+  it('produces sanitized code with nothing left to strip', () => {
+    const code = component([
+      `  window['fetch']('/api');`,
+      `  document.cookie = 'a=1';`,
+      `  const url = \`https://evil.example.com/\${1}\`;`
+    ].join('\n'));
+    const { sanitizedCode } = analyzeCodeSecurity(code, config());
+    assert.ok(sanitizedCode);
+    const recheck = analyzeCodeSecurity(sanitizedCode, config());
+    assert.deepEqual(recheck.findings.filter(finding => finding.action === 'strip'), []);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffConfigs, findUnrelatedChanges, formatChange, revertChanges } from '../utils/configDiff.js';
+
+const before = {
+  label: 'Save',
+  variant: 'contained',
+  styles: { backgroundColor: '#FFFFFF', borderRadius: 4 },
+  options: ['a', 'b', 'c']
+};
+
+describe('diffConfigs', () => {
+  it('returns nothing for equal configs', () => {
+    assert.deepEqual(diffConfigs(before, JSON.parse(JSON.stringify(before))), []);
+  });
+
+  it('lists leaf changes, additions and removals', () => {
+    const after = {
+      label: 'Save',
+      styles: { backgroundColor: '#1E40AF', borderRadius: 4, fontColor: '#FFFFFF' },
+      options: ['a', 'b', 'c']
+    };
+    assert.deepEqual(diffConfigs(before, after), [
+      { path: 'variant', segments: ['variant'], type: 'removed', before: 'contained' },
+      { path: 'styles.backgroundColor', segments: ['styles', 'backgroundColor'], type: 'changed', before: '#FFFFFF', after: '#1E40AF' },
+      { path: 'styles.fontColor', segments: ['styles', 'fontColor'], type: 'added', after: '#FFFFFF' }
+    ]);
+  });
+
+  it('compares arrays by index', () => {
+    const changes = diffConfigs({ options: ['a', 'b', 'c'] }, { options: ['a', 'x'] });
+    assert.deepEqual(changes.map(change => [change.path, change.type]), [
+      ['options.1', 'changed'],
+      ['options.2', 'removed']
+    ]);
+  });
+
+  it('treats a change of type as a single change', () => {
+    assert.deepEqual(diffConfigs({ padding: { px: 1, py: 1 } }, { padding: 8 }), [
+      { path: 'padding', segments: ['padding'], type: 'changed', before: { px: 1, py: 1 }, after: 8 }
+    ]);
+  });
+});
+
+describe('formatChange', () => {
+  it('describes each kind of change', () => {
+    const [removed, changed, added] = diffConfigs(
+      { a: 'x', b: '#FFFFFF' },
+      { b: '#000000', c: { d: 1 } }
+    );
+    assert.equal(formatChange(removed), 'a: x (removed)');
+    assert.equal(formatChange(changed), 'b: #FFFFFF → #000000');
+    assert.equal(formatChange(added), 'c: (added) {"d":1}');
+  });
+});
+
+describe('findUnrelatedChanges', () => {
+  const after = {
+    label: 'Submit',
+    variant: 'contained',
+    styles: { backgroundColor: '#1E40AF', borderRadius: 12 },
+    options: ['a', 'b', 'c']
+  };
+  const changes = diffConfigs(before, after);
+
+  it('keeps changes the prompt names directly', () => {
+    const unrelated = findUnrelatedChanges(changes, 'Change the background and the label');
+    assert.deepEqual(unrelated.map(change => change.path), ['styles.borderRadius']);
+  });
+
+  it('matches properties through their synonyms', () => {
+    const unrelated = findUnrelatedChanges(changes, 'Make it blue with rounded corners');
+    assert.deepEqual(unrelated.map(change => change.path), ['label']);
+  });
+
+  it('reports every change a prompt does not touch', () => {
+    const unrelated = findUnrelatedChanges(changes, 'Disable it');
+    assert.deepEqual(unrelated.map(change => change.path), ['label', 'styles.backgroundColor', 'styles.borderRadius']);
+  });
+
+  it('never reports changes to array items without a property name', () => {
+    const itemChanges = diffConfigs(['a'], ['b']);
+    assert.deepEqual(findUnrelatedChanges(itemChanges, 'Disable it'), []);
+  });
+});
+
+describe('revertChanges', () => {
+  it('restores the before side of the given changes only', () => {
+    const after = {
+      label: 'Submit',
+      styles: { backgroundColor: '#1E40AF', borderRadius: 4, fontColor: '#FFFFFF' },
+      options: ['a', 'b', 'c']
+    };
+    const changes = diffConfigs(before, after);
+    const unrelated = changes.filter(change => change.path !== 'styles.backgroundColor');
+
+    assert.deepEqual(revertChanges(after, unrelated), {
+      label: 'Save',
+      styles: { backgroundColor: '#1E40AF', borderRadius: 4 },
+      options: ['a', 'b', 'c'],
+      variant: 'contained'
+    });
+  });
+
+  it('undoes array additions and removals', () => {
+    const grown = { options: ['a', 'x', 'c', 'd', 'e'] };
+    assert.deepEqual(revertChanges(grown, diffConfigs(before, { ...before, ...grown })).options, before.options);
+
+    const shrunk = { options: ['a'] };
+    assert.deepEqual(revertChanges(shrunk, diffConfigs({ options: before.options }, shrunk)).options, before.options);
+  });
+
+  it('leaves the input untouched', () => {
+    const after = { ...before, label: 'Submit' };
+    const reverted = revertChanges(after, diffConfigs(before, after));
+    assert.equal(reverted.label, 'Save');
+    assert.equal(after.label, 'Submit');
+  });
+});
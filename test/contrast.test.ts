@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { contrastRatio, relativeLuminance } from '../utils/contrast.js';
+import { auditConfigAccessibility, describeContrastFailures } from '../utils/configAccessibility.js';
+import { ComponentRegistryEntry, componentRegistry } from '../constants/componentRegistry.js';
+
+function withStyles(entry: ComponentRegistryEntry, styles: Record<string, string>) {
+  return { ...(entry.defaultConfig as object), styles };
+}
+
+describe('contrastRatio', () => {
+  it('follows the WCAG formula', () => {
+    assert.equal(relativeLuminance('#000000'), 0);
+    assert.equal(relativeLuminance('#FFFFFF'), 1);
+    assert.equal(contrastRatio('#000000', '#FFFFFF'), 21);
+    assert.equal(contrastRatio('#FFFFFF', '#000000'), 21);
+    assert.equal(contrastRatio('#1E40AF', '#1E40AF'), 1);
+    assert.equal(contrastRatio('#777777', '#FFFFFF')!.toFixed(2), '4.48');
+  });
+
+  it('is null unless both colors are hex', () => {
+    assert.equal(contrastRatio('$primary', '#FFFFFF'), null);
+    assert.equal(contrastRatio('#FFFFFF', undefined), null);
+    assert.equal(contrastRatio('#FFF', '#000000'), null);
+  });
+});
+
+describe('auditConfigAccessibility', () => {
+  const button = componentRegistry.button;
+  const iconButton = componentRegistry['icon-button'];
+
+  it('checks the declared pairs that have both colors set', () => {
+    const report = auditConfigAccessibility(button, withStyles(button, { backgroundColor: '#FFFFFF', fontColor: '#777777' }));
+    assert.equal(report.passes, false);
+    assert.deepEqual(report.contrast, [{
+      component: 'button',
+      foreground: 'styles.fontColor',
+      background: 'styles.backgroundColor',
+      foregroundColor: '#777777',
+      backgroundColor: '#FFFFFF',
+      ratio: 4.48,
+      minimum: 4.5,
+      passes: false
+    }]);
+    assert.deepEqual(describeContrastFailures(report), [
+      'styles.fontColor #777777 on styles.backgroundColor #FFFFFF has a contrast ratio of 4.48:1; WCAG AA needs at least 4.5:1'
+    ]);
+  });
+
+  it('skips pairs with a missing color or token reference', () => {
+    const report = auditConfigAccessibility(button, withStyles(button, { backgroundColor: '$primary', fontColor: '#000000' }));
+    assert.deepEqual(report, { passes: true, contrast: [] });
+  });
+
+  it('uses the non-text minimum for graphics', () => {
+    const report = auditConfigAccessibility(iconButton, withStyles(iconButton, { backgroundColor: '#FFFFFF', fontColor: '#777777' }));
+    assert.equal(report.contrast[0].minimum, 3);
+    assert.equal(report.passes, true);
+  });
+
+  it('names the layout node of each check', () => {
+    const report = auditConfigAccessibility(componentRegistry.layout, {
+      root: {
+        type: 'stack',
+        children: [
+          { type: 'button', config: withStyles(button, { backgroundColor: '#000000', fontColor: '#FFFFFF' }) },
+          { type: 'button', config: withStyles(button, { backgroundColor: '#FFFF00', fontColor: '#FFFFFF' }) }
+        ]
+      }
+    });
+    assert.equal(report.passes, false);
+    assert.deepEqual(report.contrast.map(check => [check.node, check.passes]), [
+      ['root.children[0]', true],
+      ['root.children[1]', false]
+    ]);
+    assert.match(describeContrastFailures(report)[0], /^root\.children\[1\]: styles\.fontColor #FFFFFF/);
+  });
+});
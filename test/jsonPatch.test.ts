@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyJsonPatch, applyMergePatch, JsonPatchError, parsePointer, toPointer } from '../utils/jsonPatch.js';
+
+const config = {
+  label: 'Save',
+  styles: { backgroundColor: '#FFFFFF', padding: { px: 16, py: 8 } },
+  options: ['a', 'b', 'c']
+};
+
+describe('JSON Pointers', () => {
+  it('round-trips escaped tokens', () => {
+    assert.deepEqual(parsePointer('/a~1b/c~0d/0'), ['a/b', 'c~d', '0']);
+    assert.equal(toPointer(['a/b', 'c~d', 0]), '/a~1b/c~0d/0');
+    assert.deepEqual(parsePointer(''), []);
+  });
+
+  it('rejects a pointer without a leading slash', () => {
+    assert.throws(() => parsePointer('styles/color'), JsonPatchError);
+  });
+});
+
+describe('applyJsonPatch', () => {
+  it('applies add, remove and replace', () => {
+    const result = applyJsonPatch(config, [
+      { op: 'replace', path: '/styles/backgroundColor', value: '#1E40AF' },
+      { op: 'add', path: '/styles/fontColor', value: '#FFFFFF' },
+      { op: 'remove', path: '/styles/padding' }
+    ]);
+    assert.deepEqual(result.styles, { backgroundColor: '#1E40AF', fontColor: '#FFFFFF' });
+  });
+
+  it('inserts, appends and removes array items by index', () => {
+    const result = applyJsonPatch(config, [
+      { op: 'add', path: '/options/1', value: 'x' },
+      { op: 'add', path: '/options/-', value: 'z' },
+      { op: 'remove', path: '/options/0' },
+      { op: 'replace', path: '/options/0', value: 'y' }
+    ]);
+    assert.deepEqual(result.options, ['y', 'b', 'c', 'z']);
+  });
+
+  it('moves and copies values', () => {
+    const result = applyJsonPatch(config, [
+      { op: 'copy', from: '/styles/padding', path: '/margin' },
+      { op: 'move', from: '/label', path: '/title' }
+    ]);
+    assert.deepEqual(result, {
+      styles: config.styles,
+      options: config.options,
+      margin: { px: 16, py: 8 },
+      title: 'Save'
+    });
+  });
+
+  it('passes and fails test operations', () => {
+    assert.deepEqual(applyJsonPatch(config, [{ op: 'test', path: '/styles/padding', value: { px: 16, py: 8 } }]), config);
+    assert.throws(
+      () => applyJsonPatch(config, [{ op: 'test', path: '/label', value: 'Cancel' }]),
+      /Operation 0: Test failed/
+    );
+  });
+
+  it('replaces the whole document at the root pointer', () => {
+    assert.deepEqual(applyJsonPatch(config, [{ op: 'replace', path: '', value: { label: 'New' } }]), { label: 'New' });
+  });
+
+  it('names the failing operation', () => {
+    assert.throws(
+      () => applyJsonPatch(config, [
+        { op: 'replace', path: '/label', value: 'Go' },
+        { op: 'replace', path: '/styles/fontColor', value: '#000000' }
+      ]),
+      (error: unknown) => error instanceof JsonPatchError &&
+        error.operationIndex === 1 &&
+        error.message === 'Operation 1: Path /styles/fontColor does not exist'
+    );
+  });
+
+  it('rejects malformed patches', () => {
+    assert.throws(() => applyJsonPatch(config, { op: 'add' }), /must be an array/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'add', value: 1 }]), /string "path"/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'merge', path: '/label' }]), /Unknown op "merge"/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'move', path: '/label' }]), /needs a string "from"/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'remove', path: '' }]), /whole document/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'add', path: '/options/4', value: 'x' }]), /out of bounds/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'remove', path: '/options/x' }]), /not a valid array index/);
+    assert.throws(() => applyJsonPatch(config, [{ op: 'move', from: '/styles', path: '/styles/inner' }]), /own children/);
+  });
+
+  it('leaves the input and the patch values untouched', () => {
+    const before = JSON.stringify(config);
+    const value = { px: 0, py: 0 };
+    const result = applyJsonPatch(config, [{ op: 'replace', path: '/styles/padding', value }]);
+    result.styles.padding.px = 99;
+    assert.equal(JSON.stringify(config), before);
+    assert.deepEqual(value, { px: 0, py: 0 });
+  });
+});
+
+describe('applyMergePatch', () => {
+  it('merges objects recursively and deletes nulls', () => {
+    const result = applyMergePatch(config, {
+      label: 'Go',
+      styles: { backgroundColor: null, padding: { px: 24 } }
+    });
+    assert.deepEqual(result, {
+      label: 'Go',
+      styles: { padding: { px: 24, py: 8 } },
+      options: ['a', 'b', 'c']
+    });
+  });
+
+  it('replaces arrays and non-object values whole', () => {
+    assert.deepEqual(applyMergePatch(config, { options: ['z'] }).options, ['z']);
+    assert.equal(applyMergePatch(config, 'text'), 'text');
+    assert.deepEqual(applyMergePatch('text', { a: 1 }), { a: 1 });
+  });
+
+  it('leaves the input untouched', () => {
+    const before = JSON.stringify(config);
+    applyMergePatch(config, { styles: { padding: null } });
+    assert.equal(JSON.stringify(config), before);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseModelJSON, repairJSON } from '../utils/jsonRepair.js';
+
+describe('repairJSON', () => {
+  it('leaves valid JSON alone', () => {
+    assert.equal(repairJSON('{"a": [1, 2], "b": "x"}'), '{"a": [1, 2], "b": "x"}');
+  });
+
+  it('quotes keys and converts single-quoted strings', () => {
+    assert.deepEqual(JSON.parse(repairJSON(`{label: 'Save', 'size': 'small'}`)), { label: 'Save', size: 'small' });
+    assert.deepEqual(JSON.parse(repairJSON(`{text: 'It\\'s "done"'}`)), { text: `It's "done"` });
+  });
+
+  it('drops trailing commas and comments', () => {
+    const text = `{
+      // the button
+      "label": "Save", /* inline */
+      "options": ["a", "b",],
+    }`;
+    assert.deepEqual(JSON.parse(repairJSON(text)), { label: 'Save', options: ['a', 'b'] });
+  });
+
+  it('escapes raw control characters inside strings', () => {
+    assert.deepEqual(JSON.parse(repairJSON('{"content": "line one\nline two\tend"}')), { content: 'line one\nline two\tend' });
+  });
+
+  it('closes truncated output', () => {
+    assert.deepEqual(JSON.parse(repairJSON('{"label": "Sa')), { label: 'Sa' });
+    assert.deepEqual(JSON.parse(repairJSON('{"styles": {"padding": {"px": 16,')), { styles: { padding: { px: 16 } } });
+    assert.deepEqual(JSON.parse(repairJSON('{"label": "Save", "size":')), { label: 'Save', size: null });
+  });
+
+  it('cuts back to the last complete element when a key dangles', () => {
+    assert.deepEqual(JSON.parse(repairJSON('{"label": "Save", "variant": "contained", "siz')), { label: 'Save', variant: 'contained' });
+  });
+
+  it('ignores text after the value closes', () => {
+    assert.equal(repairJSON('{"a": 1} and that is it'), '{"a": 1}');
+  });
+});
+
+describe('parseModelJSON', () => {
+  it('reports a structured or plain JSON response', () => {
+    assert.deepEqual(parseModelJSON(' {"a": 1} ', { structured: true }), { value: { a: 1 }, parsePath: 'structured' });
+    assert.deepEqual(parseModelJSON('[1, 2]'), { value: [1, 2], parsePath: 'json' });
+  });
+
+  it('reads JSON from a code fence', () => {
+    const text = 'Here you go:\n```json\n{"label": "Save"}\n```\nAnything else?';
+    assert.deepEqual(parseModelJSON(text), { value: { label: 'Save' }, parsePath: 'fenced' });
+  });
+
+  it('extracts a balanced value from prose', () => {
+    const text = 'The config {with braces} is: {"label": "Save {draft}"} as requested.';
+    assert.deepEqual(parseModelJSON(text), { value: { label: 'Save {draft}' }, parsePath: 'extracted' });
+  });
+
+  it('repairs almost-JSON, including an unterminated fence', () => {
+    assert.deepEqual(parseModelJSON("{label: 'Save',}"), { value: { label: 'Save' }, parsePath: 'repaired' });
+    assert.deepEqual(parseModelJSON('```json\n{"label": "Save", "size": "sm'), {
+      value: { label: 'Save', size: 'sm' },
+      parsePath: 'repaired'
+    });
+  });
+
+  it('falls back to the text only when allowed', t => {
+    const code = '```tsx\nexport default () => <div />;\n```';
+    assert.deepEqual(parseModelJSON(code, { allowText: true }), { value: 'export default () => <div />;', parsePath: 'text' });
+
+    t.mock.method(console, 'error', () => {});
+    assert.throws(() => parseModelJSON('no json here'), /Failed to parse JSON response/);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Splits are read from the environment once per template, on first use
+process.env.PROMPT_SPLIT_CONFIG = 'v1:1,v2:1';
+process.env.PROMPT_SPLIT_PATCH = 'v1:0, v2:3, v9:5, v1:x';
+delete process.env.PROMPT_SPLIT_PLAYGROUND;
+
+const { assignPromptVersion, getPromptSplit, getPromptTemplate } = await import('../services/promptBuilder.js');
+
+describe('getPromptSplit', () => {
+  it('reads the weighted versions', () => {
+    assert.deepEqual(getPromptSplit('config'), [{ version: 'v1', weight: 1 }, { version: 'v2', weight: 1 }]);
+  });
+
+  it('skips unknown versions, invalid weights and zero weights', t => {
+    const warn = t.mock.method(console, 'warn', () => {});
+    assert.deepEqual(getPromptSplit('patch'), [{ version: 'v2', weight: 3 }]);
+    assert.deepEqual(warn.mock.calls.map(call => call.arguments[0]), [
+      'Ignoring PROMPT_SPLIT_PATCH entry "v9:5": expected <version>:<weight> with one of v1, v2',
+      'Ignoring PROMPT_SPLIT_PATCH entry "v1:x": expected <version>:<weight> with one of v1, v2'
+    ]);
+  });
+
+  it('gives the default version all traffic without a split', () => {
+    assert.deepEqual(getPromptSplit('playground'), [{ version: 'v1', weight: 1 }]);
+  });
+});
+
+describe('assignPromptVersion', () => {
+  const sessions = Array.from({ length: 400 }, (_, i) => `session-${i}`);
+
+  it('keeps a session on the same version', () => {
+    for (const session of sessions.slice(0, 20)) {
+      assert.equal(assignPromptVersion('config', session), assignPromptVersion('config', session));
+    }
+  });
+
+  it('splits sessions by weight', () => {
+    const v1 = sessions.filter(session => assignPromptVersion('config', session) === 'v1').length;
+    assert.ok(v1 > 150 && v1 < 250, `${v1} of ${sessions.length} sessions got v1`);
+  });
+
+  it('sends every session to the only weighted version', () => {
+    const patchVersions = new Set(sessions.map(session => assignPromptVersion('patch', session)));
+    assert.deepEqual([...patchVersions], ['v2']);
+  });
+
+  it('picks at random without a variant key', () => {
+    const picked = new Set(Array.from({ length: 100 }, () => assignPromptVersion('config')));
+    assert.deepEqual([...picked].sort(), ['v1', 'v2']);
+  });
+});
+
+describe('getPromptTemplate', () => {
+  it('falls back to the default version', () => {
+    assert.equal(getPromptTemplate('config', 'v1').version, 'v1');
+    assert.equal(getPromptTemplate('config', 'v9').version, 'v2');
+    assert.equal(getPromptTemplate('config').version, 'v2');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryRateLimitStore } from '../services/rateLimitStore.js';
+
+const policy = { capacity: 2, refillPerMinute: 60 }; // One token a second
+
+describe('memory rate limit store', () => {
+  it('allows a burst up to the capacity', async () => {
+    const store = createMemoryRateLimitStore();
+    assert.deepEqual(await store.takeToken('ip:1', policy, 0), { allowed: true, retryAfterMs: 0 });
+    assert.deepEqual(await store.takeToken('ip:1', policy, 0), { allowed: true, retryAfterMs: 0 });
+    assert.deepEqual(await store.takeToken('ip:1', policy, 0), { allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('refills over time, up to the capacity', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.takeToken('ip:1', policy, 0);
+    await store.takeToken('ip:1', policy, 0);
+
+    assert.deepEqual(await store.takeToken('ip:1', policy, 400), { allowed: false, retryAfterMs: 600 });
+    assert.equal((await store.takeToken('ip:1', policy, 1000)).allowed, true);
+
+    // A long pause does not bank more than a full bucket
+    const later = 10 * 60_000;
+    assert.equal((await store.takeToken('ip:1', policy, later)).allowed, true);
+    assert.equal((await store.takeToken('ip:1', policy, later)).allowed, true);
+    assert.equal((await store.takeToken('ip:1', policy, later)).allowed, false);
+  });
+
+  it('keeps a bucket per key', async () => {
+    const store = createMemoryRateLimitStore();
+    const single = { capacity: 1, refillPerMinute: 1 };
+    assert.equal((await store.takeToken('ip:1', single, 0)).allowed, true);
+    assert.equal((await store.takeToken('ip:1', single, 0)).allowed, false);
+    assert.equal((await store.takeToken('key:abc', single, 0)).allowed, true);
+  });
+
+  it('asks a bucket that never refills to come back tomorrow', async () => {
+    const store = createMemoryRateLimitStore();
+    const fixed = { capacity: 1, refillPerMinute: 0 };
+    await store.takeToken('ip:1', fixed, 0);
+    assert.deepEqual(await store.takeToken('ip:1', fixed, 0), { allowed: false, retryAfterMs: 24 * 60 * 60_000 });
+  });
+
+  it('adds up usage per key and day', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.addUsage('ip:1', '2026-01-01', { tokens: 100, costUsd: 0.5 });
+    await store.addUsage('ip:1', '2026-01-01', { tokens: 50, costUsd: 0.25 });
+    await store.addUsage('ip:2', '2026-01-01', { tokens: 10, costUsd: 0.1 });
+
+    assert.deepEqual(await store.getUsage('ip:1', '2026-01-01'), { tokens: 150, costUsd: 0.75 });
+    assert.deepEqual(await store.getUsage('ip:3', '2026-01-01'), { tokens: 0, costUsd: 0 });
+    assert.deepEqual(await store.getUsage('ip:1', '2026-01-02'), { tokens: 0, costUsd: 0 });
+  });
+
+  it('starts every key from zero on a new day', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.addUsage('ip:1', '2026-01-01', { tokens: 100, costUsd: 0.5 });
+    await store.addUsage('ip:1', '2026-01-02', { tokens: 5, costUsd: 0.01 });
+    assert.deepEqual(await store.getUsage('ip:1', '2026-01-02'), { tokens: 5, costUsd: 0.01 });
+    assert.deepEqual(await store.getUsage('ip:1', '2026-01-01'), { tokens: 0, costUsd: 0 });
+  });
+});
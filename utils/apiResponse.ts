@@ -0,0 +1,68 @@
+import { Response } from 'express';
+import type { ApiErrorCode } from '../contracts/common.js';
+
+// Error code of failures whose service did not pick a more specific one
+const STATUS_ERROR_CODES: Record<number, ApiErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  422: 'GENERATION_FAILED',
+  429: 'RATE_LIMITED',
+  499: 'CLIENT_CLOSED_REQUEST',
+  502: 'ENGINE_ERROR'
+};
+
+// Status of a failed generation, by the code its service picked
+const ERROR_CODE_STATUSES: Partial<Record<ApiErrorCode, number>> = {
+  GENERATION_FAILED: 422,
+  ENGINE_ERROR: 502,
+  CLIENT_CLOSED_REQUEST: 499,
+  INTERNAL_ERROR: 500
+};
+
+export interface ErrorOptions {
+  code?: ApiErrorCode;
+  details?: string[];
+}
+
+export function errorCodeForStatus(status: number): ApiErrorCode {
+  return STATUS_ERROR_CODES[status] ?? (status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+}
+
+export function statusForErrorCode(code?: ApiErrorCode): number {
+  return (code && ERROR_CODE_STATUSES[code]) ?? 400;
+}
+
+/**
+ * Give a failed response body its error code; successful bodies pass through
+ */
+export function withErrorCode<T extends { success: boolean }>(status: number, body: T): T {
+  if (body.success) return body;
+  const { code } = body as { code?: ApiErrorCode };
+  return { ...body, code: code ?? errorCodeForStatus(status) };
+}
+
+/**
+ * Send the error envelope: { success: false, error, code, details? }
+ */
+export function sendError(res: Response, status: number, error: string, options: ErrorOptions = {}) {
+  return res.status(status).json({
+    success: false,
+    error,
+    code: options.code ?? errorCodeForStatus(status),
+    ...(options.details ? { details: options.details } : {})
+  });
+}
+
+/**
+ * Send a service's { status, body } outcome, plus fields the controller adds
+ */
+export function sendOutcome<T extends { success: boolean }>(
+  res: Response,
+  outcome: { status: number; body: T },
+  extra: Record<string, unknown> = {}
+) {
+  return res.status(outcome.status).json(withErrorCode(outcome.status, { ...outcome.body, ...extra }));
+}
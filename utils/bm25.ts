@@ -0,0 +1,60 @@
+// Words that say nothing about what a prompt asks for
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'i', 'in', 'into', 'is',
+  'it', 'its', 'make', 'me', 'more', 'my', 'of', 'on', 'or', 'please', 'so', 'some', 'that', 'the', 'them',
+  'this', 'to', 'too', 'us', 'we', 'with', 'would', 'you'
+]);
+
+// Okapi BM25 defaults: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+export interface RankedDocument<T> {
+  document: T;
+  score: number;
+}
+
+/**
+ * Lowercase words without stop words, with a plural "s" dropped so "buttons"
+ * matches "button". Hex colors stay one token.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^a-z0-9#]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Rank documents by their Okapi BM25 score for the query, best first.
+ * Documents sharing no term with the query are left out.
+ */
+export function rankBm25<T>(query: string, documents: T[], getText: (document: T) => string): RankedDocument<T>[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const tokenized = documents.map(document => tokenize(getText(document)));
+  const averageLength = tokenized.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const terms of tokenized) {
+    for (const term of new Set(terms)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+
+  return tokenized
+    .map((terms, index) => {
+      const frequencies = new Map<string, number>();
+      for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+
+      const score = queryTerms.reduce((sum, term) => {
+        const frequency = frequencies.get(term);
+        if (!frequency) return sum;
+        const matching = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - matching + 0.5) / (matching + 0.5));
+        return sum + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * terms.length / averageLength));
+      }, 0);
+      return { document: documents[index], score };
+    })
+    .filter(ranked => ranked.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,17 @@
+import { Request, Response } from 'express';
+import type { CacheStatus } from '../services/generationCache.js';
+
+export const CACHE_HEADER = 'X-Cache';
+
+/**
+ * "Cache-Control: no-cache" (or the HTTP/1.0 "Pragma: no-cache") asks for a
+ * fresh generation instead of a cached one
+ */
+export function isCacheBypassed(req: Pick<Request, 'get'>): boolean {
+  const directives = `${req.get('Cache-Control') ?? ''},${req.get('Pragma') ?? ''}`.toLowerCase();
+  return directives.split(',').some(directive => directive.trim() === 'no-cache');
+}
+
+export function setCacheHeader(res: Response, cache: CacheStatus | undefined) {
+  if (cache) res.setHeader(CACHE_HEADER, cache);
+}
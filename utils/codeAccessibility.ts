@@ -0,0 +1,196 @@
+import { traverse, types as t, NodePath } from '@babel/core';
+
+export type AccessibilityRuleId = 'icon-button-label' | 'input-label' | 'click-non-interactive';
+
+/**
+ * Accessibility problem in generated code. Findings are reported with the
+ * code, they never fail validation.
+ */
+export interface AccessibilityFinding {
+  rule: AccessibilityRuleId;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+const ACCESSIBLE_NAME_ATTRIBUTES = ['aria-label', 'aria-labelledby'];
+
+// Last segment of the element name: <Input.Password> -> Password
+const INPUT_COMPONENTS = ['Input', 'TextField', 'Textarea', 'TextArea', 'Select', 'Password', 'InputNumber'];
+const INTRINSIC_INPUTS = ['input', 'textarea', 'select'];
+const UNLABELLED_INPUT_TYPES = ['hidden', 'submit', 'button', 'reset', 'image'];
+
+// Elements that label their descendants, and groups that label their field when they contain one of those
+const LABEL_ELEMENTS = ['label', 'Label', 'FormLabel', 'InputLabel'];
+const FORM_GROUPS = ['FormControl', 'Field', 'Field.Root', 'Form.Item', 'FormItem', 'FormField'];
+
+const INTERACTIVE_ELEMENTS = ['a', 'button', 'input', 'select', 'textarea', 'summary', 'option', 'label', 'details'];
+const INTERACTIVE_ROLES = ['button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'option'];
+const KEY_HANDLERS = ['onKeyDown', 'onKeyUp', 'onKeyPress'];
+
+function location(node: t.Node): Pick<AccessibilityFinding, 'line' | 'column'> {
+  return node.loc ? { line: node.loc.start.line, column: node.loc.start.column + 1 } : {};
+}
+
+/**
+ * <Button> -> "Button", <Field.Root> -> "Field.Root"
+ */
+function elementName(name: t.JSXOpeningElement['name']): string {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXMemberExpression(name)) return `${elementName(name.object)}.${name.property.name}`;
+  return `${name.namespace.name}:${name.name.name}`;
+}
+
+function lastSegment(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1);
+}
+
+function getAttribute(element: t.JSXOpeningElement, name: string): t.JSXAttribute | undefined {
+  return element.attributes.find((attribute): attribute is t.JSXAttribute =>
+    t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name, { name }));
+}
+
+/**
+ * Attribute present with a value other than an empty string
+ */
+function hasAttribute(element: t.JSXOpeningElement, ...names: string[]): boolean {
+  return names.some(name => {
+    const attribute = getAttribute(element, name);
+    if (!attribute) return false;
+    return !t.isStringLiteral(attribute.value) || attribute.value.value.trim() !== '';
+  });
+}
+
+function stringAttribute(element: t.JSXOpeningElement, name: string): string | undefined {
+  const value = getAttribute(element, name)?.value;
+  if (t.isStringLiteral(value)) return value.value;
+  if (t.isJSXExpressionContainer(value) && t.isStringLiteral(value.expression)) return value.expression.value;
+  return undefined;
+}
+
+// Spread props may carry any attribute, so elements with them are not judged
+function hasSpread(element: t.JSXOpeningElement): boolean {
+  return element.attributes.some(attribute => t.isJSXSpreadAttribute(attribute));
+}
+
+/**
+ * Text a screen reader would announce: literal text, or an expression that
+ * is not itself an element (e.g. {label})
+ */
+function hasTextContent(children: t.JSXElement['children']): boolean {
+  return children.some(child => {
+    if (t.isJSXText(child)) return child.value.trim() !== '';
+    if (t.isJSXExpressionContainer(child)) {
+      return !t.isJSXEmptyExpression(child.expression) && !t.isJSXElement(child.expression) && !t.isJSXFragment(child.expression);
+    }
+    if (t.isJSXElement(child) || t.isJSXFragment(child)) return hasTextContent(child.children);
+    return false;
+  });
+}
+
+function containsLabel(element: t.JSXElement): boolean {
+  return element.children.some(child =>
+    t.isJSXElement(child) &&
+    (lastSegment(elementName(child.openingElement.name)).endsWith('Label') || containsLabel(child)));
+}
+
+function isIconOnlyButton(path: NodePath<t.JSXOpeningElement>, name: string): boolean {
+  const element = path.parentPath.node as t.JSXElement;
+  if (lastSegment(name).endsWith('IconButton')) return !hasTextContent(element.children);
+  if (lastSegment(name) !== 'Button') return false;
+
+  const size = stringAttribute(path.node, 'size');
+  return (hasAttribute(path.node, 'icon') || size?.startsWith('icon') === true) && !hasTextContent(element.children);
+}
+
+/**
+ * MUI's Tooltip names its child with its title
+ */
+function isNamedByTooltip(path: NodePath<t.JSXOpeningElement>): boolean {
+  const parent = path.parentPath.parentPath;
+  return !!parent?.isJSXElement() &&
+    lastSegment(elementName(parent.node.openingElement.name)) === 'Tooltip' &&
+    hasAttribute(parent.node.openingElement, 'title');
+}
+
+function isFormInput(element: t.JSXOpeningElement, name: string): boolean {
+  if (INTRINSIC_INPUTS.includes(name)) {
+    const type = stringAttribute(element, 'type');
+    return !type || !UNLABELLED_INPUT_TYPES.includes(type);
+  }
+  return INPUT_COMPONENTS.includes(lastSegment(name));
+}
+
+function isLabelledByAncestor(path: NodePath<t.JSXOpeningElement>): boolean {
+  return !!path.parentPath.findParent(ancestor => {
+    if (!ancestor.isJSXElement()) return false;
+    const opening = ancestor.node.openingElement;
+    const name = elementName(opening.name);
+    if (LABEL_ELEMENTS.includes(name)) return true;
+    return FORM_GROUPS.includes(name) && (hasAttribute(opening, 'label') || containsLabel(ancestor.node));
+  });
+}
+
+/**
+ * Static accessibility checks of a component's JSX: icon-only buttons without
+ * an accessible name, form fields without a label, and click handlers on
+ * elements that cannot be focused or operated with the keyboard
+ */
+export function analyzeCodeAccessibility(ast: t.File): AccessibilityFinding[] {
+  const findings: AccessibilityFinding[] = [];
+
+  const labelTargets = new Set<string>();
+  traverse(ast, {
+    JSXOpeningElement(path: NodePath<t.JSXOpeningElement>) {
+      const target = stringAttribute(path.node, 'htmlFor');
+      if (target) labelTargets.add(target);
+    }
+  });
+
+  traverse(ast, {
+    JSXOpeningElement(path: NodePath<t.JSXOpeningElement>) {
+      const element = path.node;
+      if (hasSpread(element)) return;
+      const name = elementName(element.name);
+
+      if (isIconOnlyButton(path, name) && !hasAttribute(element, ...ACCESSIBLE_NAME_ATTRIBUTES) && !isNamedByTooltip(path)) {
+        findings.push({
+          rule: 'icon-button-label',
+          message: `Icon-only <${name}> has no accessible name; add an aria-label describing its action`,
+          ...location(element)
+        });
+      }
+
+      if (isFormInput(element, name)) {
+        const id = stringAttribute(element, 'id');
+        const labelled = hasAttribute(element, ...ACCESSIBLE_NAME_ATTRIBUTES, 'label', 'labelId') ||
+          (id !== undefined && labelTargets.has(id)) ||
+          isLabelledByAncestor(path);
+        if (!labelled) {
+          findings.push({
+            rule: 'input-label',
+            message: `<${name}> has no label${hasAttribute(element, 'placeholder') ? ' (a placeholder is not a label)' : ''}; ` +
+              'wrap it in a label, point a label\'s htmlFor at its id, or add aria-label',
+            ...location(element)
+          });
+        }
+      }
+
+      if (/^[a-z]/.test(name) && !INTERACTIVE_ELEMENTS.includes(name) && hasAttribute(element, 'onClick')) {
+        const role = stringAttribute(element, 'role');
+        const operable = role !== undefined && INTERACTIVE_ROLES.includes(role) &&
+          hasAttribute(element, 'tabIndex') &&
+          hasAttribute(element, ...KEY_HANDLERS);
+        if (!operable) {
+          findings.push({
+            rule: 'click-non-interactive',
+            message: `onClick on a <${name}> cannot be reached with the keyboard; use a button, or add role, tabIndex={0} and onKeyDown`,
+            ...location(element)
+          });
+        }
+      }
+    }
+  });
+
+  return findings;
+}
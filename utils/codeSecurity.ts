@@ -0,0 +1,465 @@
+import { transformSync, types as t, NodePath, PluginObj } from '@babel/core';
+import { getSecurityConfig, securityRules, SecurityAction, SecurityConfig, SecurityRuleId } from '../constants/securityRules.js';
+
+export interface SecurityFinding {
+  rule: SecurityRuleId;
+  action: Exclude<SecurityAction, 'off'>;
+  message: string;
+  line?: number;
+  column?: number;
+}
+
+export interface SecurityAnalysis {
+  findings: SecurityFinding[];
+  sanitizedCode?: string; // Present only when at least one finding was stripped
+}
+
+const NETWORK_CONSTRUCTORS = ['XMLHttpRequest', 'WebSocket', 'EventSource'];
+
+// Globals that are unsafe however they are reached, e.g. `fetch.call(...)` or `const f = fetch`
+const BLOCKED_GLOBALS = new Map<string, SecurityRuleId>([
+  ['eval', 'eval'],
+  ['Function', 'function-constructor'],
+  ['fetch', 'network'],
+  ['XMLHttpRequest', 'network'],
+  ['WebSocket', 'network'],
+  ['EventSource', 'network']
+]);
+const STORAGE_GLOBALS = ['localStorage', 'sessionStorage', 'indexedDB'];
+// Names of the window object, including the windows of the frames around and inside the sandbox
+const GLOBAL_OBJECTS = ['window', 'globalThis', 'self', 'top', 'parent', 'frames'];
+const URL_PATTERN = /(?:https?:)?\/\/([a-z0-9.-]+\.[a-z]{2,})(?::\d+)?/gi;
+
+// Props that render their value as HTML, and props whose URL the browser loads or runs (compared lower-cased)
+const HTML_PROPS = ['dangerouslysetinnerhtml', 'srcdoc'];
+const URL_PROPS = ['src', 'href', 'action', 'formaction'];
+
+// Key a stripped destructured property is moved to, so its target gets the stand-in as default
+const BLOCKED_PROPERTY_KEY = '__sandboxBlocked';
+
+/**
+ * Name of a member or object key when it is fixed: `a.b`, `a['b']`, `` a[`b`] ``, `a[0]`, `{ b }`
+ */
+function getKeyName(key: t.Node, computed: boolean): string | undefined {
+  if (!computed && t.isIdentifier(key)) return key.name;
+  if (t.isStringLiteral(key)) return key.value;
+  if (t.isNumericLiteral(key)) return String(key.value);
+  if (computed && t.isTemplateLiteral(key) && key.expressions.length === 0) {
+    return key.quasis[0].value.cooked ?? undefined;
+  }
+  return undefined;
+}
+
+function getPropertyName(node: t.MemberExpression): string | undefined {
+  return getKeyName(node.property, node.computed);
+}
+
+/**
+ * A window object: `window`, `parent`, `window.top`, `frames[0]`, ...
+ */
+function isGlobalObject(path: NodePath, node: t.Node): boolean {
+  if (t.isIdentifier(node)) {
+    return GLOBAL_OBJECTS.includes(node.name) && !path.scope.getBinding(node.name);
+  }
+  if (!t.isMemberExpression(node)) return false;
+  // Indexing a window gives the window of one of its frames
+  const isFrame = node.computed && t.isNumericLiteral(node.property);
+  return (isFrame || GLOBAL_OBJECTS.includes(getPropertyName(node) ?? '')) && isGlobalObject(path, node.object);
+}
+
+/**
+ * Is `node` a reference to the global `name`, directly or via a window object,
+ * and not shadowed by a local binding?
+ */
+function isGlobalReference(path: NodePath, node: t.Node, name: string): boolean {
+  if (t.isIdentifier(node, { name })) {
+    return !path.scope.getBinding(name);
+  }
+  return t.isMemberExpression(node) &&
+    getPropertyName(node) === name &&
+    isGlobalObject(path, node.object);
+}
+
+function isMember(path: NodePath, node: t.Node, objectName: string, property: string): boolean {
+  return t.isMemberExpression(node) &&
+    getPropertyName(node) === property &&
+    isGlobalReference(path, node.object, objectName);
+}
+
+/**
+ * The callee of a call or `new`; the CallExpression and NewExpression visitors judge those
+ */
+function isCallee(path: NodePath): boolean {
+  return (path.parentPath?.isCallExpression({ callee: path.node }) || path.parentPath?.isNewExpression({ callee: path.node })) ?? false;
+}
+
+/**
+ * `a.constructor.constructor`, which reaches Function from any value
+ */
+function isConstructorChain(node: t.MemberExpression): boolean {
+  return getPropertyName(node) === 'constructor' &&
+    t.isMemberExpression(node.object) &&
+    getPropertyName(node.object) === 'constructor';
+}
+
+/**
+ * window.location, location, document.location
+ */
+function isLocation(path: NodePath, node: t.Node): boolean {
+  return isGlobalReference(path, node, 'location') || isMember(path, node, 'document', 'location');
+}
+
+function blockedPromise(): t.Expression {
+  return t.callExpression(
+    t.memberExpression(t.identifier('Promise'), t.identifier('reject')),
+    [t.newExpression(t.identifier('Error'), [t.stringLiteral('Blocked by the playground sandbox policy')])]
+  );
+}
+
+function voidExpression(): t.Expression {
+  return t.unaryExpression('void', t.numericLiteral(0));
+}
+
+function functionExpression(...body: t.Statement[]): t.Expression {
+  return t.functionExpression(null, [], t.blockStatement(body));
+}
+
+/**
+ * Stand-in for a blocked global: fetch rejects, Function / eval and the
+ * network constructors do nothing
+ */
+function blockedGlobalStub(name: string): t.Expression {
+  if (name === 'fetch') return functionExpression(t.returnStatement(blockedPromise()));
+  if (name === 'Function') return functionExpression(t.returnStatement(functionExpression()));
+  return functionExpression();
+}
+
+/**
+ * In-memory stand-in for localStorage / sessionStorage / indexedDB
+ */
+function storageStub(): t.Expression {
+  const noop = (value: t.Expression) => t.arrowFunctionExpression([], value);
+  return t.objectExpression([
+    t.objectProperty(t.identifier('getItem'), noop(t.nullLiteral())),
+    t.objectProperty(t.identifier('setItem'), noop(voidExpression())),
+    t.objectProperty(t.identifier('removeItem'), noop(voidExpression())),
+    t.objectProperty(t.identifier('clear'), noop(voidExpression())),
+    t.objectProperty(t.identifier('open'), noop(t.nullLiteral()))
+  ]);
+}
+
+type DestructuredSource = 'window' | 'document';
+
+/**
+ * Rule and stand-in of a property destructured from a window object or
+ * document, matching what the member access visitors report
+ */
+function getDestructuredRule(source: DestructuredSource, name: string): { rule: SecurityRuleId; stub: () => t.Expression } | undefined {
+  if (source === 'document') {
+    if (name === 'cookie') return { rule: 'cookie', stub: () => t.stringLiteral('') };
+    if (name === 'location') return { rule: 'location-write', stub: () => t.objectExpression([]) };
+    return undefined;
+  }
+  const blocked = BLOCKED_GLOBALS.get(name);
+  if (blocked) return { rule: blocked, stub: () => blockedGlobalStub(name) };
+  if (STORAGE_GLOBALS.includes(name)) return { rule: 'storage', stub: storageStub };
+  // A destructured location is a local binding, so writes to it would go unnoticed
+  if (name === 'location') return { rule: 'location-write', stub: () => t.objectExpression([]) };
+  return undefined;
+}
+
+function getDestructuredSource(path: NodePath, node: t.Node): DestructuredSource | undefined {
+  if (isGlobalObject(path, node)) return 'window';
+  if (isGlobalReference(path, node, 'document')) return 'document';
+  return undefined;
+}
+
+/**
+ * The value an object pattern destructures: `const {...} = value`, `({...} = value)`
+ * and defaults such as `function f({...} = value)`
+ */
+function getDestructuredValue(path: NodePath<t.ObjectPattern>): t.Node | undefined {
+  const parent = path.parentPath;
+  if (parent.isVariableDeclarator({ id: path.node })) return parent.node.init ?? undefined;
+  if (parent.isAssignmentExpression({ left: path.node }) || parent.isAssignmentPattern({ left: path.node })) {
+    return parent.node.right;
+  }
+  return undefined;
+}
+
+/**
+ * javascript: URL as the browser reads it, which ignores spaces and control characters in the scheme
+ */
+function isJavaScriptUrl(text: string): boolean {
+  return /^javascript:/i.test(text.replace(/[\u0000-\u0020]/g, ''));
+}
+
+/**
+ * Text of a JSX attribute value that is a string, `{'...'}` or a template literal
+ */
+function getAttributeText(value: t.JSXAttribute['value']): string | undefined {
+  const node = t.isJSXExpressionContainer(value) ? value.expression : value;
+  if (t.isStringLiteral(node)) return node.value;
+  if (t.isTemplateLiteral(node)) return node.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('');
+  return undefined;
+}
+
+function findExternalUrls(text: string, allowedHosts: string[]): string[] {
+  const urls: string[] = [];
+  if (isJavaScriptUrl(text)) urls.push(text.trim());
+
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const host = match[1].toLowerCase();
+    const allowed = allowedHosts.some(allowedHost => host === allowedHost || host.endsWith(`.${allowedHost}`));
+    if (!allowed) urls.push(match[0]);
+  }
+  return urls;
+}
+
+function createSecurityPlugin(config: SecurityConfig, findings: SecurityFinding[]): PluginObj {
+  /**
+   * Record a finding; returns true when the caller should strip the node
+   */
+  const report = (rule: SecurityRuleId, node: t.Node, detail: string): boolean => {
+    const action = config.actions[rule];
+    if (action === 'off') return false;
+
+    findings.push({
+      rule,
+      action,
+      message: `${detail} (${securityRules[rule].description})`,
+      ...(node.loc ? { line: node.loc.start.line, column: node.loc.start.column + 1 } : {})
+    });
+    return action === 'strip';
+  };
+
+  /**
+   * Report the properties of a pattern destructured from a global object,
+   * following nested patterns into `document` and other window objects.
+   * Stripped properties keep their target, which gets the stand-in instead.
+   */
+  const checkPattern = (pattern: t.ObjectPattern, source: DestructuredSource) => {
+    pattern.properties.forEach((property, index) => {
+      if (!t.isObjectProperty(property)) return;
+      const name = getKeyName(property.key, property.computed);
+      const target = (t.isAssignmentPattern(property.value) ? property.value.left : property.value) as t.AssignmentPattern['left'];
+
+      if (name === undefined) {
+        if (report('dynamic-global-access', property, 'Computed key destructured from a global object')) {
+          pattern.properties[index] = t.objectProperty(t.stringLiteral(BLOCKED_PROPERTY_KEY), t.assignmentPattern(target, voidExpression()));
+        }
+        return;
+      }
+
+      const nested = source === 'window' && name === 'document' ? 'document'
+        : source === 'window' && (GLOBAL_OBJECTS.includes(name) || /^\d+$/.test(name)) ? 'window'
+        : undefined;
+      if (nested && t.isObjectPattern(target)) {
+        checkPattern(target, nested);
+        return;
+      }
+
+      const destructured = getDestructuredRule(source, name);
+      if (destructured && report(destructured.rule, property, `Destructured ${name}`)) {
+        pattern.properties[index] = t.objectProperty(t.stringLiteral(BLOCKED_PROPERTY_KEY), t.assignmentPattern(target, destructured.stub()));
+      }
+    });
+  };
+
+  return {
+    visitor: {
+      CallExpression(path) {
+        const { callee, arguments: args } = path.node;
+
+        if (t.isImport(callee)) {
+          if (report('dynamic-import', path.node, 'Dynamic import()')) path.replaceWith(blockedPromise());
+          return;
+        }
+        if (isGlobalReference(path, callee, 'eval')) {
+          if (report('eval', path.node, 'eval() call')) path.replaceWith(voidExpression());
+          return;
+        }
+        if ((isGlobalReference(path, callee, 'setTimeout') || isGlobalReference(path, callee, 'setInterval')) &&
+          (t.isStringLiteral(args[0]) || t.isTemplateLiteral(args[0]))) {
+          if (report('eval', path.node, 'Timer called with a code string')) path.replaceWith(voidExpression());
+          return;
+        }
+        if (isGlobalReference(path, callee, 'Function')) {
+          if (report('function-constructor', path.node, 'Function() call')) path.replaceWith(voidExpression());
+          return;
+        }
+        if (isGlobalReference(path, callee, 'fetch')) {
+          if (report('network', path.node, 'fetch() call')) path.replaceWith(blockedPromise());
+          return;
+        }
+        if (isMember(path, callee, 'navigator', 'sendBeacon')) {
+          if (report('network', path.node, 'navigator.sendBeacon() call')) path.replaceWith(t.booleanLiteral(false));
+          return;
+        }
+        if (isGlobalReference(path, callee, 'open') ||
+          (t.isMemberExpression(callee) && isLocation(path, callee.object) &&
+            ['assign', 'replace'].includes(getPropertyName(callee) ?? ''))) {
+          if (report('location-write', path.node, 'Page navigation call')) path.replaceWith(voidExpression());
+        }
+      },
+
+      NewExpression(path) {
+        const { callee } = path.node;
+        if (isGlobalReference(path, callee, 'Function')) {
+          if (report('function-constructor', path.node, 'new Function()')) path.replaceWith(voidExpression());
+          return;
+        }
+        const constructor = NETWORK_CONSTRUCTORS.find(name => isGlobalReference(path, callee, name));
+        if (constructor && report('network', path.node, `new ${constructor}()`)) {
+          path.replaceWith(voidExpression());
+        }
+      },
+
+      AssignmentExpression(path) {
+        const { left } = path.node;
+        if (isMember(path, left, 'document', 'cookie')) {
+          if (report('cookie', path.node, 'Write to document.cookie')) path.replaceWith(voidExpression());
+          return;
+        }
+        const writesLocation = isLocation(path, left) ||
+          (t.isMemberExpression(left) && isLocation(path, left.object));
+        if (writesLocation && report('location-write', path.node, 'Assignment to location')) {
+          path.replaceWith(voidExpression());
+        }
+      },
+
+      MemberExpression(path) {
+        // window[name], document[key]: the key could be anything, e.g. 'local' + 'Storage'
+        if (path.node.computed && getPropertyName(path.node) === undefined && getDestructuredSource(path, path.node.object)) {
+          if (report('dynamic-global-access', path.node, 'Computed property of a global object')) {
+            const assigned = path.parentPath.isAssignmentExpression({ left: path.node });
+            (assigned ? path.parentPath : path).replaceWith(voidExpression());
+          }
+          return;
+        }
+        if (path.parentPath.isAssignmentExpression({ left: path.node })) return;
+
+        if (isMember(path, path.node, 'document', 'cookie')) {
+          if (report('cookie', path.node, 'Read of document.cookie')) path.replaceWith(t.stringLiteral(''));
+          return;
+        }
+        if (isConstructorChain(path.node)) {
+          if (report('function-constructor', path.node, '.constructor.constructor access')) {
+            path.replaceWith(blockedGlobalStub('Function'));
+          }
+          return;
+        }
+        // window.localStorage; bare localStorage is handled by the Identifier visitor
+        const storage = STORAGE_GLOBALS.find(name => isGlobalReference(path, path.node, name));
+        if (storage) {
+          if (report('storage', path.node, `Use of ${storage}`)) path.replaceWith(storageStub());
+          return;
+        }
+        const blocked = [...BLOCKED_GLOBALS.keys()].find(name => isGlobalReference(path, path.node, name));
+        if (blocked && !isCallee(path) && report(BLOCKED_GLOBALS.get(blocked)!, path.node, `Reference to ${blocked}`)) {
+          path.replaceWith(blockedGlobalStub(blocked));
+        }
+      },
+
+      ObjectPattern(path) {
+        const value = getDestructuredValue(path);
+        const source = value && getDestructuredSource(path, value);
+        if (source) checkPattern(path.node, source);
+      },
+
+      Identifier(path) {
+        const name = path.node.name;
+        if (!path.isReferencedIdentifier() || path.scope.getBinding(name)) return;
+
+        if (STORAGE_GLOBALS.includes(name)) {
+          if (report('storage', path.node, `Use of ${name}`)) path.replaceWith(storageStub());
+          return;
+        }
+        const rule = BLOCKED_GLOBALS.get(name);
+        if (rule && !isCallee(path) && report(rule, path.node, `Reference to ${name}`)) {
+          path.replaceWith(blockedGlobalStub(name));
+        }
+      },
+
+      JSXAttribute(path) {
+        const { name, value } = path.node;
+        if (!t.isJSXIdentifier(name)) return;
+        const prop = name.name.toLowerCase();
+
+        if (HTML_PROPS.includes(prop)) {
+          if (report('dangerous-html', path.node, `${name.name} prop`)) path.remove();
+          return;
+        }
+        const url = URL_PROPS.includes(prop) ? getAttributeText(value) : undefined;
+        if (url !== undefined && isJavaScriptUrl(url)) {
+          if (report('dangerous-html', path.node, `javascript: URL in ${name.name}`)) path.node.value = t.stringLiteral('#');
+          // Reported here, so the external-url rule does not report it again
+          path.skip();
+        }
+      },
+
+      StringLiteral(path) {
+        if (path.parentPath.isImportDeclaration() || path.parentPath.isExportDeclaration()) return;
+        const urls = findExternalUrls(path.node.value, config.allowedHosts);
+        if (urls.length > 0 && report('external-url', path.node, `External URL ${urls.join(', ')}`)) {
+          path.replaceWith(t.stringLiteral('#'));
+          path.skip();
+        }
+      },
+
+      TemplateLiteral(path) {
+        const text = path.node.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('${}');
+        const urls = findExternalUrls(text, config.allowedHosts);
+        if (urls.length > 0 && report('external-url', path.node, `External URL ${urls.join(', ')}`)) {
+          path.replaceWith(t.stringLiteral('#'));
+          path.skip();
+        }
+      }
+    }
+  };
+}
+
+// Sanitizing rewrites the code, so it is checked again, at most this many times in all
+const MAX_SANITIZE_PASSES = 3;
+
+function runSecurityPass(code: string, config: SecurityConfig): { findings: SecurityFinding[]; code?: string | null } {
+  const findings: SecurityFinding[] = [];
+  const result = transformSync(code, {
+    filename: 'generated.tsx',
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ['jsx', 'typescript'] },
+    plugins: [createSecurityPlugin(config, findings)],
+    generatorOpts: { retainLines: true }
+  });
+  return { findings, code: result?.code };
+}
+
+/**
+ * Walk the code's AST with the configured security rules. Returns every
+ * finding and, when any finding was stripped, the sanitized code. The
+ * sanitized code is analyzed again until nothing more is stripped; anything
+ * still there after MAX_SANITIZE_PASSES fails instead.
+ */
+export function analyzeCodeSecurity(code: string, config: SecurityConfig = getSecurityConfig()): SecurityAnalysis {
+  const first = runSecurityPass(code, config);
+  const findings = [...first.findings];
+  const isStripped = (finding: SecurityFinding) => finding.action === 'strip';
+  if (!findings.some(isStripped) || !first.code) return { findings };
+
+  let sanitizedCode = first.code;
+  for (let pass = 2; ; pass++) {
+    const recheck = runSecurityPass(sanitizedCode, config);
+    const stripped = recheck.findings.filter(isStripped);
+    if (stripped.length === 0) break;
+
+    if (pass === MAX_SANITIZE_PASSES || !recheck.code) {
+      findings.push(...stripped.map(finding => ({ ...finding, action: 'fail' as const })));
+      break;
+    }
+    findings.push(...stripped);
+    sanitizedCode = recheck.code;
+  }
+
+  return { findings, sanitizedCode };
+}
@@ -1,17 +1,55 @@
 import { transform } from '@babel/standalone';
+import { parseSync, types as t } from '@babel/core';
+import { resolveProviderProfile } from '../constants/providerRegistry.js';
+import { checkDefaultExport, checkProviderRules } from './providerCodeRules.js';
+import { analyzeCodeSecurity, SecurityFinding } from './codeSecurity.js';
+import { analyzeCodeAccessibility, AccessibilityFinding } from './codeAccessibility.js';
+
+export interface CodeDiagnostic {
+  rule: string;     // e.g. 'syntax', 'import-source', 'component-allow-list', 'default-export', 'security/eval'
+  message: string;
+  line?: number;
+  column?: number;
+}
 
 export interface ValidationResult {
   success: boolean;
   error?: string;
+  diagnostics?: CodeDiagnostic[];
+  securityFindings?: SecurityFinding[];
+  accessibilityFindings?: AccessibilityFinding[]; // Reported only, never a reason to fail
+  sanitizedCode?: string; // Code with stripped security findings neutralized; return this instead of the input
 }
 
 /**
- * Validates if the provided code compiles successfully using Babel.
+ * Render a diagnostic for error messages and retry prompts
+ */
+export function formatDiagnostic(diagnostic: CodeDiagnostic): string {
+  const position = diagnostic.line !== undefined ? ` (line ${diagnostic.line}${diagnostic.column !== undefined ? `:${diagnostic.column}` : ''})` : '';
+  return `[${diagnostic.rule}]${position} ${diagnostic.message}`;
+}
+
+function parseGeneratedCode(code: string): t.File | null {
+  return parseSync(code, {
+    filename: 'generated.tsx',
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ['jsx', 'typescript'] }
+  });
+}
+
+/**
+ * Validates if the provided code compiles successfully using Babel, then runs
+ * static checks on the AST: exactly one default export, the provider's import
+ * rules and component allow-list when it is registered, and the security rules.
+ * Security findings set to 'fail' become diagnostics; 'strip' findings are
+ * neutralized in `sanitizedCode`. Accessibility findings are returned as they are.
  * @param code The string of React/TypeScript code to validate.
  * @param provider Optional provider ID for provider-specific validation
- * @returns An object containing the success status and any error message.
+ * @param version Provider version whose profile applies (default: the provider's default version)
+ * @returns An object containing the success status, error message and diagnostics.
  */
-export function validateCode(code: string, provider?: string): ValidationResult {
+export function validateCode(code: string, provider?: string, version?: string | number): ValidationResult {
   // Babel compilation validation
   try {
     transform(code, {
@@ -22,11 +60,55 @@ export function validateCode(code: string, provider?: string): ValidationResult
       ],
       filename: 'generated.tsx'
     });
-    return { success: true };
   } catch (error: any) {
     return {
       success: false,
-      error: error.message
+      error: error.message,
+      diagnostics: [{
+        rule: 'syntax',
+        message: error.message,
+        ...(error.loc ? { line: error.loc.line, column: error.loc.column + 1 } : {})
+      }]
     };
   }
+
+  const ast = parseGeneratedCode(code);
+  if (!ast) {
+    return { success: true, diagnostics: [] };
+  }
+
+  const diagnostics = checkDefaultExport(ast);
+  const profile = provider ? resolveProviderProfile(provider, version) : undefined;
+  if (profile) {
+    diagnostics.push(...checkProviderRules(ast, profile));
+  }
+
+  const security = analyzeCodeSecurity(code);
+  const accessibilityFindings = analyzeCodeAccessibility(ast);
+  for (const finding of security.findings) {
+    if (finding.action !== 'fail') continue;
+    diagnostics.push({
+      rule: `security/${finding.rule}`,
+      message: finding.message,
+      ...(finding.line !== undefined ? { line: finding.line, column: finding.column } : {})
+    });
+  }
+
+  if (diagnostics.length > 0) {
+    return {
+      success: false,
+      error: diagnostics.map(formatDiagnostic).join('\n'),
+      diagnostics,
+      securityFindings: security.findings,
+      accessibilityFindings
+    };
+  }
+
+  return {
+    success: true,
+    diagnostics,
+    securityFindings: security.findings,
+    accessibilityFindings,
+    ...(security.sanitizedCode ? { sanitizedCode: security.sanitizedCode } : {})
+  };
 }
@@ -0,0 +1,77 @@
+import { ComponentRegistryEntry, componentRegistry } from '../constants/componentRegistry.js';
+import type { LayoutNode } from '../validators/layoutConfigValidator.js';
+import { contrastRatio, MIN_GRAPHIC_CONTRAST, MIN_TEXT_CONTRAST } from './contrast.js';
+
+export interface ContrastCheck {
+  node?: string;           // Layout node, e.g. "root.children[1]"; absent for a single component
+  component: string;       // Registry id
+  foreground: string;      // Config path, e.g. "styles.fontColor"
+  background: string;
+  foregroundColor: string;
+  backgroundColor: string;
+  ratio: number;           // Rounded to two decimals
+  minimum: number;         // 4.5 for text, 3 for graphics
+  passes: boolean;
+}
+
+export interface ConfigAccessibilityReport {
+  passes: boolean;
+  contrast: ContrastCheck[]; // Pairs where both colors are set; library defaults are not checked
+}
+
+function getPath(config: unknown, path: string): unknown {
+  return path.split('.').reduce<any>((value, segment) => (value && typeof value === 'object' ? value[segment] : undefined), config);
+}
+
+function checkComponent(entry: ComponentRegistryEntry, config: unknown, node?: string): ContrastCheck[] {
+  return (entry.contrastPairs ?? []).flatMap(pair => {
+    const foregroundColor = getPath(config, pair.foreground);
+    const backgroundColor = getPath(config, pair.background);
+    const ratio = contrastRatio(foregroundColor, backgroundColor);
+    if (ratio === null) return [];
+
+    const minimum = pair.kind === 'text' ? MIN_TEXT_CONTRAST : MIN_GRAPHIC_CONTRAST;
+    return [{
+      ...(node ? { node } : {}),
+      component: entry.id,
+      foreground: pair.foreground,
+      background: pair.background,
+      foregroundColor: foregroundColor as string,
+      backgroundColor: backgroundColor as string,
+      ratio: Math.round(ratio * 100) / 100,
+      minimum,
+      passes: ratio >= minimum
+    }];
+  });
+}
+
+function checkLayoutNode(node: LayoutNode, path: string): ContrastCheck[] {
+  if ('children' in node) {
+    return node.children.flatMap((child, index) => checkLayoutNode(child, `${path}.children[${index}]`));
+  }
+  const entry = componentRegistry[node.type];
+  return entry && 'config' in node ? checkComponent(entry, node.config, path) : [];
+}
+
+/**
+ * WCAG contrast of every foreground / background pair the component declares;
+ * layouts are checked node by node. Expects a validated config.
+ */
+export function auditConfigAccessibility(entry: ComponentRegistryEntry, config: unknown): ConfigAccessibilityReport {
+  const contrast = entry.id === 'layout'
+    ? checkLayoutNode((config as { root: LayoutNode }).root, 'root')
+    : checkComponent(entry, config);
+  return { passes: contrast.every(check => check.passes), contrast };
+}
+
+/**
+ * Failed checks as retry feedback for the model
+ */
+export function describeContrastFailures(report: ConfigAccessibilityReport): string[] {
+  return report.contrast
+    .filter(check => !check.passes)
+    .map(check =>
+      `${check.node ? `${check.node}: ` : ''}${check.foreground} ${check.foregroundColor} on ${check.background} ${check.backgroundColor} ` +
+      `has a contrast ratio of ${check.ratio}:1; WCAG AA needs at least ${check.minimum}:1`
+    );
+}
@@ -0,0 +1,180 @@
+/**
+ * Semantic diff between two component configs, and a guard for changes the
+ * user's prompt never asked for.
+ */
+
+export interface ConfigChange {
+  path: string;                 // Dotted path, e.g. "styles.backgroundColor" or "options.1.label"
+  segments: (string | number)[];
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectChanges(before: unknown, after: unknown, segments: (string | number)[], changes: ConfigChange[]) {
+  const path = segments.join('.');
+
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (!(key in after)) {
+        changes.push({ path: [...segments, key].join('.'), segments: [...segments, key], type: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        changes.push({ path: [...segments, key].join('.'), segments: [...segments, key], type: 'added', after: after[key] });
+      } else {
+        collectChanges(before[key], after[key], [...segments, key], changes);
+      }
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= after.length) {
+        changes.push({ path: [...segments, i].join('.'), segments: [...segments, i], type: 'removed', before: before[i] });
+      } else if (i >= before.length) {
+        changes.push({ path: [...segments, i].join('.'), segments: [...segments, i], type: 'added', after: after[i] });
+      } else {
+        collectChanges(before[i], after[i], [...segments, i], changes);
+      }
+    }
+    return;
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, segments, type: 'changed', before, after });
+  }
+}
+
+/**
+ * Leaf-level changes from `before` to `after`. Arrays are compared by index.
+ */
+export function diffConfigs(before: unknown, after: unknown): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  collectChanges(before, after, [], changes);
+  return changes;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * "styles.backgroundColor: #FFFFFF → #1E40AF"
+ */
+export function formatChange(change: ConfigChange): string {
+  switch (change.type) {
+    case 'added':
+      return `${change.path}: (added) ${formatValue(change.after)}`;
+    case 'removed':
+      return `${change.path}: ${formatValue(change.before)} (removed)`;
+    default:
+      return `${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  }
+}
+
+// Words a prompt may use for a config property, keyed by the words of its name
+const PROPERTY_SYNONYMS: Record<string, string[]> = {
+  color: ['colour', 'color', 'red', 'orange', 'yellow', 'green', 'blue', 'indigo', 'purple', 'violet', 'pink',
+    'black', 'white', 'gray', 'grey', 'dark', 'light', 'brand', 'theme', 'contrast', 'bright', 'muted', 'palette'],
+  background: ['bg', 'fill', 'filled', 'background'],
+  radius: ['round', 'rounded', 'corner', 'corners', 'pill', 'circle', 'circular', 'square', 'sharp', 'curve', 'curved'],
+  border: ['outline', 'outlined', 'stroke', 'border', 'bordered'],
+  padding: ['spacing', 'space', 'spacious', 'compact', 'padded', 'roomy', 'tight', 'bigger', 'smaller', 'size'],
+  margin: ['spacing', 'space', 'gap'],
+  gap: ['spacing', 'space'],
+  font: ['text', 'font', 'typography', 'bold', 'italic', 'typeface'],
+  size: ['size', 'big', 'bigger', 'large', 'larger', 'small', 'smaller', 'tiny', 'huge', 'sized'],
+  weight: ['bold', 'bolder', 'thin', 'heavy', 'light', 'weight'],
+  shadow: ['shadow', 'elevation', 'elevated', 'depth', 'flat', 'raised', 'glow'],
+  width: ['width', 'wide', 'wider', 'narrow', 'full', 'size'],
+  height: ['height', 'tall', 'taller', 'short', 'shorter', 'size'],
+  label: ['text', 'label', 'say', 'says', 'title', 'copy', 'wording', 'rename', 'name', 'caption'],
+  text: ['text', 'label', 'say', 'says', 'copy', 'wording'],
+  icon: ['icon', 'icons', 'glyph', 'symbol'],
+  hover: ['hover', 'hovered', 'mouse', 'interaction'],
+  disabled: ['disable', 'disabled', 'inactive', 'enabled'],
+  variant: ['variant', 'style', 'outlined', 'contained', 'filled', 'ghost', 'solid'],
+  opacity: ['opacity', 'transparent', 'transparency', 'faded', 'translucent'],
+  transition: ['animation', 'animate', 'animated', 'transition', 'smooth', 'duration'],
+  option: ['option', 'options', 'item', 'items', 'choice', 'choices'],
+  tab: ['tab', 'tabs'],
+  placeholder: ['placeholder', 'hint']
+};
+
+// Containers whose names say nothing about what the user asked for
+const GENERIC_PATH_WORDS = new Set(['styles', 'style', 'config', 'props', 'properties', 'value']);
+
+/**
+ * Lower-case words of a property path: "styles.hoverBackgroundColor" -> hover, background, color
+ */
+function pathWords(change: ConfigChange): string[] {
+  return change.segments
+    .filter((segment): segment is string => typeof segment === 'string')
+    .flatMap(segment => segment.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[\s_-]+/))
+    .map(word => word.toLowerCase())
+    .filter(word => word && !GENERIC_PATH_WORDS.has(word));
+}
+
+function promptWords(prompt: string): Set<string> {
+  return new Set(prompt.toLowerCase().split(/[^a-z0-9#]+/).filter(Boolean));
+}
+
+/**
+ * Changes whose property name (or a known synonym of it) appears nowhere in
+ * the prompt. This is a heuristic: broad prompts like "make it look modern"
+ * legitimately touch everything, so callers should treat the result as a
+ * signal, not a verdict.
+ */
+export function findUnrelatedChanges(changes: ConfigChange[], prompt: string): ConfigChange[] {
+  const words = promptWords(prompt);
+  const mentions = (word: string) =>
+    [...words].some(promptWord => promptWord === word || (word.length > 3 && promptWord.startsWith(word)));
+
+  return changes.filter(change => {
+    const propertyWords = pathWords(change);
+    if (propertyWords.length === 0) return false;
+    return !propertyWords.some(word => mentions(word) || (PROPERTY_SYNONYMS[word] || []).some(mentions));
+  });
+}
+
+/**
+ * Restore the `before` side of the given changes in a copy of `config`
+ */
+export function revertChanges<T>(config: T, changes: ConfigChange[]): T {
+  const result = JSON.parse(JSON.stringify(config));
+  const isArrayAddition = (change: ConfigChange) =>
+    change.type === 'added' && typeof change.segments[change.segments.length - 1] === 'number';
+
+  // diffConfigs lists array indexes in ascending order: re-insert removed items
+  // in that order, but drop added items from the end so indexes stay valid
+  const ordered = [
+    ...changes.filter(change => !isArrayAddition(change)),
+    ...changes.filter(isArrayAddition).reverse()
+  ];
+
+  for (const change of ordered) {
+    if (change.segments.length === 0) continue;
+
+    let parent = result;
+    for (const segment of change.segments.slice(0, -1)) {
+      parent = parent?.[segment];
+    }
+    if (parent === null || typeof parent !== 'object') continue;
+
+    const key = change.segments[change.segments.length - 1];
+    if (change.type === 'added') {
+      if (Array.isArray(parent)) parent.splice(Number(key), 1);
+      else delete parent[key];
+    } else if (change.type === 'removed' && Array.isArray(parent)) {
+      parent.splice(Number(key), 0, change.before);
+    } else {
+      parent[key] = change.before;
+    }
+  }
+  return result;
+}
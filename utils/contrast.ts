@@ -0,0 +1,40 @@
+import { HEX_COLOR_PATTERN } from '../validators/primitives.js';
+
+/**
+ * Foreground / background color fields of a component config that are drawn
+ * on top of each other, by config path (see ComponentRegistryEntry.contrastPairs)
+ */
+export interface ContrastPair {
+  foreground: string; // e.g. "styles.fontColor"
+  background: string; // e.g. "styles.backgroundColor"
+  kind: 'text' | 'graphic'; // Graphics (icons, indicators) only need the non-text minimum
+}
+
+// WCAG 2.1 AA: 1.4.3 for text, 1.4.11 for user interface components and graphics
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_GRAPHIC_CONTRAST = 3;
+
+function channelLuminance(channel: number): number {
+  const value = channel / 255;
+  return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+/**
+ * WCAG relative luminance of a #RRGGBB color
+ */
+export function relativeLuminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map(i => channelLuminance(parseInt(hex.slice(i, i + 2), 16)));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Contrast ratio of two #RRGGBB colors, from 1 (same) to 21 (black on white),
+ * or null when either is not a hex color (e.g. an unresolved "$token")
+ */
+export function contrastRatio(foreground: unknown, background: unknown): number | null {
+  if (typeof foreground !== 'string' || !HEX_COLOR_PATTERN.test(foreground)) return null;
+  if (typeof background !== 'string' || !HEX_COLOR_PATTERN.test(background)) return null;
+
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
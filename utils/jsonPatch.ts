@@ -0,0 +1,202 @@
+/**
+ * JSON Patch (RFC 6902) and JSON Merge Patch (RFC 7386) for model-generated
+ * config edits. Both return a new document and never mutate their input.
+ */
+
+export type JsonPatchOperation =
+  | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'move' | 'copy'; from: string; path: string };
+
+export class JsonPatchError extends Error {
+  constructor(message: string, public readonly operationIndex?: number) {
+    super(operationIndex === undefined ? message : `Operation ${operationIndex}: ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+// JSON Schema for a JSON Patch document, used as the model's response schema
+export const JSON_PATCH_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+      path: { type: 'string', description: 'JSON Pointer, e.g. /styles/backgroundColor' },
+      from: { type: 'string', description: 'Source JSON Pointer for move and copy' },
+      value: { description: 'New value for add, replace and test' }
+    },
+    required: ['op', 'path']
+  }
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Split a JSON Pointer ("/styles/backgroundColor") into unescaped tokens
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON Pointer "${pointer}", it must start with "/"`);
+  }
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function toPointer(tokens: (string | number)[]): string {
+  return tokens.map(token => `/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function arrayIndex(array: unknown[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new JsonPatchError(`"${token}" is not a valid array index`);
+  }
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) {
+    throw new JsonPatchError(`Array index ${index} is out of bounds`);
+  }
+  return index;
+}
+
+function getValue(document: unknown, tokens: string[]): unknown {
+  let current = document;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[arrayIndex(current, token, false)];
+    } else if (isObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token];
+    } else {
+      throw new JsonPatchError(`Path ${toPointer(tokens)} does not exist`);
+    }
+  }
+  return current;
+}
+
+/**
+ * Parent container of the pointer's target; every intermediate must exist
+ */
+function getParent(document: unknown, tokens: string[]): unknown {
+  const parent = getValue(document, tokens.slice(0, -1));
+  if (!Array.isArray(parent) && !isObject(parent)) {
+    throw new JsonPatchError(`Path ${toPointer(tokens.slice(0, -1))} is not an object or array`);
+  }
+  return parent;
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) return value;
+  const parent = getParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    (parent as Record<string, unknown>)[key] = value;
+  }
+  return document;
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) {
+    throw new JsonPatchError('Cannot remove the whole document');
+  }
+  const parent = getParent(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else if (Object.prototype.hasOwnProperty.call(parent, key)) {
+    delete (parent as Record<string, unknown>)[key];
+  } else {
+    throw new JsonPatchError(`Path ${toPointer(tokens)} does not exist`);
+  }
+  return document;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Apply an RFC 6902 patch. Throws JsonPatchError naming the failing operation.
+ */
+export function applyJsonPatch<T>(document: T, operations: unknown): T {
+  if (!Array.isArray(operations)) {
+    throw new JsonPatchError('A JSON Patch must be an array of operations');
+  }
+
+  let result: unknown = clone(document);
+  operations.forEach((operation: any, index) => {
+    try {
+      if (!isObject(operation) || typeof operation.path !== 'string') {
+        throw new JsonPatchError('Each operation needs an "op" and a string "path"');
+      }
+      const tokens = parsePointer(operation.path);
+
+      switch (operation.op) {
+        case 'add':
+          result = addValue(result, tokens, clone(operation.value));
+          break;
+        case 'remove':
+          result = removeValue(result, tokens);
+          break;
+        case 'replace':
+          getValue(result, tokens);
+          result = tokens.length === 0 ? clone(operation.value) : addValue(removeValue(result, tokens), tokens, clone(operation.value));
+          break;
+        case 'move': {
+          if (typeof operation.from !== 'string') throw new JsonPatchError('"move" needs a string "from"');
+          const from = parsePointer(operation.from);
+          if (operation.path.startsWith(`${operation.from}/`)) {
+            throw new JsonPatchError('Cannot move a value into one of its own children');
+          }
+          const value = getValue(result, from);
+          result = addValue(removeValue(result, from), tokens, value);
+          break;
+        }
+        case 'copy': {
+          if (typeof operation.from !== 'string') throw new JsonPatchError('"copy" needs a string "from"');
+          result = addValue(result, tokens, clone(getValue(result, parsePointer(operation.from))));
+          break;
+        }
+        case 'test':
+          if (!deepEqual(getValue(result, tokens), operation.value)) {
+            throw new JsonPatchError(`Test failed: ${operation.path} is not ${JSON.stringify(operation.value)}`);
+          }
+          break;
+        default:
+          throw new JsonPatchError(`Unknown op "${String(operation.op)}"`);
+      }
+    } catch (error) {
+      if (error instanceof JsonPatchError && error.operationIndex === undefined) {
+        throw new JsonPatchError(error.message, index);
+      }
+      throw error;
+    }
+  });
+
+  return result as T;
+}
+
+/**
+ * Apply an RFC 7386 merge patch: objects merge recursively, null deletes,
+ * anything else replaces
+ */
+export function applyMergePatch<T>(document: T, patch: unknown): T {
+  if (!isObject(patch)) return clone(patch) as T;
+
+  const result: Record<string, unknown> = isObject(document) ? clone(document) : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
@@ -0,0 +1,225 @@
+/**
+ * How a model response was turned into a value:
+ * - structured: engine enforced JSON output and it parsed as-is
+ * - json:       plain response that happened to be valid JSON
+ * - fenced:     JSON inside a ``` code fence
+ * - extracted:  a balanced JSON value found inside surrounding prose
+ * - repaired:   JSON that needed fixing (quotes, trailing commas, truncation, ...)
+ * - text:       no JSON at all; the raw text is used (playground code only)
+ */
+export type ParsePath = 'structured' | 'json' | 'fenced' | 'extracted' | 'repaired' | 'text';
+
+export interface ParsedModelOutput {
+  value: any;
+  parsePath: ParsePath;
+}
+
+export interface ParseModelJSONOptions {
+  structured?: boolean; // The engine ran in JSON / schema mode
+  allowText?: boolean;  // Fall back to the raw text when nothing parses
+}
+
+const MAX_START_CANDIDATES = 20;
+const MAX_TRUNCATION_ATTEMPTS = 50;
+
+function tryParse(text: string): { ok: true; value: any } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Content of the first ``` fence. An unterminated fence (truncated output)
+ * yields everything after the opening line.
+ */
+function extractFenced(text: string): string | null {
+  const match = text.match(/```[a-zA-Z]*[^\S\n]*\n?([\s\S]*?)(?:```|$)/);
+  return match ? match[1] : null;
+}
+
+function stripFences(text: string): string {
+  return text
+    .replace(/^```[a-zA-Z]*\s*/, '')
+    .replace(/```\s*$/, '')
+    .trim();
+}
+
+function findStarts(text: string): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i < text.length && starts.length < MAX_START_CANDIDATES; i++) {
+    if (text[i] === '{' || text[i] === '[') starts.push(i);
+  }
+  return starts;
+}
+
+/**
+ * Slice a balanced {...} or [...] starting at `start`, skipping over brackets
+ * inside string literals. Returns null if the value never closes.
+ */
+function sliceBalanced(text: string, start: number): string | null {
+  const stack: string[] = [];
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return null;
+      if (stack.length === 0) return text.substring(start, i + 1);
+    }
+  }
+  return null;
+}
+
+function closersFor(stack: string[]): string {
+  return [...stack].reverse().join('');
+}
+
+function stripTrailingComma(out: string): string {
+  return out.replace(/,\s*$/, '');
+}
+
+/**
+ * Best-effort repair of almost-JSON: single-quoted strings, unquoted keys,
+ * trailing commas, comments, raw newlines in strings and truncated output
+ * (unterminated strings and unclosed brackets).
+ */
+export function repairJSON(text: string): string {
+  let out = '';
+  const stack: string[] = [];
+  const commas: { index: number; stack: string[] }[] = [];
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (escaped) {
+        escaped = false;
+        // \' is not a valid JSON escape; unknown escapes become a literal backslash
+        if (char === "'") out += "'";
+        else if ('"\\/bfnrtu'.includes(char)) out += `\\${char}`;
+        else out += `\\\\${char}`;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === quote) {
+        quote = null;
+        out += '"';
+      } else if (char === '"') {
+        out += '\\"';
+      } else if (char === '\n') {
+        out += '\\n';
+      } else if (char === '\r') {
+        out += '\\r';
+      } else if (char === '\t') {
+        out += '\\t';
+      } else {
+        out += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      out += '"';
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+      out += char;
+    } else if (char === '}' || char === ']') {
+      if (stack[stack.length - 1] !== char) continue;
+      stack.pop();
+      out = stripTrailingComma(out) + char;
+      if (stack.length === 0) break;
+    } else if (char === ',') {
+      commas.push({ index: out.length, stack: [...stack] });
+      out += char;
+    } else if (/[A-Za-z_$]/.test(char) && /[{,]\s*$/.test(out)) {
+      // Possibly an unquoted object key
+      let end = i;
+      while (end < text.length && /[\w$]/.test(text[end])) end++;
+      const identifier = text.substring(i, end);
+      const rest = text.substring(end).trimStart();
+      out += rest.startsWith(':') && stack[stack.length - 1] === '}' ? `"${identifier}"` : identifier;
+      i = end - 1;
+    } else {
+      out += char;
+    }
+  }
+
+  // Truncated output: close the open string, drop a dangling separator, close brackets
+  if (quote) out += '"';
+  out = out.trimEnd();
+  if (out.endsWith(':')) out += ' null';
+  out = stripTrailingComma(out);
+
+  const closed = out + closersFor(stack);
+  if (tryParse(closed).ok || stack.length === 0) return closed;
+
+  // Still broken (e.g. a dangling key): cut back to the last complete element
+  for (const comma of commas.slice(-MAX_TRUNCATION_ATTEMPTS).reverse()) {
+    const candidate = out.substring(0, comma.index) + closersFor(comma.stack);
+    if (tryParse(candidate).ok) return candidate;
+  }
+  return closed;
+}
+
+/**
+ * Parse a model response into a JSON value, reporting which path succeeded.
+ * Throws when no path produces a value.
+ */
+export function parseModelJSON(text: string, options: ParseModelJSONOptions = {}): ParsedModelOutput {
+  const trimmed = text.trim();
+
+  const direct = tryParse(trimmed);
+  if (direct.ok) {
+    return { value: direct.value, parsePath: options.structured ? 'structured' : 'json' };
+  }
+
+  const fenced = extractFenced(trimmed);
+  if (fenced !== null) {
+    const parsed = tryParse(fenced.trim());
+    if (parsed.ok) return { value: parsed.value, parsePath: 'fenced' };
+  }
+
+  const source = fenced ?? trimmed;
+  const starts = findStarts(source);
+
+  for (const start of starts) {
+    const candidate = sliceBalanced(source, start);
+    // An unclosed value means truncation; later starts would be nested inside it
+    if (!candidate) break;
+    const parsed = tryParse(candidate);
+    if (parsed.ok) return { value: parsed.value, parsePath: 'extracted' };
+  }
+
+  for (const start of starts) {
+    const candidate = sliceBalanced(source, start) ?? source.substring(start);
+    const parsed = tryParse(repairJSON(candidate));
+    if (parsed.ok && typeof parsed.value === 'object' && parsed.value !== null) {
+      return { value: parsed.value, parsePath: 'repaired' };
+    }
+  }
+
+  if (options.allowText && trimmed) {
+    return { value: stripFences(trimmed), parsePath: 'text' };
+  }
+
+  console.error("JSON Parse Error. Raw text:", text);
+  throw new Error("Failed to parse JSON response");
+}
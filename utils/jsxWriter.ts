@@ -0,0 +1,249 @@
+/**
+ * Minimal JSX/TSX writer for the deterministic code export: templates build a
+ * tree of elements and the writer prints it as formatted source, collecting
+ * imports and useState hooks on the way.
+ */
+
+export interface JsxExpression {
+  expression: string;
+}
+
+export interface JsxElement {
+  tag: string; // '' renders a fragment
+  props: Record<string, JsxValue | undefined>;
+  children: JsxChild[];
+}
+
+export interface JsxConditional {
+  condition: string;
+  element: JsxElement;
+}
+
+export type JsxValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsxExpression
+  | JsxElement
+  | JsxValue[]
+  | { [key: string]: JsxValue | undefined };
+
+export type JsxChild = JsxElement | JsxExpression | JsxConditional | string;
+
+export interface StateHook {
+  value: string;
+  setter: string;
+  initial: JsxValue;
+}
+
+const INDENT = '  ';
+const MAX_INLINE_TAG = 80;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Raw source code, e.g. an event handler or a comparison
+ */
+export function expr(expression: string): JsxExpression {
+  return { expression };
+}
+
+export function h(tag: string, props: JsxElement['props'] = {}, ...children: (JsxChild | null | undefined | false)[]): JsxElement {
+  return { tag, props, children: children.filter((child): child is JsxChild => Boolean(child)) };
+}
+
+/**
+ * `{condition && (<element />)}`
+ */
+export function when(condition: string, element: JsxElement): JsxConditional {
+  return { condition, element };
+}
+
+function isExpression(value: unknown): value is JsxExpression {
+  return typeof value === 'object' && value !== null && 'expression' in value;
+}
+
+function isElement(value: unknown): value is JsxElement {
+  return typeof value === 'object' && value !== null && 'tag' in value && 'children' in value;
+}
+
+function isConditional(value: unknown): value is JsxConditional {
+  return typeof value === 'object' && value !== null && 'condition' in value;
+}
+
+/**
+ * Undefined, or an object literal with nothing but blank entries: templates
+ * list every style they support and leave the unset ones out this way
+ */
+function isBlank(value: JsxValue | undefined): boolean {
+  if (value === undefined) return true;
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || isExpression(value) || isElement(value)) {
+    return false;
+  }
+  return Object.values(value).every(isBlank);
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * JavaScript literal for a prop value: objects and arrays on one line, strings
+ * single-quoted, elements inline
+ */
+export function toLiteral(value: JsxValue): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return quote(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (isExpression(value)) return value.expression;
+  if (isElement(value)) return renderElement(value, 0).join(' ');
+  if (Array.isArray(value)) return `[${value.map(toLiteral).join(', ')}]`;
+
+  const entries = Object.entries(value).filter(([, entry]) => !isBlank(entry));
+  if (entries.length === 0) return '{}';
+  const body = entries
+    .map(([key, entry]) => `${IDENTIFIER.test(key) ? key : quote(key)}: ${toLiteral(entry as JsxValue)}`)
+    .join(', ');
+  return `{ ${body} }`;
+}
+
+function renderProp(name: string, value: JsxValue): string {
+  if (value === true) return name;
+  if (typeof value === 'string' && !/["\n\\{}]/.test(value)) return `${name}="${value}"`;
+  return `${name}={${toLiteral(value)}}`;
+}
+
+function renderText(text: string): string {
+  return /[{}<>]|^\s|\s$/.test(text) ? `{${quote(text)}}` : text;
+}
+
+function renderChild(child: JsxChild, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  if (typeof child === 'string') return [pad + renderText(child)];
+  if (isExpression(child)) return [`${pad}{${child.expression}}`];
+  if (isConditional(child)) {
+    return [
+      `${pad}{${child.condition} && (`,
+      ...renderElement(child.element, depth + 1),
+      `${pad})}`
+    ];
+  }
+  return renderElement(child, depth);
+}
+
+/**
+ * Print an element as lines indented to `depth`. Props move onto their own
+ * lines when the opening tag gets long; a single text child stays inline.
+ */
+function renderElement(element: JsxElement, depth: number): string[] {
+  const pad = INDENT.repeat(depth);
+  const props = Object.entries(element.props)
+    .filter(([, value]) => !isBlank(value))
+    .map(([name, value]) => renderProp(name, value as JsxValue));
+
+  const selfClosing = element.children.length === 0 && element.tag !== '';
+  const inlineOpen = `<${[element.tag, ...props].join(' ')}${selfClosing ? ' />' : '>'}`;
+  const opening = pad.length + inlineOpen.length <= MAX_INLINE_TAG || props.length === 0
+    ? [pad + inlineOpen]
+    : [
+        `${pad}<${element.tag}`,
+        ...props.map(prop => pad + INDENT + prop),
+        `${pad}${selfClosing ? '/>' : '>'}`
+      ];
+
+  if (selfClosing) return opening;
+
+  const closing = `</${element.tag}>`;
+  const [only] = element.children;
+  if (element.children.length === 1 && typeof only === 'string' && opening.length === 1) {
+    const line = `${opening[0]}${renderText(only)}${closing}`;
+    if (line.length <= MAX_INLINE_TAG) return [line];
+  }
+
+  return [
+    ...opening,
+    ...element.children.flatMap(child => renderChild(child, depth + 1)),
+    pad + closing
+  ];
+}
+
+/**
+ * Collects what the rendered tree needs besides JSX: named imports per module
+ * and useState hooks. Names handed out by `state` and `uniqueName` are unique within
+ * the component, so a layout can render the same template several times.
+ */
+export class ComponentWriter {
+  private imports = new Map<string, Set<string>>();
+  private hooks: StateHook[] = [];
+  private names = new Set<string>();
+
+  /**
+   * Import a named export and return the local name
+   */
+  use(name: string, source: string): string {
+    const root = name.split('.')[0];
+    if (!this.imports.has(source)) this.imports.set(source, new Set());
+    this.imports.get(source)!.add(root);
+    return name;
+  }
+
+  uniqueName(base: string): string {
+    let name = base;
+    for (let i = 2; this.names.has(name); i++) name = `${base}${i}`;
+    this.names.add(name);
+    return name;
+  }
+
+  state(base: string, initial: JsxValue): StateHook {
+    const value = this.uniqueName(base);
+    const hook = { value, setter: `set${value[0].toUpperCase()}${value.slice(1)}`, initial };
+    this.hooks.push(hook);
+    return hook;
+  }
+
+  /**
+   * Module source with a single default-exported function component
+   */
+  write(componentName: string, root: JsxElement): string {
+    const reactImport = this.hooks.length > 0 ? "import React, { useState } from 'react';" : "import React from 'react';";
+    const importLines = [...this.imports.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([source, names]) => {
+        const sorted = [...names].sort();
+        const line = `import { ${sorted.join(', ')} } from '${source}';`;
+        return line.length <= MAX_INLINE_TAG
+          ? line
+          : `import {\n${sorted.map(name => INDENT + name).join(',\n')}\n} from '${source}';`;
+      });
+
+    const hookLines = this.hooks.map(hook =>
+      `${INDENT}const [${hook.value}, ${hook.setter}] = useState(${toLiteral(hook.initial)});`
+    );
+
+    return [
+      reactImport,
+      ...importLines,
+      '',
+      `export default function ${componentName}() {`,
+      ...(hookLines.length > 0 ? [...hookLines, ''] : []),
+      `${INDENT}return (`,
+      ...renderElement(root, 2),
+      `${INDENT});`,
+      '}',
+      ''
+    ].join('\n');
+  }
+}
+
+/**
+ * PascalCase identifier for a component name: "Icon Button" -> IconButton
+ */
+export function toComponentName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  if (!pascal) return 'ExportedComponent';
+  return /^[0-9]/.test(pascal) ? `Component${pascal}` : pascal;
+}
@@ -0,0 +1,154 @@
+import { traverse, types as t, NodePath } from '@babel/core';
+import { ProviderProfile } from '../constants/providerRegistry.js';
+import type { CodeDiagnostic } from './codeValidator.js';
+
+// Sources every provider may import from besides its own importPath
+const SHARED_IMPORT_SOURCES = ['react', 'lucide-react'];
+
+function location(node: t.Node): Pick<CodeDiagnostic, 'line' | 'column'> {
+  return node.loc ? { line: node.loc.start.line, column: node.loc.start.column + 1 } : {};
+}
+
+function importedName(specifier: t.ImportSpecifier): string {
+  return t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+}
+
+/**
+ * Root identifier of a JSX element name: <Button>, <Typography.Title> -> Typography
+ */
+function jsxRootName(name: t.JSXOpeningElement['name']): string | null {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXMemberExpression(name)) {
+    let object = name.object;
+    while (t.isJSXMemberExpression(object)) object = object.object;
+    return object.name;
+  }
+  return null;
+}
+
+/**
+ * Sub-path module that exports a component, from the profile's module map
+ */
+function moduleOf(modules: Record<string, string[]>, name: string): string | undefined {
+  return Object.keys(modules).find(module => modules[module].includes(name));
+}
+
+/**
+ * Exactly one default export, whatever the provider
+ */
+export function checkDefaultExport(ast: t.File): CodeDiagnostic[] {
+  const defaultExports: t.Node[] = [];
+
+  for (const statement of ast.program.body) {
+    if (t.isExportDefaultDeclaration(statement)) {
+      defaultExports.push(statement);
+    } else if (t.isExportNamedDeclaration(statement)) {
+      for (const specifier of statement.specifiers) {
+        const exported = t.isIdentifier(specifier.exported) ? specifier.exported.name : specifier.exported.value;
+        if (exported === 'default') defaultExports.push(specifier);
+      }
+    }
+  }
+
+  if (defaultExports.length === 1) return [];
+  if (defaultExports.length === 0) {
+    return [{ rule: 'default-export', message: 'Code must have a default export: export default () => { ... }' }];
+  }
+  return defaultExports.slice(1).map(node => ({
+    rule: 'default-export',
+    message: `Code must have exactly one default export, found ${defaultExports.length}`,
+    ...location(node)
+  }));
+}
+
+/**
+ * Enforce the provider profile's import path, import style and component allow-list
+ */
+export function checkProviderRules(ast: t.File, entry: ProviderProfile): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+  const allowed = new Set(entry.allowedComponents);
+  const extraSources = [...SHARED_IMPORT_SOURCES, ...(entry.extraImportSources ?? [])];
+
+  const isProviderSource = (source: string) =>
+    source === entry.importPath ||
+    (entry.allowSubpathImports === true && source.startsWith(`${entry.importPath}/`));
+
+  for (const statement of ast.program.body) {
+    if (!t.isImportDeclaration(statement)) continue;
+    const source = statement.source.value;
+
+    if (extraSources.includes(source)) continue;
+
+    if (!entry.allowSubpathImports && source.startsWith(`${entry.importPath}/`)) {
+      const names = statement.specifiers.map(specifier => specifier.local.name).join(', ');
+      diagnostics.push({
+        rule: 'subpath-import',
+        message: `Sub-path import "${source}" is not allowed for ${entry.id}; use root-level named imports: import { ${names} } from '${entry.importPath}'`,
+        ...location(statement)
+      });
+      continue;
+    }
+
+    if (!isProviderSource(source)) {
+      diagnostics.push({
+        rule: 'import-source',
+        message: `Import from "${source}" is not allowed for ${entry.id}; only "${entry.importPath}", ${extraSources.map(s => `"${s}"`).join(', ')} may be imported`,
+        ...location(statement)
+      });
+      continue;
+    }
+
+    for (const specifier of statement.specifiers) {
+      if (!t.isImportSpecifier(specifier)) {
+        if (!entry.allowSubpathImports) {
+          diagnostics.push({
+            rule: 'named-import',
+            message: `Use named imports from "${entry.importPath}", e.g. import { Button } from '${entry.importPath}'`,
+            ...location(specifier)
+          });
+        }
+        continue;
+      }
+
+      const name = importedName(specifier);
+      if (!allowed.has(name)) {
+        diagnostics.push({
+          rule: 'component-allow-list',
+          message: `${name} is not an allowed ${entry.label} component. Allowed: ${entry.allowedComponents.join(', ')}`,
+          ...location(specifier)
+        });
+        continue;
+      }
+
+      const expected = entry.modules ? moduleOf(entry.modules, name) : undefined;
+      if (expected && source !== `${entry.importPath}/${expected}`) {
+        diagnostics.push({
+          rule: 'import-module',
+          message: `${name} must be imported from '${entry.importPath}/${expected}', not '${source}'`,
+          ...location(specifier)
+        });
+      }
+    }
+  }
+
+  // Every capitalized JSX element must be imported or defined in the file
+  const reported = new Set<string>();
+  traverse(ast, {
+    JSXOpeningElement(path: NodePath<t.JSXOpeningElement>) {
+      const name = jsxRootName(path.node.name);
+      if (!name || !/^[A-Z]/.test(name) || reported.has(name)) return;
+      if (path.scope.hasBinding(name)) return;
+
+      reported.add(name);
+      diagnostics.push({
+        rule: 'component-allow-list',
+        message: allowed.has(name)
+          ? `${name} is used but not imported; add it to the import from '${entry.importPath}'`
+          : `${name} is used but never imported or defined`,
+        ...location(path.node)
+      });
+    }
+  });
+
+  return diagnostics;
+}
@@ -0,0 +1,151 @@
+export interface ProviderStreamHandlers {
+  onDelta?: (provider: string, delta: string) => void;
+  onComplete?: (provider: string, code: string) => void;
+}
+
+type ParserState = 'seekObject' | 'seekKey' | 'key' | 'seekColon' | 'seekValue' | 'value' | 'skipValue' | 'done';
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+/**
+ * Incremental parser for the playground output format
+ * `{ "<provider>": "<code>", ... }` as it streams in.
+ *
+ * Decoded string content is reported per provider while it arrives, and each
+ * provider is reported complete as soon as its closing quote is seen, so its
+ * code can be validated before the rest of the response has been generated.
+ * Anything before the first `{` (e.g. a ```json fence) is ignored.
+ */
+export class ProviderStreamParser {
+  private state: ParserState = 'seekObject';
+  private key = '';
+  private value = '';
+  private escape: string | null = null; // Pending escape sequence, e.g. "\\" or "\\u00"
+  private skipDepth = 0;
+  private skipQuote = false;
+  private skipEscaped = false;
+
+  constructor(private handlers: ProviderStreamHandlers) {}
+
+  push(chunk: string): void {
+    let delta = '';
+
+    for (const char of chunk) {
+      switch (this.state) {
+        case 'seekObject':
+          if (char === '{') this.state = 'seekKey';
+          break;
+
+        case 'seekKey':
+          if (char === '"') {
+            this.key = '';
+            this.state = 'key';
+          } else if (char === '}') {
+            this.state = 'done';
+          }
+          break;
+
+        case 'key':
+          if (this.escape !== null) {
+            this.key += char;
+            this.escape = null;
+          } else if (char === '\\') {
+            this.escape = '\\';
+          } else if (char === '"') {
+            this.state = 'seekColon';
+          } else {
+            this.key += char;
+          }
+          break;
+
+        case 'seekColon':
+          if (char === ':') this.state = 'seekValue';
+          break;
+
+        case 'seekValue':
+          if (char === '"') {
+            this.value = '';
+            this.state = 'value';
+          } else if (!/\s/.test(char)) {
+            // Not a string: skip it without reporting
+            this.state = 'skipValue';
+            this.skipDepth = char === '{' || char === '[' ? 1 : 0;
+            this.skipQuote = false;
+            this.skipEscaped = false;
+          }
+          break;
+
+        case 'value': {
+          if (this.escape !== null) {
+            const decoded = this.decodeEscape(char);
+            if (decoded !== null) {
+              this.value += decoded;
+              delta += decoded;
+            }
+          } else if (char === '\\') {
+            this.escape = '\\';
+          } else if (char === '"') {
+            if (delta) this.handlers.onDelta?.(this.key, delta);
+            delta = '';
+            this.handlers.onComplete?.(this.key, this.value);
+            this.state = 'seekKey';
+          } else {
+            this.value += char;
+            delta += char;
+          }
+          break;
+        }
+
+        case 'skipValue':
+          if (this.skipQuote) {
+            if (this.skipEscaped) this.skipEscaped = false;
+            else if (char === '\\') this.skipEscaped = true;
+            else if (char === '"') this.skipQuote = false;
+          } else if (char === '"') {
+            this.skipQuote = true;
+          } else if (char === '{' || char === '[') {
+            this.skipDepth++;
+          } else if (char === '}' || char === ']') {
+            if (this.skipDepth === 0) {
+              this.state = 'done';
+            } else if (--this.skipDepth === 0) {
+              this.state = 'seekKey';
+            }
+          } else if (char === ',' && this.skipDepth === 0) {
+            this.state = 'seekKey';
+          }
+          break;
+
+        case 'done':
+          return;
+      }
+    }
+
+    if (this.state === 'value' && delta) {
+      this.handlers.onDelta?.(this.key, delta);
+    }
+  }
+
+  /**
+   * Feed one character of an escape sequence. Returns the decoded text once the
+   * sequence is complete, null while more characters are needed.
+   */
+  private decodeEscape(char: string): string | null {
+    const pending = this.escape + char;
+
+    if (pending.length === 2 && char !== 'u') {
+      this.escape = null;
+      return SIMPLE_ESCAPES[char] ?? char;
+    }
+    if (pending.length < 6) {
+      this.escape = pending;
+      return null;
+    }
+
+    this.escape = null;
+    const code = parseInt(pending.substring(2), 16);
+    return Number.isNaN(code) ? '' : String.fromCharCode(code);
+  }
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+
+type JSONSchema = Record<string, any>;
+
+const INDENT = '  ';
+
+/**
+ * Convert a Zod schema into a JSON Schema (draft 2020-12) document.
+ */
+export function toJSONSchema(schema: z.ZodType): JSONSchema {
+  return z.toJSONSchema(schema, { unrepresentable: 'any' }) as JSONSchema;
+}
+
+function formatLiteral(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+function refName(ref: string): string {
+  if (ref === '#') return 'root';
+  return ref.split('/').pop() || ref;
+}
+
+/**
+ * Constraint annotations rendered in parentheses after the type,
+ * e.g. "(0 to 100)", "(pattern /^#[0-9A-Fa-f]{6}$/)", "(at least 1 item)"
+ */
+function describeConstraints(node: JSONSchema): string[] {
+  const constraints: string[] = [];
+  const isSafeBound = (value: unknown) => typeof value === 'number' && Math.abs(value) < Number.MAX_SAFE_INTEGER;
+
+  const min = isSafeBound(node.minimum) ? node.minimum : undefined;
+  const max = isSafeBound(node.maximum) ? node.maximum : undefined;
+  if (min !== undefined && max !== undefined) {
+    constraints.push(`${min} to ${max}`);
+  } else if (min !== undefined) {
+    constraints.push(`>= ${min}`);
+  } else if (max !== undefined) {
+    constraints.push(`<= ${max}`);
+  }
+  if (isSafeBound(node.exclusiveMinimum)) constraints.push(`> ${node.exclusiveMinimum}`);
+  if (isSafeBound(node.exclusiveMaximum)) constraints.push(`< ${node.exclusiveMaximum}`);
+
+  if (node.minLength !== undefined) constraints.push(`min length ${node.minLength}`);
+  if (node.maxLength !== undefined) constraints.push(`max length ${node.maxLength}`);
+  if (node.pattern) constraints.push(`pattern /${node.pattern}/`);
+  if (node.format) constraints.push(`format ${node.format}`);
+
+  if (node.minItems !== undefined) constraints.push(`at least ${node.minItems} item${node.minItems === 1 ? '' : 's'}`);
+  if (node.maxItems !== undefined) constraints.push(`at most ${node.maxItems} item${node.maxItems === 1 ? '' : 's'}`);
+
+  if (node.default !== undefined) constraints.push(`default ${formatLiteral(node.default)}`);
+  return constraints;
+}
+
+function renderObject(node: JSONSchema, depth: number): string {
+  const properties: Record<string, JSONSchema> = node.properties || {};
+  const required = new Set<string>(node.required || []);
+  const pad = INDENT.repeat(depth + 1);
+
+  const hasIndexSignature = Boolean(node.additionalProperties && typeof node.additionalProperties === 'object');
+  const lines = Object.entries(properties).map(([key, child], index, all) => {
+    const optional = required.has(key) ? '' : '?';
+    const comma = index < all.length - 1 || hasIndexSignature ? ',' : '';
+    return `${pad}${key}${optional}: ${renderNode(child, depth + 1, comma)}`;
+  });
+
+  if (hasIndexSignature) {
+    lines.push(`${pad}[key: string]: ${renderNode(node.additionalProperties, depth + 1, '')}`);
+  }
+
+  if (lines.length === 0) return '{}';
+  return `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`;
+}
+
+function renderType(node: JSONSchema, depth: number): string {
+  if (node.$ref) return refName(node.$ref);
+  if (node.const !== undefined) return formatLiteral(node.const);
+  if (Array.isArray(node.enum)) return node.enum.map(formatLiteral).join(' | ');
+
+  const variants = node.anyOf || node.oneOf;
+  if (Array.isArray(variants)) {
+    return variants.map((variant: JSONSchema) => renderAnnotatedType(variant, depth)).join(' | ');
+  }
+
+  const type = Array.isArray(node.type) ? node.type.join(' | ') : node.type;
+  switch (type) {
+    case 'object':
+      return renderObject(node, depth);
+    case 'array': {
+      const items = node.items ? renderType(node.items, depth) : 'any';
+      return items.includes('\n') || items.includes('|') ? `Array<${items}>` : `${items}[]`;
+    }
+    case undefined:
+      return 'any';
+    default:
+      return type;
+  }
+}
+
+function renderAnnotatedType(node: JSONSchema, depth: number): string {
+  const type = renderType(node, depth);
+  const constraints = describeConstraints(node);
+  return constraints.length ? `${type} (${constraints.join(', ')})` : type;
+}
+
+/**
+ * Render a node as "type (constraints)<suffix> // description".
+ * The suffix (usually a trailing comma) goes before the comment.
+ */
+function renderNode(node: JSONSchema, depth: number, suffix: string): string {
+  const annotated = renderAnnotatedType(node, depth);
+  const description = node.description ? ` // ${node.description}` : '';
+
+  // Put the comment on the opening line for multi-line objects
+  if (description && annotated.includes('\n')) {
+    const [first, ...rest] = annotated.split('\n');
+    return `${first}${description}\n${rest.join('\n')}${suffix}`;
+  }
+  return `${annotated}${suffix}${description}`;
+}
+
+/**
+ * Render a prompt-ready description of a Zod schema.
+ * Enums, numeric ranges, lengths, regexes, defaults and `.describe()` text
+ * all come from the schema itself, so the prompt cannot drift from validation.
+ */
+export function describeSchema(schema: z.ZodType, title: string): string {
+  const jsonSchema = toJSONSchema(schema);
+  const sections = [`${title}:\n${renderNode(jsonSchema, 0, '')}`];
+
+  const definitions: Record<string, JSONSchema> = jsonSchema.$defs || {};
+  for (const [name, definition] of Object.entries(definitions)) {
+    sections.push(`${name}:\n${renderNode(definition, 0, '')}`);
+  }
+
+  return sections.join('\n\n');
+}
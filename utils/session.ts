@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { Request } from 'express';
+import { SESSION_ID_PATTERN, INVALID_SESSION_ID_ERROR } from '../contracts/common.js';
+
+export { INVALID_SESSION_ID_ERROR };
+
+export const SESSION_HEADER = 'X-Session-Id';
+
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * Session id from the request body or the X-Session-Id header. A new id is
+ * generated when neither is present; returns null when the given id is malformed.
+ */
+export function resolveSessionId(req: Request): string | null {
+  const sessionId = req.body?.sessionId ?? req.get(SESSION_HEADER);
+  if (sessionId === undefined || sessionId === '') return randomUUID();
+  return isValidSessionId(sessionId) ? sessionId : null;
+}
@@ -0,0 +1,87 @@
+import type { ThemeTokens } from '../validators/themeValidator.js';
+import { isTokenReference } from '../validators/primitives.js';
+
+type TokenCategory = keyof ThemeTokens;
+type TokenValue = string | number;
+
+// Categories whose tokens component fields accept as "$name" references;
+// the rest are written as concrete values when re-skinning
+const REFERENCEABLE_CATEGORIES: TokenCategory[] = ['colors', 'radii'];
+
+export interface TokenResolution<T> {
+  config: T;
+  missing: string[]; // Referenced tokens the theme does not define
+}
+
+function findToken(tokens: ThemeTokens, name: string): { category: TokenCategory; value: TokenValue } | undefined {
+  for (const category of Object.keys(tokens) as TokenCategory[]) {
+    const group = tokens[category] as Record<string, TokenValue>;
+    if (Object.prototype.hasOwnProperty.call(group, name)) {
+      return { category, value: group[name] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Replace every "$name" string in a config with the theme's token value
+ */
+export function resolveTokenReferences<T>(config: T, tokens: ThemeTokens): TokenResolution<T> {
+  const missing = new Set<string>();
+
+  const resolve = (value: unknown): unknown => {
+    if (isTokenReference(value)) {
+      const token = findToken(tokens, value.slice(1));
+      if (!token) missing.add(value);
+      return token ? token.value : value;
+    }
+    if (Array.isArray(value)) return value.map(resolve);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, resolve(child)]));
+    }
+    return value;
+  };
+
+  return { config: resolve(config) as T, missing: [...missing] };
+}
+
+/**
+ * Every distinct "$name" reference in a config
+ */
+export function findTokenReferences(config: unknown): string[] {
+  const references = new Set<string>();
+
+  const visit = (value: unknown): void => {
+    if (isTokenReference(value)) references.add(value);
+    else if (Array.isArray(value)) value.forEach(visit);
+    else if (value && typeof value === 'object') Object.values(value).forEach(visit);
+  };
+
+  visit(config);
+  return [...references];
+}
+
+/**
+ * Point a config's themed properties at the theme: color and radius paths get
+ * "$token" references, the others get the token's value. Intermediate objects
+ * (e.g. styles.padding) are created as needed.
+ */
+export function applyThemeRoles<T>(config: T, roles: Record<string, string>, tokens: ThemeTokens): T {
+  const result = JSON.parse(JSON.stringify(config ?? {}));
+
+  for (const [path, tokenName] of Object.entries(roles)) {
+    const token = findToken(tokens, tokenName);
+    if (!token) continue;
+
+    const segments = path.split('.');
+    let target = result;
+    for (const segment of segments.slice(0, -1)) {
+      if (!target[segment] || typeof target[segment] !== 'object') target[segment] = {};
+      target = target[segment];
+    }
+    target[segments[segments.length - 1]] = REFERENCEABLE_CATEGORIES.includes(token.category)
+      ? `$${tokenName}`
+      : token.value;
+  }
+  return result;
+}
@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LLMUsage } from '../services/llmEngine.js';
+
+export interface MeteredUsage {
+  tokens: number;
+  costUsd: number;
+}
+
+type CostEstimator = (engineId: string, usage: LLMUsage) => number;
+
+interface UsageMeter {
+  usage: MeteredUsage;
+  estimateCost: CostEstimator;
+}
+
+const meters = new AsyncLocalStorage<UsageMeter>();
+
+/**
+ * Run `fn` with a fresh usage meter: every model call made while it runs
+ * (including after it returns, e.g. by the route handler it calls) adds its
+ * tokens to the returned totals
+ */
+export function runWithUsageMeter(estimateCost: CostEstimator, fn: () => void): MeteredUsage {
+  const meter: UsageMeter = { usage: { tokens: 0, costUsd: 0 }, estimateCost };
+  meters.run(meter, fn);
+  return meter.usage;
+}
+
+/**
+ * Add a model call's usage to the current request's meter, if there is one
+ */
+export function recordUsage(engineId: string, usage: LLMUsage | undefined): void {
+  const meter = meters.getStore();
+  if (!meter || !usage) return;
+
+  meter.usage.tokens += usage.inputTokens + usage.outputTokens;
+  meter.usage.costUsd += meter.estimateCost(engineId, usage);
+}
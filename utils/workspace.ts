@@ -0,0 +1,21 @@
+import { Request } from 'express';
+
+// Workspace of requests when API_AUTH is off, and of data saved before workspaces existed
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+/**
+ * Workspace of the request's API key, see middleware/apiKeyAuth
+ */
+export function getWorkspaceId(req: Pick<Request, 'auth'>): string {
+  return req.auth?.workspaceId ?? DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Query filter for a workspace's documents. Documents without a workspace
+ * predate workspaces and belong to the default one.
+ */
+export function workspaceFilter(workspaceId: string): { workspaceId: string | { $in: (string | null)[] } } {
+  return workspaceId === DEFAULT_WORKSPACE_ID
+    ? { workspaceId: { $in: [DEFAULT_WORKSPACE_ID, null] } }
+    : { workspaceId };
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+export interface ValidationResult<T = unknown> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: string[];
+}
+
+/**
+ * Validates a configuration against a component schema
+ * Returns detailed error messages for AI feedback
+ */
+export function validateConfig<T extends z.ZodType>(schema: T, config: unknown): ValidationResult<z.infer<T>> {
+  try {
+    const result = schema.safeParse(config);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: result.data
+      };
+    }
+
+    // Format Zod errors into detailed feedback
+    const errorDetails = result.error.issues.map((err) => {
+      const path = err.path.join('.');
+      return `${path}: ${err.message}`;
+    });
+
+    return {
+      success: false,
+      error: 'Configuration validation failed',
+      details: errorDetails
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: 'Invalid JSON structure',
+      details: [error instanceof Error ? error.message : 'Unknown error']
+    };
+  }
+}
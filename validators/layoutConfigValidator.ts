@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+export type LayoutNode =
+  | {
+      type: 'stack';
+      direction?: 'vertical' | 'horizontal';
+      gap?: number;
+      padding?: number;
+      align?: 'start' | 'center' | 'end' | 'stretch';
+      children: LayoutNode[];
+    }
+  | {
+      type: 'grid';
+      columns: number;
+      gap?: number;
+      padding?: number;
+      children: LayoutNode[];
+    }
+  | { type: string; config: unknown };
+
+export interface LayoutConfig {
+  title?: string;
+  root: LayoutNode;
+}
+
+const Spacing = z.number().min(0).max(64);
+
+/**
+ * Layout schema over the given component schemas: a tree of stack/grid
+ * containers whose leaves are `{ type: <component id>, config }` nodes,
+ * each validated by that component's own schema. Built from a map rather
+ * than the registry so the registry can include the layout itself.
+ */
+export function createLayoutConfigSchema(componentSchemas: Record<string, z.ZodType>) {
+  const componentNodes = Object.entries(componentSchemas).map(([id, schema]) =>
+    z.object({
+      type: z.literal(id),
+      config: schema
+    })
+  );
+
+  const StackNode = z.object({
+    type: z.literal('stack'),
+    direction: z.enum(['vertical', 'horizontal']).optional().describe('Main axis (defaults to vertical)'),
+    gap: Spacing.optional().describe('Space between children in pixels'),
+    padding: Spacing.optional().describe('Inner padding in pixels'),
+    align: z.enum(['start', 'center', 'end', 'stretch']).optional().describe('Cross-axis alignment'),
+    get children(): z.ZodArray<z.ZodType<LayoutNode>> {
+      return z.array(LayoutNodeSchema).min(1).describe('Child nodes, in order');
+    }
+  });
+
+  const GridNode = z.object({
+    type: z.literal('grid'),
+    columns: z.number().int().min(1).max(6).describe('Number of equal-width columns'),
+    gap: Spacing.optional().describe('Space between cells in pixels'),
+    padding: Spacing.optional().describe('Inner padding in pixels'),
+    get children(): z.ZodArray<z.ZodType<LayoutNode>> {
+      return z.array(LayoutNodeSchema).min(1).describe('Cells, filled row by row');
+    }
+  });
+
+  const nodeTypes = ['stack', 'grid', ...Object.keys(componentSchemas)];
+  const LayoutNodeSchema: z.ZodType<LayoutNode> = z.discriminatedUnion(
+    'type',
+    [StackNode, GridNode, ...componentNodes],
+    { error: `Node type must be one of: ${nodeTypes.join(', ')}` }
+  ).meta({ id: 'LayoutNode', description: 'A stack or grid container, or a component node' });
+
+  return z.object({
+    title: z.string().optional().describe('Screen name, e.g. "Login"'),
+    root: LayoutNodeSchema
+  });
+}
+
+// Layout-specific guidance appended to the generated schema description
+export const layoutConfigRules = `
+- Component nodes use the component id as "type" and put that component's full config under "config".
+- Use stack for rows/columns of elements and grid for repeated items; nest containers as needed.
+- Keep the tree shallow: only add containers that change the arrangement.
+`;
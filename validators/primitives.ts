@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+/**
+ * Style primitives shared by the component config schemas. Color and radius
+ * fields accept either a raw value or a reference to a theme token ("$primary"),
+ * resolved against a theme by utils/themeTokens.
+ */
+
+export const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+
+export const TOKEN_REFERENCE_PATTERN = /^\$[A-Za-z][\w-]*$/;
+
+// Marks token-reference variants in the generated JSON Schema (see geminiEngine.toGeminiSchema)
+export const TOKEN_REFERENCE_META_KEY = 'x-token-reference';
+
+const ColorValuePattern = new RegExp(`${HEX_COLOR_PATTERN.source}|${TOKEN_REFERENCE_PATTERN.source}`);
+
+/**
+ * "$primary" style reference to a theme token
+ */
+export function tokenReference() {
+  return z.string().regex(TOKEN_REFERENCE_PATTERN).meta({ [TOKEN_REFERENCE_META_KEY]: true });
+}
+
+/**
+ * Hex color (#RRGGBB) or a color token reference. A single pattern rather than a
+ * union, so the field stays a plain string for structured output. The accepted
+ * forms are appended to `label`, which is what the prompt and JSON Schema show.
+ */
+export function colorValue(label?: string) {
+  const forms = 'hex #RRGGBB or a "$token" reference';
+  return z.string().regex(ColorValuePattern).describe(label ? `${label}: ${forms}` : forms);
+}
+
+/**
+ * Border radius in pixels (0 to max) or a radius token reference
+ */
+export function radiusValue(max: number) {
+  return z.union([z.number().min(0).max(max), tokenReference()]);
+}
+
+export function isTokenReference(value: unknown): value is string {
+  return typeof value === 'string' && TOKEN_REFERENCE_PATTERN.test(value);
+}
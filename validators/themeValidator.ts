@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { HEX_COLOR_PATTERN } from './primitives.js';
+
+// Token names a theme must define; component themeRoles map config paths onto these
+export const CORE_COLOR_TOKENS = ['primary', 'onPrimary', 'secondary', 'surface', 'onSurface', 'border'] as const;
+export const CORE_RADIUS_TOKENS = ['radiusSm', 'radiusMd', 'radiusLg'] as const;
+export const CORE_SPACING_TOKENS = ['spacingSm', 'spacingMd', 'spacingLg'] as const;
+export const CORE_SHADOW_TOKENS = ['shadow'] as const;
+
+export type CoreThemeToken =
+  | typeof CORE_COLOR_TOKENS[number]
+  | typeof CORE_RADIUS_TOKENS[number]
+  | typeof CORE_SPACING_TOKENS[number]
+  | typeof CORE_SHADOW_TOKENS[number];
+
+const TOKEN_NAME_PATTERN = /^[A-Za-z][\w-]*$/;
+
+const ColorToken = z.string().regex(HEX_COLOR_PATTERN).describe('Hex color (#RRGGBB)');
+// Capped at the smallest radius any component accepts, so every token fits every component
+const RadiusToken = z.number().min(0).max(50).describe('Border radius in pixels (0-50)');
+const SpacingToken = z.number().min(1).max(64).describe('Spacing in pixels (1-64)');
+const ShadowToken = z.enum(['none', 'sm', 'md', 'lg']).describe('Shadow intensity');
+
+function tokenGroup<T extends z.ZodType>(names: readonly string[], token: T) {
+  return z.object(Object.fromEntries(names.map(name => [name, token])) as Record<string, T>).catchall(token);
+}
+
+export const ThemeTokensSchema = z.object({
+  colors: tokenGroup(CORE_COLOR_TOKENS, ColorToken)
+    .describe('primary: brand/action color, onPrimary: text on primary, secondary: less prominent accents, surface: component backgrounds, onSurface: text on surface, border: outlines and dividers'),
+  radii: tokenGroup(CORE_RADIUS_TOKENS, RadiusToken),
+  spacing: tokenGroup(CORE_SPACING_TOKENS, SpacingToken),
+  shadows: tokenGroup(CORE_SHADOW_TOKENS, ShadowToken)
+}).superRefine((tokens, ctx) => {
+  // Token references carry no category, so names must be unique across categories
+  const seen = new Map<string, string>();
+  for (const [category, group] of Object.entries(tokens)) {
+    for (const name of Object.keys(group)) {
+      if (!TOKEN_NAME_PATTERN.test(name)) {
+        ctx.addIssue({ code: 'custom', path: [category, name], message: `Invalid token name "${name}"` });
+      } else if (seen.has(name)) {
+        ctx.addIssue({ code: 'custom', path: [category, name], message: `Token "${name}" is already defined in ${seen.get(name)}` });
+      }
+      seen.set(name, category);
+    }
+  }
+});
+
+export const ThemeSchema = z.object({
+  name: z.string().min(1).max(80).describe('Theme name'),
+  description: z.string().max(500).optional().describe('What the theme is for'),
+  tokens: ThemeTokensSchema
+});
+
+export const ThemeUpdateSchema = ThemeSchema.partial();
+
+export type ThemeTokens = z.infer<typeof ThemeTokensSchema>;
+export type ThemeInput = z.infer<typeof ThemeSchema>;